@@ -1,87 +1,638 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { Activity, Heart, Bluetooth, AlertCircle, Cpu } from 'lucide-react';
-import { BluetoothMonitor } from './services/bluetoothService';
-import { calculateDfaAlpha1 } from './services/dfaService';
-import { HistoryChart } from './components/HistoryChart';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { Activity, Heart, Bluetooth, AlertCircle, Cpu, Download, History, RefreshCw, RotateCcw } from 'lucide-react';
+import { BluetoothMonitor, BluetoothSensor, FitnessMachine, PolarEcgSource } from './services/bluetoothService';
+import { ErgRampController, IDLE_ERG_RAMP } from './services/ergRampController';
+import { SimulatedHeartRateSource } from './services/simulatorService';
+import { StreamSource, setStreamUrl } from './services/streamSource';
+import { CoachPublisher, getCoachChannelSettings, setCoachChannelSettings } from './services/coachChannel';
+import { HeartRateDataSource, StatusCallback } from './services/dataSource';
+import { PipelineUpdate } from './services/dfaPipeline';
+import { IntensityTracker } from './services/intensityTracker';
+import { DfaWorkerClient } from './services/dfaWorkerClient';
+import { RRReplayer, analyzeRR, toTimedIntervals } from './services/replayService';
+import { SessionRecorder, createSessionId } from './services/sessionRecorder';
+import { exportSession, ExportFormat } from './services/exportService';
+import { saveSession, getSession, listSessions, deleteSession } from './services/sessionStore';
+import { ScreenWakeLock } from './services/pwa';
+import {
+  createProfile, saveProfile, listProfiles, deleteProfile, getActiveProfileId, setActiveProfileId,
+} from './services/profileStore';
+import { zoneFor, ZONE_LABELS } from './services/zones';
+import { BREATHING_CONFOUND_LABELS } from './services/respiration';
+import { AlertEngine } from './services/alertEngine';
+import { computeLaps, lapLabel } from './services/laps';
+import { IDLE_RESTING_TEST, PHASE_PROMPTS, RestingTestController, dailyRestingTrend } from './services/restingHrv';
+import { listRestingTests, saveRestingTest } from './services/restingStore';
+import { announce, deliverAlert, spokenDecimal, unlockAudio } from './services/alertDelivery';
+import { HistoryChart, ChartIntensity } from './components/HistoryChart';
 import { AlphaGauge } from './components/Gauge';
-import { DFADataPoint, BluetoothState } from './types';
-import { DFA_WINDOW_WIDTH } from './constants';
+import { SessionLibrary } from './components/SessionLibrary';
+import { ReplayPanel } from './components/ReplayPanel';
+import { SimulatorPanel } from './components/SimulatorPanel';
+import { RampTestPanel } from './components/RampTestPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SensorBar } from './components/SensorBar';
+import { ErgRampPanel } from './components/ErgRampPanel';
+import { AthleteProfiles } from './components/AthleteProfiles';
+import { AlertsPanel } from './components/AlertsPanel';
+import { SessionReportPanel } from './components/SessionReportPanel';
+import { LapPanel } from './components/LapPanel';
+import { RestingTestPanel } from './components/RestingTestPanel';
+import { EcgStrip, ECG_STRIP_SAMPLES } from './components/EcgStrip';
+import { StreamConnect } from './components/StreamConnect';
+import { CoachChannelPicker } from './components/CoachChannelPicker';
+import {
+  DFADataPoint, BluetoothState, RecordedSession, ArtifactReport, SessionSettings,
+  SensorKind, SensorReading, SensorState, ErgRampSettings, ErgRampState, AthleteProfile,
+  AlertEvent, AlertSettings, SessionSummary, LapMarker, LapStats, RestingProtocol, RestingTestResult, RestingTestState,
+  HeartRateSourceKind, CoachChannelSettings,
+} from './types';
+import {
+  SESSION_AUTOSAVE_INTERVAL_MS, SESSION_RESUME_WINDOW_MS, DEFAULT_SESSION_SETTINGS, DEFAULT_ALPHA_ZONES, DEFAULT_ALERT_SETTINGS,
+} from './constants';
+
+const formatCauses = (report: ArtifactReport) => {
+  const parts = Object.entries(report.byCause).filter(([, n]) => n).map(([cause, n]) => `${n} ${cause}`);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+};
+
+// Chart series that best matches an athlete's preferred sensor
+const PREFERRED_CHART_INTENSITY: Record<SensorKind, ChartIntensity> = {
+  power: 'power',
+  trainer: 'power',
+  footpod: 'pace',
+};
+
+const DISCONNECTED_SENSOR: SensorState = { deviceName: null, isConnected: false, isReconnecting: false };
 
 const App: React.FC = () => {
   // State
   const [btState, setBtState] = useState<BluetoothState>({
+    source: null,
     isConnected: false,
     isConnecting: false,
+    isReconnecting: false,
+    reconnectAttempt: 0,
     deviceName: null,
     error: null,
   });
 
   const [heartRate, setHeartRate] = useState<number>(0);
   const [currentAlpha1, setCurrentAlpha1] = useState<number | null>(null);
+  const [currentAlpha2, setCurrentAlpha2] = useState<number | null>(null);
+  const [currentArtifacts, setCurrentArtifacts] = useState<ArtifactReport | null>(null);
+  const [settings, setSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [settlingMs, setSettlingMs] = useState(0);
   const [history, setHistory] = useState<DFADataPoint[]>([]);
+  const [laps, setLaps] = useState<LapMarker[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [viewedSession, setViewedSession] = useState<RecordedSession | null>(null);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+
+  const [sensors, setSensors] = useState<Record<SensorKind, SensorState>>({
+    power: DISCONNECTED_SENSOR,
+    footpod: DISCONNECTED_SENSOR,
+    trainer: DISCONNECTED_SENSOR,
+  });
+  const [latestReadings, setLatestReadings] = useState<Partial<Record<SensorKind, SensorReading>>>({});
+  const [chartIntensity, setChartIntensity] = useState<ChartIntensity>('heartRate');
+  const [ergState, setErgState] = useState<ErgRampState>(IDLE_ERG_RAMP);
+  const [dataClock, setDataClock] = useState(0);
+  const [profiles, setProfiles] = useState<AthleteProfile[]>([]);
+  const [activeProfileId, setActiveProfile] = useState<string | null>(getActiveProfileId);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>([]);
+  const [restingState, setRestingState] = useState<RestingTestState>(IDLE_RESTING_TEST);
+  const [restingTests, setRestingTests] = useState<RestingTestResult[]>([]);
+  const [resumable, setResumable] = useState<SessionSummary | null>(null);
+  const [coachChannel, setCoachChannel] = useState<CoachChannelSettings>(() => getCoachChannelSettings('publish'));
+
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [ecgSamples, setEcgSamples] = useState<number[]>([]);
 
   // Refs for data processing without re-renders
-  const rrBufferRef = useRef<number[]>([]);
+  const dfaRef = useRef<DfaWorkerClient | null>(null);
   const monitorRef = useRef<BluetoothMonitor | null>(null);
+  const simulatorRef = useRef<SimulatedHeartRateSource | null>(null);
+  const ecgRef = useRef<PolarEcgSource | null>(null);
+  const streamRef = useRef<StreamSource | null>(null);
+  const sourceRef = useRef<HeartRateDataSource | null>(null);
+  const replayerRef = useRef<RRReplayer | null>(null);
+  const sensorRefs = useRef<{ power?: BluetoothSensor; footpod?: BluetoothSensor; trainer?: FitnessMachine }>({});
+  const ergRef = useRef<ErgRampController | null>(null);
+  const activeProfileRef = useRef<AthleteProfile | null>(null);
+  const alertRef = useRef<AlertEngine | null>(null);
+  const restingRef = useRef<RestingTestController | null>(null);
+  const alertSettingsRef = useRef<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const wakeLockRef = useRef(new ScreenWakeLock());
+  const coachRef = useRef(new CoachPublisher());
 
-  // Initialize Bluetooth Monitor
-  useEffect(() => {
-    monitorRef.current = new BluetoothMonitor(
-      (hr, rrIntervals) => {
-        setHeartRate(hr);
-
-        if (rrIntervals.length > 0) {
-          rrBufferRef.current = [...rrBufferRef.current, ...rrIntervals];
-
-          // Limit buffer size to keep memory usage low, but keep enough for window
-          // If we want a rolling window of calculation:
-          if (rrBufferRef.current.length > DFA_WINDOW_WIDTH + 50) {
-             rrBufferRef.current = rrBufferRef.current.slice(-(DFA_WINDOW_WIDTH + 50));
-          }
-
-          // Attempt calculation if we have enough data
-          // We debounce this slightly in practice, but here every update is fine
-          // if updates are infrequent (1s). RR packets usually come 1/sec.
-          if (rrBufferRef.current.length >= DFA_WINDOW_WIDTH) {
-             const windowSlice = rrBufferRef.current.slice(-DFA_WINDOW_WIDTH);
-             const alpha = calculateDfaAlpha1(windowSlice);
-
-             if (alpha !== null) {
-               setCurrentAlpha1(alpha);
-               setHistory(prev => {
-                 // Update history at most once per second
-                 const last = prev[prev.length - 1];
-                 const now = Date.now();
-                 if (!last || (now - last.timestamp > 2000)) {
-                    return [...prev, { timestamp: now, alpha1: alpha, heartRate: hr }];
-                 }
-                 return prev;
-               });
-             }
-          }
-        }
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? null;
+  const zones = activeProfile?.zones ?? DEFAULT_ALPHA_ZONES;
+  activeProfileRef.current = activeProfile;
+  const intensityRef = useRef(new IntensityTracker());
+  const recorderRef = useRef(new SessionRecorder());
+  const lastSaveTimeRef = useRef<number>(0);
+  const connectedRef = useRef(false);
+  // Session stopped to make room for a resting test; it continues afterwards
+  const suspendedSessionRef = useRef<RecordedSession | null>(null);
+  const restingStatusRef = useRef<RestingTestState['status']>('idle');
+  const settingsRef = useRef<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+
+  const persistSession = () => {
+    const session = recorderRef.current.getSession();
+    if (!session) return;
+    lastSaveTimeRef.current = Date.now();
+    saveSession(session).catch(err => console.error('Failed to save session:', err));
+  };
+
+  const startSession = (deviceName: string, now: number = Date.now()) => {
+    dfaRef.current?.reset();
+    setHistory([]);
+    setLaps([]);
+    setCurrentAlpha1(null);
+    setCurrentAlpha2(null);
+    setCurrentArtifacts(null);
+    const profile = activeProfileRef.current;
+    const athlete = profile ? { id: profile.id, name: profile.name, zones: profile.zones } : undefined;
+    const session = recorderRef.current.start(settingsRef.current, deviceName, now, athlete);
+    alertRef.current?.reset();
+    setActiveSessionId(session.id);
+    setViewedSession(null);
+    persistSession();
+    setLibraryRefreshKey(k => k + 1);
+  };
+
+  // Continues a stopped session; the time it was stopped becomes a recorded gap
+  const resumeSession = (session: RecordedSession) => {
+    dfaRef.current?.reset();
+    alertRef.current?.reset();
+    recorderRef.current.resume(session);
+    setHistory(session.history);
+    setLaps(session.laps ?? []);
+    setActiveSessionId(session.id);
+    setViewedSession(null);
+  };
+
+  const isRestingTestRunning = () => restingRef.current?.current.status === 'running';
+
+  // Single entry point for beats from any source; `now` is the source's clock
+  const processBeats = (hr: number, rrIntervals: number[], now: number = Date.now()) => {
+    setHeartRate(hr);
+    if (rrIntervals.length === 0) return;
+
+    recorderRef.current.addBeats(rrIntervals, now);
+    restingRef.current?.addBeats(rrIntervals, now);
+    dfaRef.current?.push(hr, rrIntervals, now);
+    if (!isRestingTestRunning()) alertRef.current?.update({ heartRate: hr }, now);
+
+    if (Date.now() - lastSaveTimeRef.current > SESSION_AUTOSAVE_INTERVAL_MS) {
+      persistSession();
+    }
+  };
+
+  // Results arrive asynchronously from the DFA worker
+  const handlePipelineUpdate = (update: PipelineUpdate, _hr: number, now: number) => {
+    const { alpha1, alpha2, artifacts, settlingMs, gap } = update;
+    let { point } = update;
+    setSettlingMs(settlingMs);
+    setDataClock(now);
+    // Values from before a dropout no longer describe the current window
+    if (gap) {
+      setCurrentAlpha1(null);
+      setCurrentAlpha2(null);
+      setCurrentArtifacts(null);
+    }
+    if (alpha1 !== null) setCurrentAlpha1(alpha1);
+    if (alpha1 !== null) setCurrentAlpha2(alpha2);
+    if (artifacts) setCurrentArtifacts(artifacts);
+    // A resting test is not exercise: nothing is recorded, charted or alerted on
+    if (isRestingTestRunning()) return;
+    if (point) {
+      // Attach the mean sensor intensity over the span of the analysed beats
+      point = { ...point, ...intensityRef.current.summarize(point.windowStart ?? point.timestamp, point.timestamp) };
+      recorderRef.current.addDataPoint(point);
+      setHistory(prev => [...prev, point!]);
+    }
+    ergRef.current?.update({ ...update, point }, now);
+    alertRef.current?.update({
+      alpha1: gap ? null : alpha1 ?? undefined,
+      artifactPercent: artifacts?.percent,
+      maxArtifactPercent: settingsRef.current.maxArtifactPercent,
+      zones: activeProfileRef.current?.zones ?? DEFAULT_ALPHA_ZONES,
+    }, now);
+  };
+
+  // Recording picks up again once a resting test ends on a still connected strap
+  const handleRestingChange = (state: RestingTestState) => {
+    const wasRunning = restingStatusRef.current === 'running';
+    restingStatusRef.current = state.status;
+    setRestingState(state);
+    if (!wasRunning || state.status === 'running') return;
+    const suspended = suspendedSessionRef.current;
+    suspendedSessionRef.current = null;
+    if (!connectedRef.current || recorderRef.current.isRecording) return;
+    if (suspended) resumeSession(suspended);
+    else startSession(sourceRef.current?.label ?? 'HR Monitor');
+  };
+
+  const handleAlert = (event: AlertEvent) => {
+    deliverAlert(event, alertSettingsRef.current);
+    setAlertLog(prev => [event, ...prev].slice(0, 5));
+  };
+
+  // A reconnect keeps the running session; beats resume after a recorded gap
+  const handleStatus: StatusCallback = (isConnected, error, reconnectAttempt = 0) => {
+    const label = sourceRef.current?.label ?? 'HR Monitor';
+    // Beats during a resting test belong to the test, not to an exercise session
+    connectedRef.current = isConnected;
+    if (isConnected && !recorderRef.current.isRecording && !isRestingTestRunning()) {
+      startSession(label);
+    }
+    const isReconnecting = reconnectAttempt > 0;
+    // Only an unexpected loss during a session raises the disconnect alert
+    if (isConnected || recorderRef.current.isRecording) {
+      alertRef.current?.update({ connected: isConnected });
+    }
+    setBtState(prev => ({
+      ...prev,
+      isConnected,
+      isConnecting: false,
+      isReconnecting,
+      reconnectAttempt,
+      error: error || null,
+      deviceName: isConnected || isReconnecting ? label : null,
+      source: isConnected || isReconnecting ? prev.source : null,
+    }));
+  };
+
+  const handleSensorReading = (reading: SensorReading) => {
+    intensityRef.current.add(reading);
+    setLatestReadings(prev => ({ ...prev, [reading.kind]: reading }));
+  };
+
+  const sensorStatus = (kind: SensorKind): StatusCallback => (isConnected, error, reconnectAttempt = 0) => {
+    setSensors(prev => ({
+      ...prev,
+      [kind]: {
+        deviceName: isConnected || reconnectAttempt > 0 ? sensorRefs.current[kind]?.label ?? null : null,
+        isConnected,
+        isReconnecting: reconnectAttempt > 0,
       },
-      (isConnected, error) => {
-        setBtState(prev => ({
-          ...prev,
-          isConnected,
-          isConnecting: false,
-          error: error || null,
-          deviceName: isConnected ? 'HR Monitor' : null
-        }));
-      }
-    );
+    }));
+    if (!isConnected) setLatestReadings(prev => ({ ...prev, [kind]: undefined }));
+    if (error) setBtState(prev => ({ ...prev, error }));
+  };
+
+  // Initialize data sources
+  useEffect(() => {
+    dfaRef.current = new DfaWorkerClient(handlePipelineUpdate, settingsRef.current);
+    monitorRef.current = new BluetoothMonitor(processBeats, handleStatus);
+    simulatorRef.current = new SimulatedHeartRateSource(processBeats, handleStatus);
+    streamRef.current = new StreamSource(processBeats, handleStatus);
+    ecgRef.current = new PolarEcgSource(processBeats, handleStatus, samples =>
+      setEcgSamples(prev => [...prev, ...samples].slice(-ECG_STRIP_SAMPLES)));
+    sensorRefs.current = {
+      power: new BluetoothSensor('power', handleSensorReading, sensorStatus('power')),
+      footpod: new BluetoothSensor('footpod', handleSensorReading, sensorStatus('footpod')),
+      trainer: new FitnessMachine(handleSensorReading, sensorStatus('trainer')),
+    };
+    alertRef.current = new AlertEngine(handleAlert, alertSettingsRef.current);
+    ergRef.current = new ErgRampController(sensorRefs.current.trainer!, setErgState);
+    restingRef.current = new RestingTestController(handleRestingChange, phase => announce(PHASE_PROMPTS[phase], alertSettingsRef.current));
+
+    replayerRef.current = new RRReplayer(processBeats, () => {
+      recorderRef.current.stop();
+      persistSession();
+      showFinishedSession();
+      setIsReplaying(false);
+      setLibraryRefreshKey(k => k + 1);
+    });
+
+    listProfiles().then(setProfiles).catch(err => console.error('Failed to load profiles:', err));
+
+    // A recording cut off by a discarded tab or reload can be continued
+    listSessions()
+      .then(sessions => {
+        const interrupted = sessions.find(s => s.endTime === null);
+        if (interrupted && Date.now() - interrupted.lastTimestamp < SESSION_RESUME_WINDOW_MS) setResumable(interrupted);
+      })
+      .catch(err => console.error('Failed to check for interrupted sessions:', err));
+
+    // Flush when the tab is hidden or closed; a crash loses at most one autosave interval
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') persistSession();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    document.addEventListener('freeze', persistSession);
+    window.addEventListener('pagehide', persistSession);
 
     return () => {
-      monitorRef.current?.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibility);
+      document.removeEventListener('freeze', persistSession);
+      window.removeEventListener('pagehide', persistSession);
+      wakeLockRef.current.disable();
+      coachRef.current.stop();
+      sourceRef.current?.disconnect();
+      (['power', 'footpod', 'trainer'] as SensorKind[]).forEach(kind => sensorRefs.current[kind]?.disconnect());
+      replayerRef.current?.stop();
+      dfaRef.current?.terminate();
     };
   }, []);
 
-  const handleConnect = () => {
-    setBtState(prev => ({ ...prev, isConnecting: true, error: null }));
-    monitorRef.current?.connect();
+  // Resting tests belong to the athlete who took them
+  useEffect(() => {
+    listRestingTests(activeProfileId).then(setRestingTests).catch(err => console.error('Failed to load resting tests:', err));
+  }, [activeProfileId]);
+
+  useEffect(() => {
+    const result = restingState.result;
+    if (!result) return;
+    saveRestingTest(result).catch(err => console.error('Failed to save resting test:', err));
+    if (result.athleteId === activeProfileId) setRestingTests(prev => [...prev, result]);
+  }, [restingState.result]);
+
+  useEffect(() => {
+    coachRef.current.configure(coachChannel);
+    setCoachChannelSettings('publish', coachChannel);
+  }, [coachChannel]);
+
+  // Every change to the live numbers goes out to the coach view; the publisher resends on a heartbeat
+  const latestPoint = history.length > 0 ? history[history.length - 1] : null;
+  useEffect(() => {
+    if (coachChannel.mode === 'off') return;
+    coachRef.current.publish({
+      name: activeProfile?.name ?? btState.deviceName ?? 'Athlete',
+      timestamp: Date.now(),
+      connected: btState.isConnected,
+      reconnecting: btState.isReconnecting,
+      recording: recorderRef.current.isRecording,
+      heartRate: heartRate > 0 ? heartRate : null,
+      alpha1: currentAlpha1,
+      artifactPercent: currentArtifacts?.percent ?? null,
+      maxArtifactPercent: settings.maxArtifactPercent,
+      lowQuality: currentArtifacts !== null && currentArtifacts.percent > settings.maxArtifactPercent,
+      zones,
+      point: latestPoint,
+    });
+  }, [coachChannel, heartRate, currentAlpha1, currentArtifacts, latestPoint, btState.isConnected, btState.isReconnecting, activeProfile?.name, zones, settings.maxArtifactPercent]);
+
+  // "L" stamps an unlabelled lap, unless the user is typing into a field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'l' || e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      handleLap('');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Keep the screen on while data is flowing so the phone doesn't sleep mid-test
+  const isSessionLive = btState.isConnected || btState.isReconnecting || isReplaying;
+  useEffect(() => {
+    if (isSessionLive) wakeLockRef.current.enable();
+    else wakeLockRef.current.disable();
+  }, [isSessionLive]);
+
+  const handleConnect = (kind: HeartRateSourceKind) => {
+    const sources: Record<HeartRateSourceKind, HeartRateDataSource | null> = {
+      bluetooth: monitorRef.current,
+      polar: ecgRef.current,
+      stream: streamRef.current,
+      simulator: simulatorRef.current,
+    };
+    sourceRef.current = sources[kind];
+    setEcgSamples([]);
+    setBtState(prev => ({ ...prev, source: kind, isConnecting: true, error: null }));
+    if (alertSettingsRef.current.sound) unlockAudio();
+    sourceRef.current?.connect();
+  };
+
+  const handleConnectStream = (url: string) => {
+    setStreamUrl(url);
+    streamRef.current?.setUrl(url);
+    handleConnect('stream');
+  };
+
+  // A finished recording opens straight into its report
+  const showFinishedSession = () => {
+    const session = recorderRef.current.getSession();
+    if (session && session.history.length > 0) {
+      setViewedSession({ ...session, rrIntervals: [...session.rrIntervals], history: [...session.history] });
+    }
+  };
+
+  // A user-initiated disconnect ends the session
+  const handleDisconnect = () => {
+    connectedRef.current = false;
+    suspendedSessionRef.current = null;
+    restingRef.current?.abort();
+    recorderRef.current.stop();
+    alertRef.current?.reset();
+    sourceRef.current?.disconnect();
+    persistSession();
+    showFinishedSession();
+    setBtState(prev => ({ ...prev, source: null }));
+    setLibraryRefreshKey(k => k + 1);
+  };
+
+  const handleConnectSensor = (kind: SensorKind) => {
+    setBtState(prev => ({ ...prev, error: null }));
+    sensorRefs.current[kind]?.connect();
+  };
+
+  const handleDisconnectSensor = (kind: SensorKind) => {
+    sensorRefs.current[kind]?.disconnect();
+  };
+
+  const handleStartErgRamp = (ergSettings: ErgRampSettings) => {
+    ergRef.current?.start(ergSettings, dataClock || Date.now(), zones);
+  };
+
+  const handleStartRestingTest = (protocol: RestingProtocol) => {
+    if (alertSettingsRef.current.sound) unlockAudio();
+    // Connecting auto-started a recording; drop it unless it already holds analysed data
+    const session = recorderRef.current.getSession();
+    if (session && recorderRef.current.isRecording) {
+      if (session.history.length === 0) {
+        recorderRef.current.discard();
+        setActiveSessionId(null);
+        deleteSession(session.id)
+          .then(() => setLibraryRefreshKey(k => k + 1))
+          .catch(err => console.error('Failed to discard session:', err));
+      } else {
+        recorderRef.current.stop();
+        persistSession();
+        suspendedSessionRef.current = session;
+        setLibraryRefreshKey(k => k + 1);
+      }
+    }
+    restingRef.current?.start(protocol, dataClock || Date.now(), settingsRef.current.artifactCorrection, activeProfileRef.current?.id ?? null);
+  };
+
+  const handleAbortRestingTest = () => {
+    restingRef.current?.abort();
+  };
+
+  const handleAbortErgRamp = () => {
+    ergRef.current?.abort(dataClock || Date.now());
+  };
+
+  const handleSelectProfile = (id: string | null) => {
+    setActiveProfile(id);
+    setActiveProfileId(id);
+    const preferred = profiles.find(p => p.id === id)?.preferredSensor;
+    if (preferred) setChartIntensity(PREFERRED_CHART_INTENSITY[preferred]);
   };
 
+  const handleCreateProfile = async () => {
+    const profile = createProfile(`Athlete ${profiles.length + 1}`);
+    await saveProfile(profile).catch(err => console.error('Failed to save profile:', err));
+    setProfiles(prev => [...prev, profile]);
+    setActiveProfile(profile.id);
+    setActiveProfileId(profile.id);
+  };
+
+  const handleSaveProfile = async (profile: AthleteProfile) => {
+    await saveProfile(profile).catch(err => console.error('Failed to save profile:', err));
+    setProfiles(prev => prev.map(p => (p.id === profile.id ? profile : p)));
+    if (profile.preferredSensor) setChartIntensity(PREFERRED_CHART_INTENSITY[profile.preferredSensor]);
+  };
+
+  const handleDeleteProfile = async (id: string) => {
+    await deleteProfile(id).catch(err => console.error('Failed to delete profile:', err));
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    if (id === activeProfileId) handleSelectProfile(null);
+  };
+
+  const handleResumeSession = async () => {
+    if (!resumable) return;
+    const session = await getSession(resumable.id);
+    setResumable(null);
+    if (!session || recorderRef.current.isRecording) return;
+    resumeSession(session);
+  };
+
+  const handleDismissResume = async () => {
+    if (!resumable) return;
+    const session = await getSession(resumable.id);
+    setResumable(null);
+    if (!session) return;
+    await saveSession({ ...session, endTime: resumable.lastTimestamp }).catch(err => console.error('Failed to save session:', err));
+    setLibraryRefreshKey(k => k + 1);
+  };
+
+  const handleAnalyzeFile = async (rrIntervals: number[], name: string) => {
+    const startTime = Date.now();
+    const session: RecordedSession = {
+      id: createSessionId(startTime),
+      name,
+      deviceName: 'Imported file',
+      startTime,
+      endTime: startTime + rrIntervals.reduce((a, b) => a + b, 0),
+      rrIntervals: toTimedIntervals(rrIntervals, startTime),
+      history: analyzeRR(rrIntervals, startTime, settings),
+      settings,
+    };
+    setViewedSession(session);
+    await saveSession(session).catch(err => console.error('Failed to save session:', err));
+    setLibraryRefreshKey(k => k + 1);
+  };
+
+  const handlePlayFile = (rrIntervals: number[], name: string, speed: number) => {
+    const now = Date.now();
+    recorderRef.current.stop();
+    startSession(`Replay: ${name}`, now);
+    setIsReplaying(true);
+    replayerRef.current?.start(rrIntervals, speed, now);
+  };
+
+  const handleStopReplay = () => {
+    replayerRef.current?.stop();
+    recorderRef.current.stop();
+    persistSession();
+    showFinishedSession();
+    setIsReplaying(false);
+    setLibraryRefreshKey(k => k + 1);
+  };
+
+  const updateSettings = (changes: Partial<SessionSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    dfaRef.current?.configure(changes);
+    recorderRef.current.updateSettings(changes);
+  };
+
+  const updateAlertSettings = (next: AlertSettings) => {
+    alertSettingsRef.current = next;
+    setAlertSettings(next);
+    alertRef.current?.configure(next);
+  };
+
+  const handleTestAlert = () => {
+    unlockAudio();
+    const alpha1 = currentAlpha1 ?? zones.aerobic - 0.07;
+    deliverAlert({
+      trigger: 'belowAerobic',
+      timestamp: Date.now(),
+      message: 'Test alert',
+      spoken: `alpha one ${spokenDecimal(alpha1)}`,
+    }, alertSettings);
+  };
+
+  const handleLap = (label: string) => {
+    const lap = recorderRef.current.addLap(label);
+    if (!lap) return;
+    setLaps(prev => [...prev, lap]);
+    persistSession();
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const session = viewedSession ?? recorderRef.current.getSession();
+    if (session) exportSession(session, format);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    if (id === activeSessionId) {
+      setViewedSession(null);
+      return;
+    }
+    const session = await getSession(id);
+    if (session) setViewedSession(session);
+  };
+
+  const handleSessionRenamed = (id: string, name: string) => {
+    if (id === activeSessionId) recorderRef.current.rename(name);
+    if (viewedSession?.id === id) setViewedSession({ ...viewedSession, name });
+  };
+
+  const chartData = viewedSession ? viewedSession.history : history;
+  const restingTrend = useMemo(() => dailyRestingTrend(restingTests), [restingTests]);
+  // Live laps are recomputed as data arrives, finished ones come from the
+  // cache; nothing to do until the first marker
+  const closedLapsRef = useRef(new Map<string, LapStats>());
+  const lapStats = useMemo(() => {
+    const session = viewedSession ?? recorderRef.current.getSession();
+    return session && (session.laps ?? []).length > 0 ? computeLaps(session, closedLapsRef.current) : [];
+  }, [viewedSession, laps, history]);
+  // Past sessions keep the zones they were recorded with
+  const chartZones = viewedSession ? viewedSession.athlete?.zones ?? DEFAULT_ALPHA_ZONES : zones;
+  const chartIntensities: ChartIntensity[] = [
+    'heartRate',
+    ...(chartData.some(p => p.power !== undefined) ? ['power' as const] : []),
+    ...(chartData.some(p => p.speed !== undefined) ? ['pace' as const] : []),
+  ];
+  const completedErgRange = useMemo(
+    () => ergState.status === 'finished' && ergState.startedAt !== null && ergState.endedAt !== null
+      ? { start: ergState.startedAt, end: ergState.endedAt }
+      : null,
+    [ergState.status, ergState.startedAt, ergState.endedAt],
+  );
+  const shownIntensity = chartIntensities.includes(chartIntensity) ? chartIntensity : 'heartRate';
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-50 p-4 md:p-8">
       <div className="max-w-5xl mx-auto space-y-6">
@@ -93,31 +644,103 @@ const App: React.FC = () => {
               <Activity className="text-emerald-500" />
               DFA a1 Threshold Monitor
             </h1>
-            <p className="text-slate-400 text-sm mt-1">Real-time aerobic threshold estimation via HRV</p>
+            <p className="text-slate-400 text-sm mt-1">
+              Real-time aerobic threshold estimation via HRV
+              {activeProfile && <span className="text-slate-300"> · {activeProfile.name}</span>}
+            </p>
           </div>
 
-          <div>
-            {!btState.isConnected ? (
-              <button
-                onClick={handleConnect}
-                disabled={btState.isConnecting}
-                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
-              >
-                <Bluetooth className="w-5 h-5" />
-                {btState.isConnecting ? 'Connecting...' : 'Connect HR Monitor'}
-              </button>
+          <div className="flex items-center gap-2">
+            {btState.isReconnecting ? (
+              <>
+                <div className="flex items-center gap-2 bg-amber-500/10 text-amber-400 px-4 py-2 rounded-lg border border-amber-500/20">
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  Reconnecting{btState.deviceName ? ` to ${btState.deviceName}` : ''}… (attempt {btState.reconnectAttempt})
+                </div>
+                <button
+                  onClick={handleDisconnect}
+                  className="text-sm text-slate-400 hover:text-slate-100 px-2 py-2 transition-colors"
+                >
+                  Disconnect
+                </button>
+              </>
+            ) : !btState.isConnected ? (
+              <>
+                <button
+                  onClick={() => handleConnect('simulator')}
+                  disabled={btState.isConnecting || isReplaying}
+                  className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 px-4 py-2 rounded-lg font-medium transition-colors"
+                >
+                  <Cpu className="w-5 h-5" />
+                  Simulator
+                </button>
+                <button
+                  onClick={() => handleConnect('bluetooth')}
+                  disabled={btState.isConnecting || isReplaying}
+                  className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+                >
+                  <Bluetooth className="w-5 h-5" />
+                  {btState.isConnecting ? 'Connecting...' : 'Connect HR Monitor'}
+                </button>
+                <button
+                  onClick={() => handleConnect('polar')}
+                  disabled={btState.isConnecting || isReplaying}
+                  title="Raw ECG from a Polar H10; beats are detected in the browser"
+                  className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 px-4 py-2 rounded-lg font-medium transition-colors"
+                >
+                  <Activity className="w-5 h-5" />
+                  Polar H10 ECG
+                </button>
+                <StreamConnect disabled={btState.isConnecting || isReplaying} onConnect={handleConnectStream} />
+              </>
             ) : (
-              <div className="flex items-center gap-2 bg-emerald-500/10 text-emerald-400 px-4 py-2 rounded-lg border border-emerald-500/20">
-                <span className="relative flex h-3 w-3">
-                  <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
-                  <span className="relative inline-flex rounded-full h-3 w-3 bg-emerald-500"></span>
-                </span>
-                Connected
-              </div>
+              <>
+                <div className="flex items-center gap-2 bg-emerald-500/10 text-emerald-400 px-4 py-2 rounded-lg border border-emerald-500/20">
+                  <span className="relative flex h-3 w-3">
+                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
+                    <span className="relative inline-flex rounded-full h-3 w-3 bg-emerald-500"></span>
+                  </span>
+                  {btState.deviceName ?? 'Connected'}
+                </div>
+                <button
+                  onClick={handleDisconnect}
+                  className="text-sm text-slate-400 hover:text-slate-100 px-2 py-2 transition-colors"
+                >
+                  Disconnect
+                </button>
+              </>
             )}
           </div>
         </header>
 
+        <SensorBar
+          sensors={sensors}
+          latest={latestReadings}
+          onConnect={handleConnectSensor}
+          onDisconnect={handleDisconnectSensor}
+          preferred={activeProfile?.preferredSensor ?? null}
+        />
+
+        {/* Interrupted recording */}
+        {resumable && !activeSessionId && (
+          <div className="bg-indigo-500/10 border border-indigo-500/20 text-indigo-300 p-4 rounded-lg flex flex-wrap items-center gap-3">
+            <RotateCcw className="w-5 h-5" />
+            <p className="flex-1">
+              "{resumable.name}" was interrupted at {new Date(resumable.lastTimestamp).toLocaleTimeString()}.
+              Resume it, then reconnect the strap to keep recording into the same session.
+            </p>
+            <button
+              onClick={handleResumeSession}
+              className="text-xs bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md transition-colors"
+            >
+              Resume
+            </button>
+            <button onClick={handleDismissResume} className="text-xs text-slate-400 hover:text-slate-100 px-2 py-1.5">
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Error Message */}
         {btState.error && (
           <div className="bg-rose-500/10 border border-rose-500/20 text-rose-400 p-4 rounded-lg flex items-center gap-3">
@@ -142,7 +765,12 @@ const App: React.FC = () => {
 
           {/* Card: Alpha 1 Gauge */}
           <div className="md:col-span-1">
-             <AlphaGauge value={currentAlpha1 !== null ? currentAlpha1 : 0} />
+             <AlphaGauge
+               value={currentAlpha1 !== null ? currentAlpha1 : 0}
+               artifactPercent={currentArtifacts?.percent ?? null}
+               maxArtifactPercent={settings.maxArtifactPercent}
+               zones={zones}
+             />
           </div>
 
           {/* Card: Status / Info */}
@@ -152,16 +780,47 @@ const App: React.FC = () => {
               <ul className="space-y-3 text-sm text-slate-300">
                 <li className="flex justify-between">
                   <span>Samples (Window):</span>
-                  <span className="font-mono text-slate-100">{DFA_WINDOW_WIDTH} beats</span>
+                  <span className="font-mono text-slate-100">
+                    {settings.windowMode === 'beats' ? `${settings.dfaWindowBeats} beats` : `${settings.windowSeconds} s`}
+                  </span>
                 </li>
+                {settings.dfa.computeAlpha2 && (
+                  <li className="flex justify-between">
+                    <span>Alpha 2:</span>
+                    <span className="font-mono text-violet-400">{currentAlpha2 !== null ? currentAlpha2.toFixed(2) : '--'}</span>
+                  </li>
+                )}
+                {settlingMs > 0 && (
+                  <li className="flex justify-between">
+                    <span>Settling:</span>
+                    <span className="font-mono text-amber-400">{Math.ceil(settlingMs / 1000)} s</span>
+                  </li>
+                )}
                 <li className="flex justify-between">
                   <span>AeT Target:</span>
-                  <span className="font-mono text-emerald-400">0.75</span>
+                  <span className="font-mono text-emerald-400">{zones.aerobic}</span>
                 </li>
                  <li className="flex justify-between">
                   <span>Current Zone:</span>
                   <span className="font-mono text-slate-100">
-                    {!currentAlpha1 ? '--' : currentAlpha1 > 0.75 ? 'Aerobic' : currentAlpha1 > 0.5 ? 'Threshold' : 'Anaerobic'}
+                    {currentAlpha1 === null ? '--' : ZONE_LABELS[zoneFor(currentAlpha1, zones)]}
+                  </span>
+                </li>
+                {latestPoint && (latestPoint.respiratoryRate !== undefined || latestPoint.breathingConfound) && (
+                  <li className="flex justify-between gap-2">
+                    <span>Breathing:</span>
+                    <span className={`font-mono text-right ${latestPoint.breathingConfound ? 'text-amber-400' : 'text-teal-400'}`}>
+                      {latestPoint.respiratoryRate !== undefined ? `${Math.round(latestPoint.respiratoryRate)} /min` : '--'}
+                      {latestPoint.breathingConfound && ` · ${BREATHING_CONFOUND_LABELS[latestPoint.breathingConfound]}`}
+                    </span>
+                  </li>
+                )}
+                <li className="flex justify-between">
+                  <span>Artifacts (Window):</span>
+                  <span className={`font-mono ${currentArtifacts && currentArtifacts.percent > settings.maxArtifactPercent ? 'text-rose-400' : 'text-slate-100'}`}>
+                    {currentArtifacts
+                      ? `${currentArtifacts.corrected}${formatCauses(currentArtifacts)}`
+                      : '--'}
                   </span>
                 </li>
               </ul>
@@ -171,9 +830,56 @@ const App: React.FC = () => {
 
         {/* Charts Section */}
         <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
-           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-6">Real-time Trends</h3>
-           {history.length > 2 ? (
-             <HistoryChart data={history} />
+           <div className="flex justify-between items-center mb-6">
+             <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase">
+               {viewedSession ? viewedSession.name : 'Real-time Trends'}
+             </h3>
+             <div className="flex items-center gap-2">
+               {chartIntensities.length > 1 && (
+                 <div className="flex gap-1 mr-2">
+                   {chartIntensities.map(option => (
+                     <button
+                       key={option}
+                       onClick={() => setChartIntensity(option)}
+                       className={`text-xs px-2 py-1 rounded ${shownIntensity === option ? 'bg-slate-600 text-slate-100' : 'text-slate-400 hover:text-slate-200'}`}
+                     >
+                       {{ heartRate: 'HR', power: 'Power', pace: 'Pace' }[option]}
+                     </button>
+                   ))}
+                 </div>
+               )}
+               {viewedSession && (
+                 <button
+                   onClick={() => setViewedSession(null)}
+                   className="text-xs bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md transition-colors"
+                 >
+                   Back to Live
+                 </button>
+               )}
+               {([['kubios', 'RR .txt'], ['csv', 'CSV'], ...(lapStats.length > 1 ? [['laps', 'Laps']] : []), ['json', 'JSON'], ['fit', 'FIT']] as [ExportFormat, string][]).map(([format, label]) => (
+                 <button
+                   key={format}
+                   onClick={() => handleExport(format)}
+                   disabled={chartData.length === 0}
+                   className="flex items-center gap-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 px-3 py-1.5 rounded-md transition-colors"
+                 >
+                   <Download className="w-3 h-3" />
+                   {label}
+                 </button>
+               ))}
+             </div>
+           </div>
+           {chartData.length > 2 ? (
+             <HistoryChart
+               key={viewedSession?.id ?? 'live'}
+               data={chartData}
+               intensity={shownIntensity}
+               zones={chartZones}
+               hrZones={viewedSession ? undefined : activeProfile?.hrZones}
+               gaps={(viewedSession ?? recorderRef.current.getSession())?.gaps}
+               markers={lapStats.slice(1).map(lap => ({ timestamp: lap.start, label: lapLabel(lap) }))}
+               pointIntervalMs={(viewedSession?.settings ?? settings).recomputeIntervalMs}
+             />
            ) : (
              <div className="h-64 flex flex-col items-center justify-center text-slate-500 border-2 border-dashed border-slate-700 rounded-lg">
                 <Activity className="w-8 h-8 mb-2 opacity-50" />
@@ -183,6 +889,138 @@ const App: React.FC = () => {
            )}
         </section>
 
+        {/* Laps */}
+        {(lapStats.length > 0 || (!viewedSession && recorderRef.current.isRecording)) && (
+          <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+             <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Laps</h3>
+             <LapPanel laps={lapStats} canAddLap={!viewedSession && recorderRef.current.isRecording} onLap={handleLap} />
+          </section>
+        )}
+
+        {/* Session Report */}
+        {viewedSession && (
+          <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+             <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Session Report</h3>
+             <SessionReportPanel session={viewedSession} />
+          </section>
+        )}
+
+        {/* Athlete Profile */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Athlete</h3>
+           <AthleteProfiles
+             profiles={profiles}
+             activeId={activeProfile?.id ?? null}
+             onSelect={handleSelectProfile}
+             onCreate={handleCreateProfile}
+             onSave={handleSaveProfile}
+             onDelete={handleDeleteProfile}
+           />
+        </section>
+
+        {/* Alerts */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Alerts</h3>
+           <AlertsPanel settings={alertSettings} onChange={updateAlertSettings} onTest={handleTestAlert} log={alertLog} />
+        </section>
+
+        {/* Coach View */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Coach View</h3>
+           <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+             <span>Publish live data</span>
+             <CoachChannelPicker settings={coachChannel} onChange={setCoachChannel} />
+             <a href="?coach" target="_blank" rel="noopener" className="text-xs text-sky-400 hover:text-sky-300">
+               Open coach dashboard
+             </a>
+           </div>
+        </section>
+
+        {/* Analysis Settings */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Analysis Settings</h3>
+           <SettingsPanel settings={settings} onChange={updateSettings} />
+        </section>
+
+        {/* Ramp Test */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Threshold Ramp Test</h3>
+           <div className="mb-4 pb-4 border-b border-slate-700">
+             <ErgRampPanel
+               state={ergState}
+               trainerConnected={sensors.trainer.isConnected && !viewedSession}
+               now={dataClock}
+               onStart={handleStartErgRamp}
+               onAbort={handleAbortErgRamp}
+               zones={zones}
+             />
+           </div>
+           <RampTestPanel
+             history={chartData}
+             isLive={!viewedSession && (btState.isConnected || isReplaying)}
+             completedRange={completedErgRange}
+             zones={chartZones}
+           />
+        </section>
+
+        {/* Resting HRV */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Resting HRV</h3>
+           <RestingTestPanel
+             state={restingState}
+             canStart={btState.isConnected && !isReplaying}
+             now={dataClock}
+             onStart={handleStartRestingTest}
+             onAbort={handleAbortRestingTest}
+             latest={restingTests.length > 0 ? restingTests[restingTests.length - 1] : null}
+             trend={restingTrend}
+           />
+        </section>
+
+        {/* Live ECG */}
+        {btState.source === 'polar' && btState.isConnected && (
+          <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+             <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">ECG</h3>
+             <EcgStrip samples={ecgSamples} />
+          </section>
+        )}
+
+        {/* Simulator Controls */}
+        {btState.source === 'simulator' && btState.isConnected && (
+          <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+             <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Simulator</h3>
+             <SimulatorPanel
+               initialSettings={simulatorRef.current!.getSettings()}
+               onChange={settings => simulatorRef.current?.updateSettings(settings)}
+             />
+          </section>
+        )}
+
+        {/* Offline Replay */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Offline Replay</h3>
+           <ReplayPanel
+             isPlaying={isReplaying}
+             disabled={btState.isConnected}
+             onAnalyze={handleAnalyzeFile}
+             onPlay={handlePlayFile}
+             onStop={handleStopReplay}
+           />
+        </section>
+
+        {/* Session Library */}
+        <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+           <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4 flex items-center gap-2">
+             <History className="w-4 h-4" /> Saved Sessions
+           </h3>
+           <SessionLibrary
+             activeSessionId={activeSessionId}
+             refreshKey={libraryRefreshKey}
+             onOpen={handleOpenSession}
+             onRenamed={handleSessionRenamed}
+           />
+        </section>
+
       </div>
     </div>
   );
@@ -0,0 +1,102 @@
+import React from 'react';
+import { BellRing } from 'lucide-react';
+import { AlertEvent, AlertSettings, AlertTrigger } from '../types';
+import { ALERT_LABELS } from '../services/alertEngine';
+
+interface Props {
+  settings: AlertSettings;
+  onChange: (settings: AlertSettings) => void;
+  onTest: () => void;
+  log: AlertEvent[]; // Newest first
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs font-mono text-slate-100';
+
+export const AlertsPanel: React.FC<Props> = ({ settings, onChange, onTest, log }) => {
+  const updateRule = (trigger: AlertTrigger, changes: Partial<AlertSettings['rules'][AlertTrigger]>) =>
+    onChange({ ...settings, rules: { ...settings.rules, [trigger]: { ...settings.rules[trigger], ...changes } } });
+
+  const numberInput = (key: 'greyZoneSeconds' | 'hrCap' | 'hrHysteresis' | 'alphaHysteresis' | 'artifactHysteresis', step = 1) => (
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={settings[key]}
+      onChange={e => onChange({ ...settings, [key]: Math.max(0, Number(e.target.value)) })}
+      className={`w-16 ${inputClass}`}
+    />
+  );
+
+  // Extra threshold input shown next to the trigger it belongs to
+  const extras: Partial<Record<AlertTrigger, React.ReactNode>> = {
+    belowAerobic: <>± {numberInput('alphaHysteresis', 0.01)}</>,
+    greyZone: <>after {numberInput('greyZoneSeconds')} s</>,
+    hrCap: <>{numberInput('hrCap')} bpm ± {numberInput('hrHysteresis')}</>,
+    artifacts: <>re-arm −{numberInput('artifactHysteresis', 0.5)} %</>,
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-sm text-slate-300">
+      <div className="md:col-span-2">
+        <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-3">Triggers</h4>
+        <ul className="space-y-3">
+          {(Object.keys(ALERT_LABELS) as AlertTrigger[]).map(trigger => (
+            <li key={trigger} className="flex flex-wrap justify-between items-center gap-3">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.rules[trigger].enabled}
+                  onChange={e => updateRule(trigger, { enabled: e.target.checked })}
+                />
+                {ALERT_LABELS[trigger]}
+              </label>
+              <span className="flex items-center gap-2 text-xs text-slate-400">
+                {extras[trigger]}
+                <span className="ml-2">cooldown</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.rules[trigger].cooldownSeconds}
+                  onChange={e => updateRule(trigger, { cooldownSeconds: Math.max(0, Number(e.target.value)) })}
+                  className={`w-16 ${inputClass}`}
+                />
+                s
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div>
+        <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-3">Delivery</h4>
+        <div className="flex flex-wrap gap-4 mb-3">
+          {(['sound', 'speech', 'vibrate'] as const).map(channel => (
+            <label key={channel} className="flex items-center gap-2 capitalize">
+              <input
+                type="checkbox"
+                checked={settings[channel]}
+                onChange={e => onChange({ ...settings, [channel]: e.target.checked })}
+              />
+              {channel}
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={onTest}
+          className="flex items-center gap-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1.5 rounded-md transition-colors"
+        >
+          <BellRing className="w-3 h-3" /> Test Alert
+        </button>
+        {log.length > 0 && (
+          <ul className="mt-4 space-y-1 text-xs">
+            {log.map(event => (
+              <li key={`${event.trigger}-${event.timestamp}`} className="flex justify-between gap-2">
+                <span className="text-amber-400">{event.message}</span>
+                <span className="font-mono text-slate-500">{new Date(event.timestamp).toLocaleTimeString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { UserPlus, Trash2, Save } from 'lucide-react';
+import { AthleteProfile, SensorKind } from '../types';
+import { SENSOR_LABELS } from '../services/bluetoothService';
+import { validateZones } from '../services/zones';
+import { DEFAULT_ALPHA_ZONES } from '../constants';
+
+interface Props {
+  profiles: AthleteProfile[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onSave: (profile: AthleteProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs font-mono text-slate-100';
+
+const optionalNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+export const AthleteProfiles: React.FC<Props> = ({ profiles, activeId, onSelect, onCreate, onSave, onDelete }) => {
+  const active = profiles.find(p => p.id === activeId) ?? null;
+  const [draft, setDraft] = useState<AthleteProfile | null>(active);
+
+  useEffect(() => setDraft(active), [active]);
+
+  const error = draft ? validateZones(draft.zones) : null;
+  const isDirty = draft !== null && JSON.stringify(draft) !== JSON.stringify(active);
+
+  const handleDelete = () => {
+    if (!active || !window.confirm(`Delete the profile "${active.name}"?`)) return;
+    onDelete(active.id);
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={activeId ?? ''}
+          onChange={e => onSelect(e.target.value || null)}
+          className={inputClass}
+        >
+          <option value="">No profile (α1 {DEFAULT_ALPHA_ZONES.aerobic} / {DEFAULT_ALPHA_ZONES.anaerobic})</option>
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={onCreate}
+          className="flex items-center gap-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1.5 rounded-md transition-colors"
+        >
+          <UserPlus className="w-3 h-3" /> New Athlete
+        </button>
+        {active && (
+          <button onClick={handleDelete} title="Delete profile" className="text-slate-400 hover:text-rose-400">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-x-8 gap-y-3">
+          <label className="flex justify-between items-center gap-4">
+            Name
+            <input
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              className={`w-40 ${inputClass}`}
+            />
+          </label>
+          <label className="flex justify-between items-center gap-4">
+            AeT α1
+            <input
+              type="number"
+              step={0.01}
+              value={draft.zones.aerobic}
+              onChange={e => setDraft({ ...draft, zones: { ...draft.zones, aerobic: Number(e.target.value) } })}
+              className={`w-20 ${inputClass}`}
+            />
+          </label>
+          <label className="flex justify-between items-center gap-4">
+            AnT α1
+            <input
+              type="number"
+              step={0.01}
+              value={draft.zones.anaerobic}
+              onChange={e => setDraft({ ...draft, zones: { ...draft.zones, anaerobic: Number(e.target.value) } })}
+              className={`w-20 ${inputClass}`}
+            />
+          </label>
+          <label className="flex justify-between items-center gap-4">
+            HR at AeT
+            <input
+              type="number"
+              placeholder="bpm"
+              value={draft.hrZones.aerobic ?? ''}
+              onChange={e => setDraft({ ...draft, hrZones: { ...draft.hrZones, aerobic: optionalNumber(e.target.value) } })}
+              className={`w-20 ${inputClass}`}
+            />
+          </label>
+          <label className="flex justify-between items-center gap-4">
+            HR at AnT
+            <input
+              type="number"
+              placeholder="bpm"
+              value={draft.hrZones.anaerobic ?? ''}
+              onChange={e => setDraft({ ...draft, hrZones: { ...draft.hrZones, anaerobic: optionalNumber(e.target.value) } })}
+              className={`w-20 ${inputClass}`}
+            />
+          </label>
+          <label className="flex justify-between items-center gap-4">
+            Preferred sensor
+            <select
+              value={draft.preferredSensor ?? ''}
+              onChange={e => setDraft({ ...draft, preferredSensor: (e.target.value || null) as SensorKind | null })}
+              className={inputClass}
+            >
+              <option value="">HR only</option>
+              {(Object.keys(SENSOR_LABELS) as SensorKind[]).map(kind => (
+                <option key={kind} value={kind}>{SENSOR_LABELS[kind]}</option>
+              ))}
+            </select>
+          </label>
+          <div className="md:col-span-3 flex items-center gap-3">
+            <button
+              onClick={() => onSave({ ...draft, name: draft.name.trim() || 'Athlete' })}
+              disabled={!isDirty || error !== null}
+              className="flex items-center gap-1 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-md transition-colors"
+            >
+              <Save className="w-3 h-3" /> Save Profile
+            </button>
+            {error && <span className="text-xs text-rose-400">{error}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
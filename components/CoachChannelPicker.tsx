@@ -0,0 +1,38 @@
+import React from 'react';
+import { CoachChannelSettings } from '../types';
+
+interface Props {
+  settings: CoachChannelSettings;
+  onChange: (settings: CoachChannelSettings) => void;
+  offLabel?: string;
+}
+
+const MODE_LABELS: Record<CoachChannelSettings['mode'], string> = {
+  off: 'Off',
+  local: 'Same machine',
+  relay: 'LAN relay',
+};
+
+// Transport choice shared by the monitor's publish switch and the dashboard
+export const CoachChannelPicker: React.FC<Props> = ({ settings, onChange, offLabel = MODE_LABELS.off }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <select
+      value={settings.mode}
+      onChange={e => onChange({ ...settings, mode: e.target.value as CoachChannelSettings['mode'] })}
+      className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200"
+    >
+      {(Object.keys(MODE_LABELS) as CoachChannelSettings['mode'][]).map(mode => (
+        <option key={mode} value={mode}>{mode === 'off' ? offLabel : MODE_LABELS[mode]}</option>
+      ))}
+    </select>
+    {settings.mode === 'relay' && (
+      <input
+        defaultValue={settings.relayUrl}
+        onBlur={e => onChange({ ...settings, relayUrl: e.target.value.trim() })}
+        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        aria-label="Relay URL"
+        className="bg-slate-900 border border-slate-600 rounded px-2 py-1 w-56 text-xs font-mono text-slate-200"
+      />
+    )}
+  </div>
+);
@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, BellOff, Heart, Users, X } from 'lucide-react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, YAxis } from 'recharts';
+import { AlertEvent, CoachAthlete, CoachChannelSettings } from '../types';
+import { CoachRoster } from '../services/coachRoster';
+import {
+  CoachSubscriber, DEFAULT_COACH_CHANNEL, getCoachChannelSettings, setCoachChannelSettings,
+} from '../services/coachChannel';
+import { deliverAlert, unlockAudio } from '../services/alertDelivery';
+import { ZONE_LABELS, zoneFor, AlphaZone } from '../services/zones';
+import { CoachChannelPicker } from './CoachChannelPicker';
+import { DEFAULT_ALERT_SETTINGS } from '../constants';
+
+const TICK_MS = 1000;
+
+const ZONE_CLASSES: Record<AlphaZone, string> = {
+  aerobic: 'text-emerald-400',
+  threshold: 'text-amber-400',
+  anaerobic: 'text-rose-500',
+};
+
+const GAUGE_MAX = 1.5;
+const gaugePercent = (alpha: number) => (Math.max(0, Math.min(GAUGE_MAX, alpha)) / GAUGE_MAX) * 100;
+
+// Horizontal α1 bar with the athlete's own AnT/AeT marks
+const CompactGauge: React.FC<{ athlete: CoachAthlete }> = ({ athlete }) => {
+  const { alpha1, zones } = athlete.status;
+  return (
+    <div className="relative h-2 rounded-full bg-slate-700 overflow-hidden">
+      <div className="absolute inset-y-0 left-0 bg-rose-500/30" style={{ width: `${gaugePercent(zones.anaerobic)}%` }} />
+      <div
+        className="absolute inset-y-0 bg-amber-400/30"
+        style={{ left: `${gaugePercent(zones.anaerobic)}%`, width: `${gaugePercent(zones.aerobic) - gaugePercent(zones.anaerobic)}%` }}
+      />
+      {alpha1 !== null && (
+        <div className="absolute inset-y-0 w-1 -ml-0.5 bg-slate-100 rounded" style={{ left: `${gaugePercent(alpha1)}%` }} />
+      )}
+    </div>
+  );
+};
+
+const AthleteTile: React.FC<{
+  athlete: CoachAthlete;
+  onToggleAlerts: () => void;
+  onRemove: () => void;
+}> = ({ athlete, onToggleAlerts, onRemove }) => {
+  const { status, history, stale, lastAlert } = athlete;
+  const zone = status.alpha1 !== null ? zoneFor(status.alpha1, status.zones) : null;
+  const connection = stale ? 'No signal from monitor' : status.connected ? null : status.reconnecting ? 'Reconnecting strap…' : 'Strap disconnected';
+
+  return (
+    <div className={`bg-slate-800 p-4 rounded-xl border ${lastAlert && !stale ? 'border-rose-500/40' : 'border-slate-700'} ${stale ? 'opacity-50' : ''} space-y-3`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium truncate" title={status.name}>{status.name}</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onToggleAlerts} title={athlete.alertsEnabled ? 'Mute alerts' : 'Unmute alerts'} className="text-slate-400 hover:text-slate-100 p-1">
+            {athlete.alertsEnabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+          </button>
+          {stale && (
+            <button onClick={onRemove} title="Remove tile" className="text-slate-400 hover:text-slate-100 p-1">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-baseline justify-between">
+        <div>
+          <span className={`text-3xl font-mono font-bold ${zone ? ZONE_CLASSES[zone] : 'text-slate-500'}`}>
+            {status.alpha1 !== null ? status.alpha1.toFixed(2) : '--'}
+          </span>
+          <span className="text-xs text-slate-500 ml-2">{zone ? ZONE_LABELS[zone] : 'α1'}</span>
+        </div>
+        <span className="flex items-center gap-1 text-slate-300 font-mono">
+          <Heart className="w-4 h-4 text-rose-500" />
+          {status.heartRate ? status.heartRate : '--'}
+        </span>
+      </div>
+
+      <CompactGauge athlete={athlete} />
+
+      <div className="h-12">
+        {history.length > 1 && (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={history} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+              <YAxis hide domain={[0, GAUGE_MAX]} />
+              <ReferenceLine y={status.zones.aerobic} stroke="#34d399" strokeOpacity={0.5} strokeDasharray="2 2" />
+              <ReferenceLine y={status.zones.anaerobic} stroke="#facc15" strokeOpacity={0.5} strokeDasharray="2 2" />
+              <Line dataKey="alpha1" stroke="#38bdf8" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="flex justify-between text-xs">
+        <span className={status.lowQuality ? 'text-amber-400' : 'text-slate-500'}>
+          {status.artifactPercent !== null ? `${status.artifactPercent.toFixed(1)}% artifacts` : 'No artifact data'}
+        </span>
+        {connection && <span className="text-rose-400">{connection}</span>}
+      </div>
+      {lastAlert && (
+        <p className="text-xs text-rose-300 truncate" title={lastAlert.message}>
+          {new Date(lastAlert.timestamp).toLocaleTimeString()} · {lastAlert.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Standalone page (opened with ?coach) listing every monitor that publishes
+ * to the chosen channel, one tile per athlete.
+ */
+export const CoachDashboard: React.FC = () => {
+  const [channel, setChannel] = useState<CoachChannelSettings>(() =>
+    getCoachChannelSettings('subscribe', { ...DEFAULT_COACH_CHANNEL, mode: 'local' }));
+  const [athletes, setAthletes] = useState<CoachAthlete[]>([]);
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>([]);
+  const [sound, setSound] = useState(false);
+  const soundRef = useRef(sound);
+  soundRef.current = sound;
+
+  const rosterRef = useRef<CoachRoster | null>(null);
+  const subscriberRef = useRef<CoachSubscriber | null>(null);
+
+  useEffect(() => {
+    const roster = new CoachRoster(setAthletes, (_athlete, event) => {
+      setAlertLog(prev => [event, ...prev].slice(0, 10));
+      if (soundRef.current) deliverAlert(event, { ...DEFAULT_ALERT_SETTINGS, vibrate: false });
+    });
+    rosterRef.current = roster;
+    subscriberRef.current = new CoachSubscriber(message => roster.handleMessage(message));
+    const timer = setInterval(() => roster.tick(), TICK_MS);
+    return () => {
+      clearInterval(timer);
+      subscriberRef.current?.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    subscriberRef.current?.configure(channel);
+    setCoachChannelSettings('subscribe', channel);
+  }, [channel]);
+
+  const toggleSound = () => {
+    if (!sound) unlockAudio();
+    setSound(!sound);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex flex-wrap justify-between items-center gap-4 pb-6 border-b border-slate-800">
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Users className="text-emerald-500" />
+              Coach View
+            </h1>
+            <p className="text-slate-400 text-sm mt-1">
+              {athletes.length === 0 ? 'Waiting for monitors to publish…' : `${athletes.length} athlete${athletes.length === 1 ? '' : 's'}`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <CoachChannelPicker settings={channel} onChange={setChannel} />
+            <button
+              onClick={toggleSound}
+              className={`flex items-center gap-1 text-xs px-3 py-1.5 rounded-md transition-colors ${sound ? 'bg-emerald-600 hover:bg-emerald-700 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+            >
+              {sound ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />} Alert sound
+            </button>
+          </div>
+        </header>
+
+        {channel.mode === 'off' ? (
+          <p className="text-slate-500 text-sm">Choose a channel to receive athletes.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {athletes.map(athlete => (
+              <AthleteTile
+                key={athlete.status.athleteId}
+                athlete={athlete}
+                onToggleAlerts={() => rosterRef.current?.setAlertsEnabled(athlete.status.athleteId, !athlete.alertsEnabled)}
+                onRemove={() => rosterRef.current?.remove(athlete.status.athleteId)}
+              />
+            ))}
+          </div>
+        )}
+
+        {alertLog.length > 0 && (
+          <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+            <h3 className="text-slate-400 text-sm font-bold tracking-wider uppercase mb-4">Recent Alerts</h3>
+            <ul className="space-y-1 text-sm">
+              {alertLog.map((event, i) => (
+                <li key={`${event.timestamp}-${i}`} className="flex gap-3">
+                  <span className="text-slate-500 font-mono text-xs">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                  <span className="text-slate-300">{event.message}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
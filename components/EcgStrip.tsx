@@ -0,0 +1,49 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { ECG_SAMPLE_RATE_HZ } from '../services/pmdProtocol';
+
+interface Props {
+  samples: number[]; // µV, oldest first
+}
+
+export const ECG_STRIP_SAMPLES = 4 * ECG_SAMPLE_RATE_HZ;
+
+// A QRS on a wetted H10 spans roughly 0.5–3 mV
+const MIN_SPAN_UV = 200;
+const MAX_SPAN_UV = 12000;
+
+const WIDTH = 600;
+const HEIGHT = 100;
+
+export const EcgStrip: React.FC<Props> = ({ samples }) => {
+  const min = samples.length > 0 ? Math.min(...samples) : 0;
+  const max = samples.length > 0 ? Math.max(...samples) : 0;
+  const span = max - min;
+  const scale = span > 0 ? (HEIGHT - 8) / span : 0;
+  const points = samples
+    .map((v, i) => `${((i / (ECG_STRIP_SAMPLES - 1)) * WIDTH).toFixed(1)},${(HEIGHT - 4 - (v - min) * scale).toFixed(1)}`)
+    .join(' ');
+
+  let warning: string | null = null;
+  if (samples.length >= ECG_SAMPLE_RATE_HZ) {
+    if (span < MIN_SPAN_UV) warning = 'Flat signal: moisten the electrodes and check strap contact';
+    else if (span > MAX_SPAN_UV) warning = 'Noisy signal: the strap may be loose or moving';
+  }
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-slate-900 rounded">
+        <polyline points={points} fill="none" stroke="#34d399" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>Last {ECG_STRIP_SAMPLES / ECG_SAMPLE_RATE_HZ} s · {ECG_SAMPLE_RATE_HZ} Hz</span>
+        <span className="font-mono">{(span / 1000).toFixed(2)} mV p-p</span>
+      </div>
+      {warning && (
+        <p className="flex items-center gap-2 text-xs text-amber-400">
+          <AlertCircle className="w-4 h-4" /> {warning}
+        </p>
+      )}
+    </div>
+  );
+};
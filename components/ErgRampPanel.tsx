@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { AlphaZones, ErgRampFinishReason, ErgRampSettings, ErgRampState } from '../types';
+import { DEFAULT_ALPHA_ZONES, DEFAULT_ERG_RAMP_SETTINGS } from '../constants';
+
+interface Props {
+  state: ErgRampState;
+  trainerConnected: boolean;
+  now: number; // Data clock, so replays at speed display correctly
+  onStart: (settings: ErgRampSettings) => void;
+  onAbort: () => void;
+  zones?: AlphaZones;
+}
+
+const finishMessage = (reason: ErgRampFinishReason, zones: AlphaZones): string => ({
+  threshold: `α1 stayed below ${zones.anaerobic}`,
+  maxPower: 'Reached the power ceiling',
+  aborted: 'Stopped by user',
+  error: 'Trainer error',
+})[reason];
+
+const fields = (zones: AlphaZones): [keyof ErgRampSettings, string, string][] => [
+  ['startWatts', 'Start', 'W'],
+  ['stepWatts', 'Step', 'W'],
+  ['stepSeconds', 'Every', 's'],
+  ['stopBelowSeconds', 'Stop after', `s below ${zones.anaerobic}`],
+  ['maxWatts', 'Max', 'W'],
+];
+
+const formatSeconds = (ms: number) => {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const ErgRampPanel: React.FC<Props> = ({ state, trainerConnected, now, onStart, onAbort, zones = DEFAULT_ALPHA_ZONES }) => {
+  const [settings, setSettings] = useState<ErgRampSettings>(DEFAULT_ERG_RAMP_SETTINGS);
+
+  if (state.status === 'running') {
+    return (
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={onAbort}
+          className="flex items-center gap-1 text-xs bg-rose-600 hover:bg-rose-700 text-white px-3 py-1.5 rounded-md transition-colors"
+        >
+          <Square className="w-3 h-3" /> Stop ERG Ramp
+        </button>
+        <span className="text-sm text-slate-300">
+          Step <span className="font-mono text-slate-100">{state.step}</span> ·{' '}
+          <span className="font-mono text-sky-300">{state.targetWatts} W</span> ·{' '}
+          <span className="font-mono text-slate-100">{formatSeconds(now - (state.stepStartedAt ?? now))}</span>
+        </span>
+        {state.waitingForSettle && (
+          <span className="text-xs text-amber-400">Holding until the α1 window has settled</span>
+        )}
+        {state.belowSince !== null && (
+          <span className="text-xs text-yellow-400">Below AnT for {formatSeconds(now - state.belowSince)}</span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => onStart(settings)}
+          disabled={!trainerConnected}
+          className="flex items-center gap-1 text-xs bg-sky-600 hover:bg-sky-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-md transition-colors"
+        >
+          <Play className="w-3 h-3" /> Start ERG Ramp
+        </button>
+        {fields(zones).map(([key, label, unit]) => (
+          <label key={key} className="text-xs text-slate-400 flex items-center gap-2">
+            {label}
+            <input
+              type="number"
+              min={0}
+              value={settings[key]}
+              onChange={e => setSettings({ ...settings, [key]: Math.max(0, Number(e.target.value)) })}
+              className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200"
+            />
+            {unit}
+          </label>
+        ))}
+      </div>
+      {!trainerConnected && (
+        <p className="text-xs text-slate-500">Pair an FTMS smart trainer to let the app step the power automatically.</p>
+      )}
+      {state.status === 'finished' && state.finishReason && (
+        <p className={`text-sm ${state.finishReason === 'error' ? 'text-rose-400' : 'text-slate-300'}`}>
+          Ramp finished at step {state.step} ({state.targetWatts} W): {finishMessage(state.finishReason, zones)}
+          {state.error ? ` – ${state.error}` : ''}.
+        </p>
+      )}
+    </div>
+  );
+};
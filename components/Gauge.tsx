@@ -1,32 +1,60 @@
 import React from 'react';
-import { THRESHOLD_AEROBIC, THRESHOLD_ANAEROBIC } from '../constants';
+import { DEFAULT_ALPHA_ZONES, MAX_ARTIFACT_PERCENT } from '../constants';
+import { AlphaZones } from '../types';
 
 interface Props {
   value: number;
+  artifactPercent?: number | null; // Corrected beats in the current window
+  maxArtifactPercent?: number;
+  zones?: AlphaZones;
 }
 
-export const AlphaGauge: React.FC<Props> = ({ value }) => {
+const GAUGE_MAX = 1.5;
+const AET_BAND = 0.1; // Within this of the AeT cut-off counts as "at threshold"
+
+const toPercent = (alpha: number) => (Math.max(0, Math.min(GAUGE_MAX, alpha)) / GAUGE_MAX) * 100;
+
+export const AlphaGauge: React.FC<Props> = ({
+  value,
+  artifactPercent = null,
+  maxArtifactPercent = MAX_ARTIFACT_PERCENT,
+  zones = DEFAULT_ALPHA_ZONES,
+}) => {
   // Map value 0-1.5 to rotation -90 to 90
-  const clamped = Math.max(0, Math.min(1.5, value));
-  const percent = (clamped / 1.5) * 100;
+  const percent = toPercent(value);
+  const anaerobicWidth = toPercent(zones.anaerobic);
+  const thresholdWidth = toPercent(zones.aerobic) - anaerobicWidth;
   
   let colorClass = "text-emerald-400";
   let statusText = "Aerobic Base";
   
-  if (value < THRESHOLD_AEROBIC + 0.1 && value > THRESHOLD_AEROBIC - 0.1) {
+  if (value < zones.aerobic + AET_BAND && value > zones.aerobic - AET_BAND) {
     colorClass = "text-yellow-400";
     statusText = "At Threshold";
-  } else if (value < THRESHOLD_ANAEROBIC) {
+  } else if (value < zones.anaerobic) {
     colorClass = "text-rose-500";
     statusText = "Anaerobic";
-  } else if (value < THRESHOLD_AEROBIC) {
+  } else if (value < zones.aerobic) {
     colorClass = "text-orange-400";
     statusText = "Grey Zone";
   }
 
   return (
-    <div className="flex flex-col items-center justify-center p-4 bg-slate-800 rounded-xl border border-slate-700">
+    <div className="relative flex flex-col items-center justify-center p-4 bg-slate-800 rounded-xl border border-slate-700">
       <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-2">DFA Alpha 1</h3>
+
+      {artifactPercent !== null && (
+        <div
+          title="Corrected beats in the current window"
+          className={`absolute top-3 right-3 text-[10px] font-mono px-1.5 py-0.5 rounded border ${
+            artifactPercent > maxArtifactPercent
+              ? 'bg-rose-500/10 text-rose-400 border-rose-500/30'
+              : 'bg-slate-700/50 text-slate-400 border-slate-600'
+          }`}
+        >
+          {artifactPercent.toFixed(1)}% art
+        </div>
+      )}
       
       <div className="relative w-32 h-16 overflow-hidden mb-2">
          {/* Background Arc */}
@@ -51,15 +79,15 @@ export const AlphaGauge: React.FC<Props> = ({ value }) => {
       </div>
       <div className="mt-4 w-full h-2 bg-slate-700 rounded-full overflow-hidden flex">
           {/* Reverse Logic: High Alpha is Green/Easy, Low Alpha is Red/Hard */}
-          <div className="h-full bg-rose-500" style={{ width: '33%' }}></div> {/* < 0.5 */}
-          <div className="h-full bg-yellow-400" style={{ width: '17%' }}></div> {/* 0.5 - 0.75 */}
-          <div className="h-full bg-emerald-500" style={{ width: '50%' }}></div> {/* > 0.75 */}
+          <div className="h-full bg-rose-500" style={{ width: `${anaerobicWidth}%` }}></div> {/* < AnT */}
+          <div className="h-full bg-yellow-400" style={{ width: `${thresholdWidth}%` }}></div> {/* AnT - AeT */}
+          <div className="h-full bg-emerald-500 flex-1"></div> {/* > AeT */}
       </div>
       <div className="flex justify-between w-full text-[10px] text-slate-500 mt-1">
           <span>0.0</span>
-          <span>0.5 (AnT)</span>
-          <span>0.75 (AeT)</span>
-          <span>1.5</span>
+          <span>{zones.anaerobic} (AnT)</span>
+          <span>{zones.aerobic} (AeT)</span>
+          <span>{GAUGE_MAX}</span>
       </div>
     </div>
   );
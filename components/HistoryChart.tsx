@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -7,87 +7,346 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  ReferenceLine
+  ReferenceLine,
+  ReferenceArea,
+  Brush
 } from 'recharts';
-import { DFADataPoint } from '../types';
-import { THRESHOLD_AEROBIC, THRESHOLD_ANAEROBIC } from '../constants';
+import { AthleteProfile, AlphaZones, DFADataPoint, TimelineGap } from '../types';
+import { DEFAULT_ALPHA_ZONES, HISTORY_POINT_INTERVAL_MS } from '../constants';
+import { formatPace, formatPaceMinutes, speedToPace } from '../services/pace';
+import {
+  AlphaSmoothing,
+  SMOOTHING_LABELS,
+  downsample,
+  formatElapsed,
+  rangeStats,
+  smoothAlpha
+} from '../services/chartData';
+import { formatDuration } from '../services/sessionReport';
+import { ZONE_LABELS } from '../services/zones';
+import { BREATHING_CONFOUND_LABELS } from '../services/respiration';
+
+export type ChartIntensity = 'heartRate' | 'power' | 'pace';
+
+// Vertical line at a point in time, e.g. a lap
+export interface ChartMarker {
+  timestamp: number;
+  label: string;
+}
+
+// Left-axis series plotted against alpha1
+const INTENSITY_SERIES: Record<ChartIntensity, { label: string; color: string; format: (v: number) => string }> = {
+  heartRate: { label: 'HR', color: '#fb7185', format: v => `${v}` },
+  power: { label: 'W', color: '#38bdf8', format: v => `${v}` },
+  pace: { label: 'min/km', color: '#fbbf24', format: formatPaceMinutes },
+};
+
+const SMOOTHING_WINDOW_SECONDS = [30, 60, 120, 300];
+const BREATHING_COLOR = '#2dd4bf';
 
 interface Props {
   data: DFADataPoint[];
+  intensity?: ChartIntensity;
+  zones?: AlphaZones;
+  hrZones?: AthleteProfile['hrZones']; // Drawn on the HR axis when known
+  gaps?: TimelineGap[]; // Sensor dropouts, shaded
+  markers?: ChartMarker[];
+  pointIntervalMs?: number; // Spacing of history points, for time in zone
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
-  if (active && payload && payload.length) {
-    return (
-      <div className="bg-slate-800 border border-slate-700 p-2 rounded shadow text-xs text-white">
-        <p>{`Time: ${label}`}</p>
-        <p className="text-rose-400">{`HR: ${payload[0].value}`}</p>
-        <p className="text-emerald-400">{`α1: ${payload[1].value}`}</p>
-      </div>
-    );
-  }
-  return null;
+type ChartRow = DFADataPoint & { pace?: number; smoothed: number | null };
+
+// Reads the hovered row itself rather than relying on the order of the series
+const CustomTooltip = ({ active, payload, intensity, startTime, smoothing }: any) => {
+  const row: ChartRow | undefined = active && payload?.length ? payload[0].payload : undefined;
+  if (!row) return null;
+  const series = INTENSITY_SERIES[intensity as ChartIntensity];
+  const value = row[intensity as ChartIntensity];
+  return (
+    <div className="bg-slate-800 border border-slate-700 p-2 rounded shadow text-xs text-white">
+      <p>{`Time: ${formatElapsed(row.timestamp - startTime)}`}</p>
+      <p style={{ color: series.color }}>{`${series.label}: ${value !== undefined ? series.format(value) : '--'}`}</p>
+      <p className="text-emerald-400">{`α1: ${row.alpha1.toFixed(2)}${row.lowQuality ? ' (low quality)' : ''}`}</p>
+      {smoothing !== 'none' && row.smoothed !== null && (
+        <p className="text-sky-300">{`${SMOOTHING_LABELS[smoothing as AlphaSmoothing]}: ${row.smoothed.toFixed(2)}`}</p>
+      )}
+      {row.alpha2 !== undefined && <p className="text-violet-400">{`α2: ${row.alpha2.toFixed(2)}`}</p>}
+      {row.respiratoryRate !== undefined && <p className="text-teal-400">{`Breathing: ${row.respiratoryRate.toFixed(0)} /min`}</p>}
+      {row.breathingConfound && <p className="text-amber-400">{`α1 may be biased: ${BREATHING_CONFOUND_LABELS[row.breathingConfound]}`}</p>}
+    </div>
+  );
+};
+
+// ReferenceArea fill; spread because its typings omit the SVG attributes here
+const band = (fill: string, fillOpacity: number) => ({ fill, fillOpacity });
+
+// Highlight windows whose artifact rate exceeded the session limit, and
+// ring those computed under breathing that may have biased alpha1
+const FlaggedDot = ({ cx, cy, payload, index }: any) => {
+  if (payload?.lowQuality) return <circle key={index} cx={cx} cy={cy} r={3} fill="#f43f5e" stroke="none" />;
+  if (payload?.breathingConfound) return <circle key={index} cx={cx} cy={cy} r={3} fill="none" stroke="#fbbf24" strokeWidth={1.5} />;
+  return <g key={index} />;
 };
 
-export const HistoryChart: React.FC<Props> = ({ data }) => {
-  // Format data relative time
+/**
+ * Alpha1 and intensity over time, optionally with the breathing rate. The
+ * overview strip underneath holds a brush: dragging it zooms the main chart
+ * and the stats row summarises the selected range. Both charts are downsampled, the zoomed one from
+ * the full-resolution points inside the range.
+ */
+export const HistoryChart: React.FC<Props> = ({
+  data,
+  intensity = 'heartRate',
+  zones = DEFAULT_ALPHA_ZONES,
+  hrZones,
+  gaps = [],
+  markers = [],
+  pointIntervalMs = HISTORY_POINT_INTERVAL_MS,
+}) => {
+  const series = INTENSITY_SERIES[intensity];
+  const [smoothing, setSmoothing] = useState<AlphaSmoothing>('none');
+  const [smoothingSeconds, setSmoothingSeconds] = useState(60);
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null); // null = everything
+  const [showBreathing, setShowBreathing] = useState(false);
+  const hasBreathing = useMemo(() => data.some(d => d.respiratoryRate !== undefined), [data]);
+
   const startTime = data.length > 0 ? data[0].timestamp : 0;
-  const chartData = data.map(d => ({
-    ...d,
-    timeStr: new Date(d.timestamp - startTime).toISOString().substr(14, 5), // mm:ss
-    alpha1: Number(d.alpha1.toFixed(2))
-  }));
+  const endTime = data.length > 0 ? data[data.length - 1].timestamp : 0;
+
+  const rows = useMemo<ChartRow[]>(() => {
+    const smoothed = smoothAlpha(data, smoothing, smoothingSeconds * 1000);
+    return data.map((d, i) => ({
+      ...d,
+      pace: d.speed !== undefined ? speedToPace(d.speed) ?? undefined : undefined,
+      smoothed: smoothed[i],
+    }));
+  }, [data, smoothing, smoothingSeconds]);
+
+  const overview = useMemo(() => downsample(rows), [rows]);
+  const visible = useMemo(
+    () => downsample(range ? rows.filter(r => r.timestamp >= range.start && r.timestamp <= range.end) : rows),
+    [rows, range],
+  );
+
+  const shownStart = range?.start ?? startTime;
+  const shownEnd = range?.end ?? endTime;
+  const stats = useMemo(
+    () => rangeStats(data, shownStart, shownEnd, zones, pointIntervalMs),
+    [data, shownStart, shownEnd, zones, pointIntervalMs],
+  );
+
+  // Brush works on overview indices; the range is kept as timestamps so it
+  // survives new points arriving while zoomed
+  const brushStart = range ? Math.max(0, overview.findIndex(r => r.timestamp >= range.start)) : 0;
+  const brushEndIndex = range ? overview.findIndex(r => r.timestamp > range.end) : -1;
+  const brushEnd = brushEndIndex === -1 ? overview.length - 1 : Math.max(brushStart, brushEndIndex - 1);
+
+  const handleBrush = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex === undefined || endIndex === undefined) return;
+    if (startIndex <= 0 && endIndex >= overview.length - 1) setRange(null);
+    else setRange({ start: overview[startIndex].timestamp, end: overview[endIndex].timestamp });
+  };
+
+  const zoneTotal = stats.timeInZone.aerobic + stats.timeInZone.threshold + stats.timeInZone.anaerobic + stats.timeInZone.lowQuality;
+  const zoneShare = (ms: number) => `${zoneTotal > 0 ? Math.round((ms / zoneTotal) * 100) : 0}%`;
+  const selectClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200';
 
   return (
-    <div className="w-full h-64">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={chartData}>
-          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-          <XAxis 
-            dataKey="timeStr" 
-            stroke="#94a3b8" 
-            tick={{fontSize: 12}}
-            minTickGap={30}
-          />
-          <YAxis 
-            yAxisId="hr"
-            orientation="left" 
-            stroke="#fb7185" 
-            domain={['auto', 'auto']}
-            tick={{fontSize: 12}}
-            label={{ value: 'HR', angle: -90, position: 'insideLeft', fill: '#fb7185' }}
-          />
-          <YAxis 
-            yAxisId="a1"
-            orientation="right" 
-            stroke="#34d399" 
-            domain={[0, 1.5]} 
-            tick={{fontSize: 12}}
-            label={{ value: 'α1', angle: 90, position: 'insideRight', fill: '#34d399' }}
-          />
-          <Tooltip content={<CustomTooltip />} />
-          
-          <ReferenceLine y={THRESHOLD_AEROBIC} yAxisId="a1" stroke="#34d399" strokeDasharray="3 3" label={{ position: 'right', value: 'AeT (0.75)', fill: '#34d399', fontSize: 10 }} />
-          <ReferenceLine y={THRESHOLD_ANAEROBIC} yAxisId="a1" stroke="#facc15" strokeDasharray="3 3" label={{ position: 'right', value: 'AnT (0.5)', fill: '#facc15', fontSize: 10 }} />
-
-          <Line 
-            yAxisId="hr"
-            type="monotone" 
-            dataKey="heartRate" 
-            stroke="#fb7185" 
-            strokeWidth={2} 
-            dot={false}
-          />
-          <Line 
-            yAxisId="a1"
-            type="monotone" 
-            dataKey="alpha1" 
-            stroke="#34d399" 
-            strokeWidth={2} 
-            dot={false}
-          />
-        </LineChart>
-      </ResponsiveContainer>
+    <div className="w-full">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-3 text-xs text-slate-400">
+        <div className="flex items-center gap-2">
+          α1 smoothing
+          <select value={smoothing} onChange={e => setSmoothing(e.target.value as AlphaSmoothing)} className={selectClass}>
+            {(Object.keys(SMOOTHING_LABELS) as AlphaSmoothing[]).map(method => (
+              <option key={method} value={method}>{SMOOTHING_LABELS[method]}</option>
+            ))}
+          </select>
+          {smoothing !== 'none' && (
+            <select value={smoothingSeconds} onChange={e => setSmoothingSeconds(Number(e.target.value))} className={selectClass}>
+              {SMOOTHING_WINDOW_SECONDS.map(s => <option key={s} value={s}>{s} s</option>)}
+            </select>
+          )}
+        </div>
+        {hasBreathing && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={showBreathing} onChange={e => setShowBreathing(e.target.checked)} />
+            Breathing rate
+          </label>
+        )}
+        {range && (
+          <button onClick={() => setRange(null)} className="text-slate-400 hover:text-slate-200 underline">
+            Reset zoom
+          </button>
+        )}
+      </div>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={visible}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={t => formatElapsed(t - startTime)}
+              stroke="#94a3b8"
+              tick={{fontSize: 12}}
+              minTickGap={30}
+            />
+            <YAxis
+              yAxisId="hr"
+              orientation="left"
+              stroke={series.color}
+              domain={['auto', 'auto']}
+              reversed={intensity === 'pace'}
+              tickFormatter={intensity === 'pace' ? formatPaceMinutes : undefined}
+              tick={{fontSize: 12}}
+              label={{ value: series.label, angle: -90, position: 'insideLeft', fill: series.color }}
+            />
+            <YAxis
+              yAxisId="a1"
+              orientation="right"
+              stroke="#34d399"
+              domain={[0, 1.5]}
+              tick={{fontSize: 12}}
+              label={{ value: 'α1', angle: 90, position: 'insideRight', fill: '#34d399' }}
+            />
+            {showBreathing && hasBreathing && (
+              <YAxis
+                yAxisId="br"
+                orientation="right"
+                stroke={BREATHING_COLOR}
+                domain={[0, 'auto']}
+                tick={{fontSize: 12}}
+                label={{ value: 'br/min', angle: 90, position: 'insideRight', fill: BREATHING_COLOR }}
+              />
+            )}
+            <Tooltip content={<CustomTooltip intensity={intensity} startTime={startTime} smoothing={smoothing} />} />
+
+            {/* Zone bands behind the lines */}
+            <ReferenceArea yAxisId="a1" y1={zones.aerobic} y2={1.5} ifOverflow="hidden" {...band('#10b981', 0.06)} />
+            <ReferenceArea yAxisId="a1" y1={zones.anaerobic} y2={zones.aerobic} ifOverflow="hidden" {...band('#eab308', 0.06)} />
+            <ReferenceArea yAxisId="a1" y1={0} y2={zones.anaerobic} ifOverflow="hidden" {...band('#ef4444', 0.06)} />
+            <ReferenceLine y={zones.aerobic} yAxisId="a1" stroke="#34d399" strokeDasharray="3 3" label={{ position: 'right', value: `AeT (${zones.aerobic})`, fill: '#34d399', fontSize: 10 }} />
+            <ReferenceLine y={zones.anaerobic} yAxisId="a1" stroke="#facc15" strokeDasharray="3 3" label={{ position: 'right', value: `AnT (${zones.anaerobic})`, fill: '#facc15', fontSize: 10 }} />
+            {intensity === 'heartRate' && hrZones?.aerobic && (
+              <ReferenceLine y={hrZones.aerobic} yAxisId="hr" stroke="#fb7185" strokeOpacity={0.4} strokeDasharray="1 3" label={{ position: 'left', value: `${hrZones.aerobic}`, fill: '#fb7185', fontSize: 10 }} />
+            )}
+            {intensity === 'heartRate' && hrZones?.anaerobic && (
+              <ReferenceLine y={hrZones.anaerobic} yAxisId="hr" stroke="#fb7185" strokeOpacity={0.4} strokeDasharray="1 3" label={{ position: 'left', value: `${hrZones.anaerobic}`, fill: '#fb7185', fontSize: 10 }} />
+            )}
+
+            {gaps.map(gap => (
+              <React.Fragment key={`gap-${gap.start}`}>
+                <ReferenceArea yAxisId="a1" x1={gap.start} x2={gap.end} ifOverflow="hidden" {...band('#64748b', 0.25)} label={{ value: 'disconnected', fill: '#94a3b8', fontSize: 10, position: 'insideTop' }} />
+              </React.Fragment>
+            ))}
+            {markers.map(marker => (
+              <ReferenceLine key={`marker-${marker.timestamp}`} yAxisId="a1" x={marker.timestamp} stroke="#cbd5e1" strokeOpacity={0.6} ifOverflow="hidden" label={{ value: marker.label, fill: '#cbd5e1', fontSize: 10, position: 'insideTopLeft' }} />
+            ))}
+
+            <Line
+              yAxisId="hr"
+              type="monotone"
+              dataKey={intensity}
+              stroke={series.color}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="a1"
+              type="monotone"
+              dataKey="alpha1"
+              stroke="#34d399"
+              strokeWidth={smoothing === 'none' ? 2 : 1}
+              strokeOpacity={smoothing === 'none' ? 1 : 0.4}
+              dot={<FlaggedDot />}
+              isAnimationActive={false}
+            />
+            {smoothing !== 'none' && (
+              <Line
+                yAxisId="a1"
+                type="monotone"
+                dataKey="smoothed"
+                stroke="#7dd3fc"
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            )}
+            {rows.some(d => d.alpha2 !== undefined) && (
+              <Line
+                yAxisId="a1"
+                type="monotone"
+                dataKey="alpha2"
+                stroke="#a78bfa"
+                strokeWidth={1.5}
+                strokeDasharray="4 2"
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {showBreathing && hasBreathing && (
+              <Line
+                yAxisId="br"
+                type="monotone"
+                dataKey="respiratoryRate"
+                stroke={BREATHING_COLOR}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="h-12">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={overview} margin={{ top: 0, right: 60, bottom: 0, left: 60 }}>
+            <Brush
+              dataKey="timestamp"
+              height={40}
+              stroke="#475569"
+              fill="#0f172a"
+              travellerWidth={8}
+              startIndex={brushStart}
+              endIndex={brushEnd}
+              tickFormatter={t => formatElapsed(Number(t) - startTime)}
+              onChange={handleBrush}
+            >
+              <LineChart data={overview}>
+                <YAxis hide domain={[0, 1.5]} />
+                <Line type="monotone" dataKey="alpha1" stroke="#34d399" strokeWidth={1} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </Brush>
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-xs text-slate-400">
+        <span>
+          {range ? 'Selection' : 'Session'}{' '}
+          <span className="font-mono text-slate-200">
+            {formatElapsed(shownStart - startTime)}–{formatElapsed(shownEnd - startTime)} ({formatDuration(stats.durationMs)})
+          </span>
+        </span>
+        <span>α1 <span className="font-mono text-emerald-400">
+          {stats.meanAlpha1 !== null ? `${stats.meanAlpha1.toFixed(2)} (${stats.minAlpha1!.toFixed(2)}–${stats.maxAlpha1!.toFixed(2)})` : '--'}
+        </span></span>
+        <span>HR <span className="font-mono text-rose-400">{stats.meanHeartRate !== null ? Math.round(stats.meanHeartRate) : '--'}</span></span>
+        {stats.meanPower !== null && <span>Power <span className="font-mono text-sky-400">{Math.round(stats.meanPower)} W</span></span>}
+        {stats.meanSpeed !== null && <span>Pace <span className="font-mono text-amber-400">{formatPace(stats.meanSpeed)} /km</span></span>}
+        {stats.meanRespiratoryRate !== null && <span>Breathing <span className="font-mono text-teal-400">{Math.round(stats.meanRespiratoryRate)} /min</span></span>}
+        {stats.breathingFlagged > 0 && (
+          <span>Breathing-flagged α1 <span className="font-mono text-amber-400">{Math.round((stats.breathingFlagged / stats.points) * 100)}%</span></span>
+        )}
+        <span>
+          {(['aerobic', 'threshold', 'anaerobic'] as const).map(zone => `${ZONE_LABELS[zone]} ${zoneShare(stats.timeInZone[zone])}`).join(' · ')}
+        </span>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Flag } from 'lucide-react';
+import { LapStats } from '../types';
+import { LAP_TAIL_MS } from '../constants';
+import { lapLabel } from '../services/laps';
+import { formatDuration } from '../services/sessionReport';
+
+interface Props {
+  laps: LapStats[];
+  canAddLap: boolean; // A session is recording
+  onLap: (label: string) => void;
+}
+
+const fixed = (value: number | null, digits: number) => (value !== null ? value.toFixed(digits) : '--');
+
+export const LapPanel: React.FC<Props> = ({ laps, canAddLap, onLap }) => {
+  const [label, setLabel] = useState('');
+
+  const submit = () => {
+    onLap(label);
+    setLabel('');
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={label}
+          placeholder="Next lap label, e.g. Stage 3 – 200 W"
+          onChange={e => setLabel(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && canAddLap) submit(); }}
+          className="flex-1 min-w-[12rem] bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-100"
+        />
+        <button
+          onClick={submit}
+          disabled={!canAddLap}
+          className="flex items-center gap-1 text-xs bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-md transition-colors"
+        >
+          <Flag className="w-3 h-3" /> Lap
+        </button>
+        <span className="text-xs text-slate-500">or press <kbd className="font-mono text-slate-300">L</kbd></span>
+      </div>
+
+      {laps.length > 1 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 text-left">
+              <tr>
+                <th className="py-1 pr-3">Lap</th>
+                <th className="py-1 pr-3 text-right">Time</th>
+                <th className="py-1 pr-3 text-right">HR</th>
+                <th className="py-1 pr-3 text-right">α1</th>
+                <th className="py-1 pr-3 text-right">α1 last {LAP_TAIL_MS / 60000} min</th>
+                <th className="py-1 pr-3 text-right">Artifacts</th>
+                <th className="py-1 text-right">Power</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {laps.map(lap => (
+                <tr key={lap.start} className="border-t border-slate-700">
+                  <td className="py-1 pr-3 font-sans">{lapLabel(lap)}</td>
+                  <td className="py-1 pr-3 text-right">{formatDuration(lap.durationMs)}</td>
+                  <td className="py-1 pr-3 text-right text-rose-400">{fixed(lap.meanHeartRate, 0)}</td>
+                  <td className="py-1 pr-3 text-right text-emerald-400">{fixed(lap.meanAlpha1, 2)}</td>
+                  <td className="py-1 pr-3 text-right text-emerald-300">{fixed(lap.tailAlpha1, 2)}</td>
+                  <td className="py-1 pr-3 text-right">{lap.artifactPercent !== null ? `${lap.artifactPercent.toFixed(1)}%` : '--'}</td>
+                  <td className="py-1 text-right text-sky-400">{lap.meanPower !== null ? `${Math.round(lap.meanPower)} W` : '--'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Scatter,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { AlphaZones, DFADataPoint, ThresholdEstimate } from '../types';
+import { DEFAULT_ALPHA_ZONES } from '../constants';
+import { formatPace } from '../services/pace';
+
+interface Props {
+  used: DFADataPoint[];
+  rejected: DFADataPoint[];
+  estimate: ThresholdEstimate;
+  intensity: (p: DFADataPoint) => number | undefined;
+  zones?: AlphaZones;
+}
+
+export const RampTestChart: React.FC<Props> = ({ used, rejected, estimate, intensity, zones = DEFAULT_ALPHA_ZONES }) => {
+  const toXY = (points: DFADataPoint[]) => points
+    .filter(p => intensity(p) !== undefined)
+    .map(p => ({ x: intensity(p)!, alpha1: Number(p.alpha1.toFixed(3)) }));
+
+  const usedXY = toXY(used);
+  const rejectedXY = toXY(rejected);
+  const xs = [...usedXY, ...rejectedXY].map(p => p.x);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const isSpeed = estimate.unit === 'm/s';
+  const fitLine = [minX, maxX].map(x => ({ x, fit: Number((estimate.intercept + estimate.slope * x).toFixed(3)) }));
+
+  return (
+    <div className="w-full h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis
+            type="number"
+            dataKey="x"
+            domain={['dataMin', 'dataMax']}
+            stroke="#94a3b8"
+            tick={{fontSize: 12}}
+            tickFormatter={isSpeed ? formatPace : undefined}
+            label={{ value: isSpeed ? 'pace /km' : estimate.unit, position: 'insideBottomRight', offset: -2, fill: '#94a3b8', fontSize: 11 }}
+          />
+          <YAxis
+            type="number"
+            domain={[0, 1.5]}
+            stroke="#34d399"
+            tick={{fontSize: 12}}
+            label={{ value: 'α1', angle: -90, position: 'insideLeft', fill: '#34d399' }}
+          />
+          <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ background: '#1e293b', border: '1px solid #334155', fontSize: 12 }} />
+
+          <ReferenceLine y={zones.aerobic} stroke="#34d399" strokeDasharray="3 3" />
+          <ReferenceLine y={zones.anaerobic} stroke="#facc15" strokeDasharray="3 3" />
+          {estimate.aerobic && <ReferenceLine x={estimate.aerobic.value} stroke="#34d399" strokeOpacity={0.5} />}
+          {estimate.anaerobic && <ReferenceLine x={estimate.anaerobic.value} stroke="#facc15" strokeOpacity={0.5} />}
+
+          <Scatter name="Rejected" data={rejectedXY} dataKey="alpha1" fill="#64748b" />
+          <Scatter name="α1" data={usedXY} dataKey="alpha1" fill="#34d399" />
+          <Line name="Fit" data={fitLine} dataKey="fit" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Square, LineChart as LineChartIcon } from 'lucide-react';
+import { AlphaZones, DFADataPoint, RampTestResult, ThresholdEstimate } from '../types';
+import { analyzeRampTest, formatCrossing } from '../services/thresholdService';
+import { RampTestChart } from './RampTestChart';
+import { DEFAULT_ALPHA_ZONES } from '../constants';
+
+interface Props {
+  history: DFADataPoint[];
+  isLive: boolean; // Data is currently streaming in
+  completedRange?: { start: number; end: number } | null; // Finished automated ramp to analyse
+  zones?: AlphaZones;
+}
+
+type Axis = 'heartRate' | 'power' | 'speed';
+
+const AXIS_LABELS: Record<Axis, string> = { heartRate: 'Heart rate', power: 'Power', speed: 'Pace' };
+
+const EstimateTable: React.FC<{ estimate: ThresholdEstimate; zones: AlphaZones }> = ({ estimate, zones }) => (
+  <ul className="space-y-2 text-sm text-slate-300">
+    <li className="flex justify-between gap-4">
+      <span>AeT (α1 {zones.aerobic}):</span>
+      <span className="font-mono text-emerald-400">{formatCrossing(estimate.aerobic, estimate.unit)}</span>
+    </li>
+    <li className="flex justify-between gap-4">
+      <span>AnT (α1 {zones.anaerobic}):</span>
+      <span className="font-mono text-yellow-400">{formatCrossing(estimate.anaerobic, estimate.unit)}</span>
+    </li>
+    <li className="flex justify-between gap-4 text-xs text-slate-500">
+      <span>Fit:</span>
+      <span className="font-mono">R² {estimate.r2.toFixed(2)} · n={estimate.n}</span>
+    </li>
+  </ul>
+);
+
+export const RampTestPanel: React.FC<Props> = ({ history, isLive, completedRange, zones = DEFAULT_ALPHA_ZONES }) => {
+  const [stepMinutes, setStepMinutes] = useState(3);
+  const [testStart, setTestStart] = useState<number | null>(null);
+  const [result, setResult] = useState<RampTestResult | null>(null);
+  const [axis, setAxis] = useState<Axis>('heartRate');
+
+  // Use the data clock rather than wall time so replays at speed work too
+  const latest = history.length > 0 ? history[history.length - 1].timestamp : Date.now();
+  const elapsedMs = testStart !== null ? Math.max(0, latest - testStart) : 0;
+  const stepMs = stepMinutes * 60000;
+  const stage = Math.floor(elapsedMs / stepMs) + 1;
+  const nextStepSec = Math.ceil((stepMs - (elapsedMs % stepMs)) / 1000);
+
+  useEffect(() => {
+    if (!completedRange) return;
+    setResult(analyzeRampTest(history, completedRange.start, completedRange.end, zones));
+    setAxis('power');
+  }, [completedRange]);
+
+  const handleStart = () => {
+    setResult(null);
+    setTestStart(latest);
+  };
+
+  const handleFinish = () => {
+    if (testStart === null) return;
+    setResult(analyzeRampTest(history, testStart, latest, zones));
+    setTestStart(null);
+  };
+
+  const handleAnalyzeAll = () => {
+    if (history.length === 0) return;
+    setResult(analyzeRampTest(history, history[0].timestamp, latest, zones));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {testStart === null ? (
+          <>
+            <button
+              onClick={handleStart}
+              disabled={!isLive}
+              className="flex items-center gap-1 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-md transition-colors"
+            >
+              <Play className="w-3 h-3" /> Start Ramp Test
+            </button>
+            <button
+              onClick={handleAnalyzeAll}
+              disabled={history.length === 0}
+              className="flex items-center gap-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 px-3 py-1.5 rounded-md transition-colors"
+            >
+              <LineChartIcon className="w-3 h-3" /> Analyze Shown Session
+            </button>
+            <label className="text-xs text-slate-400 flex items-center gap-2">
+              Step
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={stepMinutes}
+                onChange={e => setStepMinutes(Math.max(1, Number(e.target.value)))}
+                className="w-14 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200"
+              />
+              min
+            </label>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={handleFinish}
+              className="flex items-center gap-1 text-xs bg-rose-600 hover:bg-rose-700 text-white px-3 py-1.5 rounded-md transition-colors"
+            >
+              <Square className="w-3 h-3" /> Finish Test
+            </button>
+            <span className="text-sm text-slate-300">
+              Stage <span className="font-mono text-slate-100">{stage}</span> · increase intensity in{' '}
+              <span className="font-mono text-slate-100">{Math.floor(nextStepSec / 60)}:{String(nextStepSec % 60).padStart(2, '0')}</span>
+            </span>
+          </>
+        )}
+      </div>
+
+      {testStart === null && !result && (
+        <p className="text-xs text-slate-500">
+          Warm up, then start the test and raise intensity by a fixed step every {stepMinutes} minutes until α1 stays below {zones.anaerobic}.
+        </p>
+      )}
+
+      {result && (
+        result.heartRate ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2 space-y-2">
+              {(result.power || result.speed) && (
+                <div className="flex gap-1">
+                  {(['heartRate', 'power', 'speed'] as Axis[]).filter(a => result[a]).map(a => (
+                    <button
+                      key={a}
+                      onClick={() => setAxis(a)}
+                      className={`text-xs px-2 py-1 rounded ${axis === a ? 'bg-slate-600 text-slate-100' : 'text-slate-400 hover:text-slate-200'}`}
+                    >
+                      {AXIS_LABELS[a]}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <RampTestChart
+                used={result.used}
+                rejected={result.rejected}
+                estimate={result[axis] ?? result.heartRate}
+                intensity={p => (result[axis] ? p[axis] : p.heartRate)}
+                zones={zones}
+              />
+            </div>
+            <div className="space-y-4">
+              <EstimateTable estimate={result.heartRate} zones={zones} />
+              {result.power && <EstimateTable estimate={result.power} zones={zones} />}
+              {result.speed && <EstimateTable estimate={result.speed} zones={zones} />}
+              {result.rejected.length > 0 && (
+                <p className="text-xs text-slate-500">{result.rejected.length} low-quality or outlier windows excluded.</p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-amber-400">Not enough valid windows to fit a regression.</p>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Upload, Play, Square, Zap } from 'lucide-react';
+import { importRRFile, ImportedRR } from '../services/rrImport';
+
+interface Props {
+  isPlaying: boolean;
+  disabled: boolean; // A live sensor is connected
+  onAnalyze: (rrIntervals: number[], name: string) => void;
+  onPlay: (rrIntervals: number[], name: string, speed: number) => void;
+  onStop: () => void;
+}
+
+const SPEEDS = [1, 5, 20, 60];
+
+export const ReplayPanel: React.FC<Props> = ({ isPlaying, disabled, onAnalyze, onPlay, onStop }) => {
+  const [file, setFile] = useState<{ name: string; data: ImportedRR } | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    try {
+      setError(null);
+      setFile({ name: selected.name, data: await importRRFile(selected) });
+    } catch (err: any) {
+      setFile(null);
+      setError(err.message || 'Could not read file');
+    }
+  };
+
+  const durationMin = file ? file.data.rrIntervals.reduce((a, b) => a + b, 0) / 60000 : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className={`flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1.5 rounded-md cursor-pointer transition-colors ${isPlaying ? 'opacity-40 pointer-events-none' : ''}`}>
+          <Upload className="w-4 h-4" />
+          Import RR File
+          <input type="file" accept=".txt,.csv,.fit,.hrm" className="hidden" onChange={handleFile} />
+        </label>
+
+        {file && (
+          <span className="text-xs text-slate-400">
+            {file.name} · {file.data.format.toUpperCase()} · {file.data.rrIntervals.length} beats · {durationMin.toFixed(1)} min
+          </span>
+        )}
+      </div>
+
+      {file && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => onAnalyze(file.data.rrIntervals, file.name)}
+            disabled={isPlaying}
+            className="flex items-center gap-1 text-xs bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-md transition-colors"
+          >
+            <Zap className="w-3 h-3" /> Analyze Instantly
+          </button>
+
+          {isPlaying ? (
+            <button
+              onClick={onStop}
+              className="flex items-center gap-1 text-xs bg-rose-600 hover:bg-rose-700 text-white px-3 py-1.5 rounded-md transition-colors"
+            >
+              <Square className="w-3 h-3" /> Stop Playback
+            </button>
+          ) : (
+            <button
+              onClick={() => onPlay(file.data.rrIntervals, file.name, speed)}
+              disabled={disabled}
+              className="flex items-center gap-1 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-md transition-colors"
+            >
+              <Play className="w-3 h-3" /> Play as Live
+            </button>
+          )}
+
+          <select
+            value={speed}
+            onChange={e => setSpeed(Number(e.target.value))}
+            disabled={isPlaying}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200"
+          >
+            {SPEEDS.map(s => <option key={s} value={s}>{s === 1 ? 'Real time' : `${s}×`}</option>)}
+          </select>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { RestingMetrics, RestingProtocol, RestingTestResult, RestingTestState, RestingTrendPoint } from '../types';
+import { PHASE_PROMPTS } from '../services/restingHrv';
+
+interface Props {
+  state: RestingTestState;
+  canStart: boolean; // Strap connected
+  now: number; // Data clock
+  onStart: (protocol: RestingProtocol) => void;
+  onAbort: () => void;
+  latest: RestingTestResult | null; // Most recent stored or just finished test
+  trend: RestingTrendPoint[];
+}
+
+const PROTOCOL_LABELS: Record<RestingProtocol, string> = {
+  supine: 'Supine',
+  orthostatic: 'Orthostatic (supine → standing)',
+};
+
+const STATUS_CLASSES: Record<NonNullable<RestingTrendPoint['status']>, string> = {
+  low: 'text-rose-400',
+  normal: 'text-emerald-400',
+  high: 'text-sky-400',
+};
+
+const formatSeconds = (ms: number) => {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const MetricsList: React.FC<{ title: string; metrics: RestingMetrics }> = ({ title, metrics }) => (
+  <div>
+    <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-2">{title}</h4>
+    <ul className="space-y-1 font-mono text-xs">
+      <li className="flex justify-between"><span>RMSSD</span><span>{metrics.rmssd.toFixed(1)} ms</span></li>
+      <li className="flex justify-between"><span>ln(RMSSD)</span><span>{metrics.lnRmssd.toFixed(2)}</span></li>
+      <li className="flex justify-between"><span>SDNN</span><span>{metrics.sdnn.toFixed(1)} ms</span></li>
+      <li className="flex justify-between"><span>Mean HR</span><span>{metrics.meanHr.toFixed(0)} bpm</span></li>
+      {metrics.frequency ? (
+        <>
+          <li className="flex justify-between"><span>LF</span><span>{metrics.frequency.lf.toFixed(0)} ms²</span></li>
+          <li className="flex justify-between"><span>HF</span><span>{metrics.frequency.hf.toFixed(0)} ms²</span></li>
+          <li className="flex justify-between"><span>LF/HF</span><span>{metrics.frequency.lfHf !== null ? metrics.frequency.lfHf.toFixed(2) : '--'}</span></li>
+        </>
+      ) : (
+        <li className="text-slate-500 font-sans">Too short for spectral analysis</li>
+      )}
+      <li className="flex justify-between text-slate-500"><span>Artifacts</span><span>{metrics.artifactPercent.toFixed(1)}%</span></li>
+    </ul>
+  </div>
+);
+
+export const RestingTestPanel: React.FC<Props> = ({ state, canStart, now, onStart, onAbort, latest, trend }) => {
+  const [protocol, setProtocol] = useState<RestingProtocol>('supine');
+  const today = trend.length > 0 ? trend[trend.length - 1] : null;
+  const chartData = trend.map(p => ({
+    ...p,
+    baselineRange: p.baselineMean !== null && p.baselineSd !== null
+      ? [p.baselineMean - p.baselineSd, p.baselineMean + p.baselineSd]
+      : undefined,
+  }));
+
+  return (
+    <div className="space-y-6 text-sm text-slate-300">
+      {state.status === 'running' ? (
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            onClick={onAbort}
+            className="flex items-center gap-1 text-xs bg-rose-600 hover:bg-rose-700 text-white px-3 py-1.5 rounded-md transition-colors"
+          >
+            <Square className="w-3 h-3" /> Abort Test
+          </button>
+          {state.phase && (
+            <span className="text-lg text-slate-100">{PHASE_PROMPTS[state.phase]}</span>
+          )}
+          <span className="font-mono text-2xl text-sky-300">{formatSeconds((state.phaseEndsAt ?? now) - now)}</span>
+          <span className="text-xs text-slate-500">{state.beatCount} beats</span>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={protocol}
+            onChange={e => setProtocol(e.target.value as RestingProtocol)}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200"
+          >
+            {(Object.keys(PROTOCOL_LABELS) as RestingProtocol[]).map(p => (
+              <option key={p} value={p}>{PROTOCOL_LABELS[p]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onStart(protocol)}
+            disabled={!canStart}
+            className="flex items-center gap-1 text-xs bg-sky-600 hover:bg-sky-700 disabled:opacity-40 text-white px-3 py-1.5 rounded-md transition-colors"
+          >
+            <Play className="w-3 h-3" /> Start Resting Test
+          </button>
+          {!canStart && <span className="text-xs text-slate-500">Connect a heart rate strap first</span>}
+          {state.error && <span className="text-xs text-rose-400">{state.error}</span>}
+        </div>
+      )}
+
+      {latest && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <MetricsList title={`Supine · ${new Date(latest.timestamp).toLocaleDateString()}`} metrics={latest.supine} />
+          {latest.standing && <MetricsList title="Standing" metrics={latest.standing} />}
+          {latest.orthostatic && (
+            <div>
+              <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-2">HR response to standing</h4>
+              <ul className="space-y-1 font-mono text-xs">
+                <li className="flex justify-between"><span>Supine</span><span>{latest.orthostatic.supineHr.toFixed(0)} bpm</span></li>
+                <li className="flex justify-between"><span>Peak</span><span>{latest.orthostatic.peakHr.toFixed(0)} bpm (+{latest.orthostatic.peakDelta.toFixed(0)})</span></li>
+                <li className="flex justify-between"><span>Standing</span><span>{latest.orthostatic.standingHr.toFixed(0)} bpm (+{latest.orthostatic.standingDelta.toFixed(0)})</span></li>
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {trend.length > 0 && (
+        <div>
+          <div className="flex justify-between items-baseline mb-2">
+            <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase">Daily ln(RMSSD)</h4>
+            {today?.status && (
+              <span className={`text-xs ${STATUS_CLASSES[today.status]}`}>
+                {today.day}: {today.status === 'normal' ? 'within baseline' : `${today.status} vs baseline`}
+              </span>
+            )}
+          </div>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="day" stroke="#94a3b8" tick={{fontSize: 10}} minTickGap={20} />
+                <YAxis stroke="#94a3b8" tick={{fontSize: 10}} domain={['auto', 'auto']} width={35} />
+                <Tooltip contentStyle={{ background: '#1e293b', border: '1px solid #334155', fontSize: 12 }} formatter={(v: any) => Array.isArray(v) ? v.map((x: number) => x.toFixed(2)).join('–') : Number(v).toFixed(2)} />
+                <Area dataKey="baselineRange" name="Baseline ± 1 SD" stroke="none" fill="#0ea5e9" fillOpacity={0.15} connectNulls isAnimationActive={false} />
+                <Line dataKey="lnRmssd" name="ln(RMSSD)" stroke="#34d399" strokeWidth={2} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
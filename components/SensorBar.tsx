@@ -0,0 +1,64 @@
+import React from 'react';
+import { Zap, Footprints, Bike } from 'lucide-react';
+import { SensorKind, SensorReading, SensorState } from '../types';
+import { SENSOR_LABELS } from '../services/bluetoothService';
+import { formatPace } from '../services/pace';
+
+interface Props {
+  sensors: Record<SensorKind, SensorState>;
+  latest: Partial<Record<SensorKind, SensorReading>>;
+  onConnect: (kind: SensorKind) => void;
+  onDisconnect: (kind: SensorKind) => void;
+  preferred?: SensorKind | null; // From the active athlete profile
+}
+
+const ICONS: Record<SensorKind, React.FC<{ className?: string }>> = {
+  power: Zap,
+  footpod: Footprints,
+  trainer: Bike,
+};
+
+const formatReading = (reading: SensorReading | undefined): string => {
+  if (!reading) return '--';
+  if (reading.kind !== 'footpod') return `${reading.power ?? '--'} W`;
+  return reading.speed !== undefined ? `${formatPace(reading.speed)} /km` : '--';
+};
+
+// Optional intensity sensors paired alongside the HR strap
+export const SensorBar: React.FC<Props> = ({ sensors, latest, onConnect, onDisconnect, preferred = null }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="text-xs text-slate-500 uppercase font-bold tracking-wider mr-1">Sensors</span>
+    {(Object.keys(sensors) as SensorKind[]).map(kind => {
+      const state = sensors[kind];
+      const Icon = ICONS[kind];
+      if (!state.isConnected && !state.isReconnecting) {
+        return (
+          <button
+            key={kind}
+            onClick={() => onConnect(kind)}
+            className={`flex items-center gap-1 text-xs bg-slate-800 hover:bg-slate-700 border text-slate-300 px-3 py-1.5 rounded-md transition-colors ${
+              kind === preferred ? 'border-sky-500/60' : 'border-slate-700'
+            }`}
+          >
+            <Icon className="w-3 h-3" /> Pair {SENSOR_LABELS[kind]}
+          </button>
+        );
+      }
+      return (
+        <div
+          key={kind}
+          className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded-md border ${
+            state.isReconnecting
+              ? 'bg-amber-500/10 text-amber-400 border-amber-500/20'
+              : 'bg-sky-500/10 text-sky-300 border-sky-500/20'
+          }`}
+        >
+          <Icon className="w-3 h-3" />
+          <span>{state.deviceName ?? SENSOR_LABELS[kind]}</span>
+          <span className="font-mono">{state.isReconnecting ? 'reconnecting…' : formatReading(latest[kind])}</span>
+          <button onClick={() => onDisconnect(kind)} className="text-slate-400 hover:text-slate-100">×</button>
+        </div>
+      );
+    })}
+  </div>
+);
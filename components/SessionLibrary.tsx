@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { FolderOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+import { SessionSummary } from '../types';
+import { listSessions, renameSession, deleteSession } from '../services/sessionStore';
+import { formatDuration } from '../services/sessionReport';
+
+interface Props {
+  activeSessionId: string | null; // Session currently being recorded
+  refreshKey: number;
+  onOpen: (id: string) => void;
+  onRenamed: (id: string, name: string) => void;
+}
+
+export const SessionLibrary: React.FC<Props> = ({ activeSessionId, refreshKey, onOpen, onRenamed }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const reload = () => {
+    listSessions().then(setSessions).catch(err => console.error('Failed to load sessions:', err));
+  };
+
+  useEffect(reload, [refreshKey]);
+
+  const commitRename = async (id: string) => {
+    const name = draftName.trim();
+    if (name) {
+      await renameSession(id, name);
+      onRenamed(id, name);
+    }
+    setEditingId(null);
+    reload();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this session? This cannot be undone.')) return;
+    await deleteSession(id);
+    reload();
+  };
+
+  if (sessions.length === 0) {
+    return <p className="text-slate-500 text-sm">No saved sessions yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-700">
+      {sessions.map(s => {
+        const isActive = s.id === activeSessionId;
+        const end = s.endTime ?? s.lastTimestamp;
+        return (
+          <li key={s.id} className="py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0 flex-1">
+              {editingId === s.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename(s.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-slate-100 w-full"
+                  />
+                  <button onClick={() => commitRename(s.id)} className="text-emerald-400 hover:text-emerald-300"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setEditingId(null)} className="text-slate-400 hover:text-slate-300"><X className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <p className="text-sm text-slate-100 truncate">{s.name}</p>
+              )}
+              <p className="text-xs text-slate-500 mt-0.5">
+                {new Date(s.startTime).toLocaleString()} · {formatDuration(end - s.startTime)} · {s.beatCount} beats
+                {s.deviceName ? ` · ${s.deviceName}` : ''}
+                {isActive && <span className="text-emerald-400"> · recording</span>}
+                {!isActive && s.endTime === null && <span className="text-amber-400"> · interrupted</span>}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 text-slate-400">
+              <button onClick={() => onOpen(s.id)} title="Open" className="hover:text-slate-100"><FolderOpen className="w-4 h-4" /></button>
+              <button
+                onClick={() => { setEditingId(s.id); setDraftName(s.name); }}
+                title="Rename"
+                className="hover:text-slate-100"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(s.id)}
+                disabled={isActive}
+                title="Delete"
+                className="hover:text-rose-400 disabled:opacity-30"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
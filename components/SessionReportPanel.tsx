@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Printer } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { HistogramBin, RecordedSession, ThresholdEstimate } from '../types';
+import { buildSessionReport, formatDuration, REPORT_ZONES, sessionEndTime } from '../services/sessionReport';
+import { formatCrossing } from '../services/thresholdService';
+import { exportReport, printReport } from '../services/exportService';
+import { ZONE_LABELS } from '../services/zones';
+
+interface Props {
+  session: RecordedSession;
+}
+
+const ZONE_CLASSES = { aerobic: 'bg-emerald-500', threshold: 'bg-yellow-500', anaerobic: 'bg-red-500', lowQuality: 'bg-slate-500' };
+
+const inputClass = 'w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs font-mono text-slate-100';
+const buttonClass = 'flex items-center gap-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1.5 rounded-md transition-colors';
+
+const Distribution: React.FC<{ title: string; bins: HistogramBin[]; color: string; digits: number }> = ({ title, bins, color, digits }) => (
+  <div>
+    <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-2">{title}</h4>
+    {bins.length > 0 ? (
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={bins.map(b => ({ ...b, label: b.from.toFixed(digits) }))}>
+            <XAxis dataKey="label" stroke="#64748b" fontSize={10} />
+            <YAxis stroke="#64748b" fontSize={10} allowDecimals={false} width={30} />
+            <Tooltip cursor={{ fill: '#334155' }} contentStyle={{ background: '#1e293b', border: '1px solid #334155', fontSize: 12 }} />
+            <Bar dataKey="count" name="Points" fill={color} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    ) : (
+      <p className="text-xs text-slate-500">No data</p>
+    )}
+  </div>
+);
+
+const EstimateRow: React.FC<{ title: string; estimate: ThresholdEstimate | null }> = ({ title, estimate }) =>
+  estimate ? (
+    <li className="flex flex-wrap justify-between gap-2">
+      <span>{title}</span>
+      <span className="font-mono text-xs">
+        <span className="text-emerald-400">AeT {formatCrossing(estimate.aerobic, estimate.unit)}</span>
+        <span className="text-slate-500"> · </span>
+        <span className="text-yellow-400">AnT {formatCrossing(estimate.anaerobic, estimate.unit)}</span>
+      </span>
+    </li>
+  ) : null;
+
+/**
+ * Post-session report. The segment is picked in minutes from the start of
+ * the session and defaults to the whole recording.
+ */
+export const SessionReportPanel: React.FC<Props> = ({ session }) => {
+  const totalMinutes = (sessionEndTime(session) - session.startTime) / 60000;
+  const [fromMin, setFromMin] = useState(0);
+  const [toMin, setToMin] = useState(totalMinutes);
+
+  useEffect(() => {
+    setFromMin(0);
+    setToMin((sessionEndTime(session) - session.startTime) / 60000);
+  }, [session]);
+
+  const report = useMemo(() => {
+    const from = Math.max(0, Math.min(fromMin, toMin));
+    const to = Math.min(totalMinutes, Math.max(fromMin, toMin));
+    const isWhole = from <= 0 && to >= totalMinutes;
+    return buildSessionReport(session, isWhole ? undefined : {
+      start: session.startTime + from * 60000,
+      end: session.startTime + to * 60000,
+    });
+  }, [session, fromMin, toMin, totalMinutes]);
+
+  const { hrv, timeInZone, thresholds } = report;
+  const zoneTotal = REPORT_ZONES.reduce((sum, zone) => sum + timeInZone[zone], 0);
+  const hasEstimates = thresholds.heartRate || thresholds.power || thresholds.speed;
+
+  return (
+    <div className="space-y-6 text-sm text-slate-300">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          Segment
+          <input type="number" min={0} step={0.5} value={Number(fromMin.toFixed(1))} onChange={e => setFromMin(Number(e.target.value))} className={inputClass} />
+          –
+          <input type="number" min={0} step={0.5} value={Number(toMin.toFixed(1))} onChange={e => setToMin(Number(e.target.value))} className={inputClass} />
+          min
+          <button onClick={() => { setFromMin(0); setToMin(totalMinutes); }} className="ml-2 text-slate-400 hover:text-slate-200 underline">
+            Whole session
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => printReport(session, report)} className={buttonClass}>
+            <Printer className="w-3 h-3" /> Print
+          </button>
+          <button onClick={() => exportReport(session, report)} className={buttonClass}>
+            <Download className="w-3 h-3" /> HTML
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          ['Duration', formatDuration(report.durationMs)],
+          ['Beats', `${hrv?.beats ?? 0}`],
+          ['Artifacts', `${hrv ? hrv.artifactPercent.toFixed(1) : '0.0'}%`],
+          ['Dropouts', `${report.gapCount}`],
+        ].map(([label, value]) => (
+          <div key={label} className="bg-slate-900/50 rounded-lg p-3">
+            <div className="text-xs text-slate-500 uppercase tracking-wider">{label}</div>
+            <div className="text-xl font-mono text-slate-100">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-2">Time in zone</h4>
+        <div className="flex h-3 rounded overflow-hidden bg-slate-700 mb-2">
+          {REPORT_ZONES.map(zone => (
+            <div key={zone} className={ZONE_CLASSES[zone]} style={{ width: `${zoneTotal > 0 ? (timeInZone[zone] / zoneTotal) * 100 : 0}%` }} />
+          ))}
+        </div>
+        <ul className="flex flex-wrap gap-x-6 gap-y-1 text-xs">
+          {REPORT_ZONES.map(zone => (
+            <li key={zone} className="flex items-center gap-2">
+              <span className={`w-2 h-2 rounded-full ${ZONE_CLASSES[zone]}`} />
+              {zone === 'lowQuality' ? 'Low quality' : ZONE_LABELS[zone]}
+              <span className="font-mono text-slate-400">
+                {formatDuration(timeInZone[zone])} ({zoneTotal > 0 ? Math.round((timeInZone[zone] / zoneTotal) * 100) : 0}%)
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Distribution title="Heart rate (bpm)" bins={report.hrHistogram} color="#fb7185" digits={0} />
+        <Distribution title="α1" bins={report.alphaHistogram} color="#0ea5e9" digits={1} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-2">HRV</h4>
+          {hrv ? (
+            <ul className="space-y-1 font-mono text-xs">
+              <li className="flex justify-between"><span>Mean RR</span><span>{hrv.meanRR.toFixed(0)} ms</span></li>
+              <li className="flex justify-between"><span>Mean HR</span><span>{hrv.meanHr.toFixed(0)} bpm</span></li>
+              <li className="flex justify-between"><span>SDNN</span><span>{hrv.sdnn.toFixed(1)} ms</span></li>
+              <li className="flex justify-between"><span>RMSSD</span><span>{hrv.rmssd.toFixed(1)} ms</span></li>
+              <li className="flex justify-between"><span>pNN50</span><span>{hrv.pnn50.toFixed(1)}%</span></li>
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-500">Not enough beats in this segment</p>
+          )}
+        </div>
+        <div>
+          <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-2">Threshold estimates</h4>
+          {hasEstimates ? (
+            <ul className="space-y-2">
+              <EstimateRow title="Heart rate" estimate={thresholds.heartRate} />
+              <EstimateRow title="Power" estimate={thresholds.power} />
+              <EstimateRow title="Pace" estimate={thresholds.speed} />
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-500">Not enough valid windows for a fit</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React from 'react';
+import { SessionSettings, ArtifactMethod, KubiosLevel, DfaOptions } from '../types';
+import { ARTIFACT_METHOD_LABELS, KUBIOS_LEVEL_LABELS } from '../services/artifactCorrection';
+import { boxSizesFor } from '../services/dfaService';
+
+interface Props {
+  settings: SessionSettings;
+  onChange: (changes: Partial<SessionSettings>) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs font-mono text-slate-100';
+
+const Row: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <li className="flex justify-between items-center gap-4">
+    <span title={hint}>{label}</span>
+    <span className="flex items-center gap-2">{children}</span>
+  </li>
+);
+
+export const SettingsPanel: React.FC<Props> = ({ settings, onChange }) => {
+  const numberInput = (key: keyof SessionSettings, min: number, max: number, step = 1, scale = 1) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={(settings[key] as number) / scale}
+      onChange={e => onChange({ [key]: Number(e.target.value) * scale })}
+      className={`w-20 ${inputClass}`}
+    />
+  );
+
+  const dfa = settings.dfa;
+  const updateDfa = (changes: Partial<DfaOptions>) => onChange({ dfa: { ...dfa, ...changes } });
+  const dfaNumber = (key: keyof DfaOptions, min: number, max: number) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={dfa[key] as number}
+      onChange={e => updateDfa({ [key]: Number(e.target.value) })}
+      className={`w-16 ${inputClass}`}
+    />
+  );
+  const shortSizes = boxSizesFor(dfa.minBoxSize, dfa.maxBoxSize, dfa.boxSpacing, dfa.logBoxCount);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-sm text-slate-300">
+      <div>
+        <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-3">Windowing</h4>
+        <ul className="space-y-3">
+          <Row label="Window type">
+            <select
+              value={settings.windowMode}
+              onChange={e => onChange({ windowMode: e.target.value as SessionSettings['windowMode'] })}
+              className={inputClass}
+            >
+              <option value="beats">Beat count</option>
+              <option value="time">Duration</option>
+            </select>
+          </Row>
+          {settings.windowMode === 'beats' ? (
+            <Row label="Window length">{numberInput('dfaWindowBeats', 60, 1000)}<span className="text-xs">beats</span></Row>
+          ) : (
+            <Row label="Window length">{numberInput('windowSeconds', 30, 600)}<span className="text-xs">s</span></Row>
+          )}
+          <Row label="Recompute every">{numberInput('recomputeIntervalMs', 1, 60, 1, 1000)}<span className="text-xs">s</span></Row>
+          <Row label="Settle after HR change of" hint="0 disables settling">
+            {numberInput('settlingHrDelta', 0, 50)}<span className="text-xs">bpm</span>
+          </Row>
+          {settings.settlingHrDelta > 0 && (
+            <Row label="Settling period">{numberInput('settlingSeconds', 5, 300)}<span className="text-xs">s</span></Row>
+          )}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-3">DFA</h4>
+        <ul className="space-y-3">
+          <Row label="α1 box sizes">
+            {dfaNumber('minBoxSize', 3, 64)}<span className="text-xs">–</span>{dfaNumber('maxBoxSize', 4, 128)}
+          </Row>
+          <Row label="Spacing">
+            <select
+              value={dfa.boxSpacing}
+              onChange={e => updateDfa({ boxSpacing: e.target.value as DfaOptions['boxSpacing'] })}
+              className={inputClass}
+            >
+              <option value="linear">Linear</option>
+              <option value="log">Log</option>
+            </select>
+            {dfa.boxSpacing === 'log' && dfaNumber('logBoxCount', 2, 40)}
+          </Row>
+          <li className="text-[10px] font-mono text-slate-500 text-right">n = {shortSizes.join(', ')}</li>
+          <Row label="Box placement">
+            <select
+              value={dfa.boxPlacement}
+              onChange={e => updateDfa({ boxPlacement: e.target.value as DfaOptions['boxPlacement'] })}
+              className={inputClass}
+            >
+              <option value="forward">Non-overlapping</option>
+              <option value="forwardBackward">Forward + backward</option>
+              <option value="sliding">Sliding</option>
+            </select>
+            {dfa.boxPlacement === 'sliding' && dfaNumber('slidingStep', 1, 64)}
+          </Row>
+          <Row label="Detrending">
+            <select
+              value={dfa.detrendOrder}
+              onChange={e => updateDfa({ detrendOrder: Number(e.target.value) as DfaOptions['detrendOrder'] })}
+              className={inputClass}
+            >
+              <option value={1}>DFA1 (linear)</option>
+              <option value={2}>DFA2 (quadratic)</option>
+              <option value={3}>DFA3 (cubic)</option>
+            </select>
+          </Row>
+          <Row label="Compute α2">
+            <input
+              type="checkbox"
+              checked={dfa.computeAlpha2}
+              onChange={e => updateDfa({ computeAlpha2: e.target.checked })}
+              className="accent-indigo-500"
+            />
+          </Row>
+          {dfa.computeAlpha2 && (
+            <Row label="α2 box sizes">
+              {dfaNumber('alpha2MinBoxSize', 8, 128)}<span className="text-xs">–</span>{dfaNumber('alpha2MaxBoxSize', 16, 256)}
+            </Row>
+          )}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="text-slate-500 text-xs font-bold tracking-wider uppercase mb-3">Artifacts</h4>
+        <ul className="space-y-3">
+          <Row label="Correction">
+            <select
+              value={settings.artifactCorrection.method}
+              onChange={e => onChange({
+                artifactCorrection: { ...settings.artifactCorrection, method: e.target.value as ArtifactMethod },
+              })}
+              className={inputClass}
+            >
+              {Object.entries(ARTIFACT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </Row>
+          {settings.artifactCorrection.method === 'kubios' && (
+            <Row label="Threshold level">
+              <select
+                value={settings.artifactCorrection.kubiosLevel}
+                onChange={e => onChange({
+                  artifactCorrection: { ...settings.artifactCorrection, kubiosLevel: e.target.value as KubiosLevel },
+                })}
+                className={inputClass}
+              >
+                {Object.entries(KUBIOS_LEVEL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </Row>
+          )}
+          <Row label="Artifact limit">{numberInput('maxArtifactPercent', 0, 50, 0.5)}<span className="text-xs">%</span></Row>
+          <Row label="Windows over limit">
+            <select
+              value={settings.artifactHandling}
+              onChange={e => onChange({ artifactHandling: e.target.value as SessionSettings['artifactHandling'] })}
+              className={inputClass}
+            >
+              <option value="mark">Mark</option>
+              <option value="drop">Drop</option>
+            </select>
+          </Row>
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { SimulatorSettings } from '../services/simulatorService';
+
+interface Props {
+  initialSettings: SimulatorSettings;
+  onChange: (settings: Partial<SimulatorSettings>) => void;
+}
+
+interface SliderDef {
+  key: keyof SimulatorSettings;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+}
+
+const SLIDERS: SliderDef[] = [
+  { key: 'hrStart', label: 'HR start', min: 50, max: 200, step: 1, format: v => `${v} bpm` },
+  { key: 'hrEnd', label: 'HR end', min: 50, max: 200, step: 1, format: v => `${v} bpm` },
+  { key: 'alphaStart', label: 'α1 start', min: 0.3, max: 1.5, step: 0.05, format: v => v.toFixed(2) },
+  { key: 'alphaEnd', label: 'α1 end', min: 0.3, max: 1.5, step: 0.05, format: v => v.toFixed(2) },
+  { key: 'rampMinutes', label: 'Ramp duration', min: 0, max: 60, step: 1, format: v => `${v} min` },
+  { key: 'variabilityMs', label: 'Variability', min: 5, max: 100, step: 1, format: v => `${v} ms` },
+  { key: 'missedBeatRate', label: 'Missed beats', min: 0, max: 0.1, step: 0.005, format: v => `${(v * 100).toFixed(1)}%` },
+  { key: 'extraBeatRate', label: 'Extra beats', min: 0, max: 0.1, step: 0.005, format: v => `${(v * 100).toFixed(1)}%` },
+];
+
+export const SimulatorPanel: React.FC<Props> = ({ initialSettings, onChange }) => {
+  const [settings, setSettings] = useState<SimulatorSettings>(initialSettings);
+
+  const update = (key: keyof SimulatorSettings, value: number) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    onChange({ [key]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+      {SLIDERS.map(s => (
+        <label key={s.key} className="text-xs text-slate-400">
+          <div className="flex justify-between mb-1">
+            <span>{s.label}</span>
+            <span className="font-mono text-slate-200">{s.format(settings[s.key])}</span>
+          </div>
+          <input
+            type="range"
+            min={s.min}
+            max={s.max}
+            step={s.step}
+            value={settings[s.key]}
+            onChange={e => update(s.key, Number(e.target.value))}
+            className="w-full accent-indigo-500"
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { Radio } from 'lucide-react';
+import { getStreamUrl, isStreamUrl } from '../services/streamSource';
+
+interface Props {
+  disabled: boolean;
+  onConnect: (url: string) => void;
+}
+
+// Endpoint field plus connect button for the WebSocket/SSE input
+export const StreamConnect: React.FC<Props> = ({ disabled, onConnect }) => {
+  const [url, setUrl] = useState(getStreamUrl);
+  const valid = isStreamUrl(url);
+
+  return (
+    <div className="flex items-center rounded-lg border border-slate-600 overflow-hidden">
+      <input
+        value={url}
+        onChange={e => setUrl(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter' && valid && !disabled) onConnect(url); }}
+        placeholder="ws://localhost:8765"
+        aria-label="Stream URL"
+        className="bg-slate-900 px-2 py-2 w-44 text-xs font-mono text-slate-200 focus:outline-none"
+      />
+      <button
+        onClick={() => onConnect(url)}
+        disabled={disabled || !valid}
+        title="WebSocket or Server-Sent Events endpoint sending { hr, rr, ts } JSON"
+        className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 px-3 py-2 font-medium transition-colors"
+      >
+        <Radio className="w-5 h-5" />
+        Stream
+      </button>
+    </div>
+  );
+};
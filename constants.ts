@@ -1,13 +1,125 @@
+import { AlertSettings, AlphaZones, ErgRampSettings, SessionSettings } from './types';
+
 export const SERVICE_HEART_RATE = 0x180D;
 export const CHAR_HEART_RATE_MEASUREMENT = 0x2A37;
+export const SERVICE_CYCLING_POWER = 0x1818;
+export const CHAR_CYCLING_POWER_MEASUREMENT = 0x2A63;
+export const SERVICE_RUNNING_SPEED_CADENCE = 0x1814;
+export const CHAR_RSC_MEASUREMENT = 0x2A53;
+export const SERVICE_FITNESS_MACHINE = 0x1826;
+export const CHAR_INDOOR_BIKE_DATA = 0x2AD2;
+export const CHAR_FTMS_CONTROL_POINT = 0x2AD9;
+export const FTMS_RESPONSE_TIMEOUT_MS = 3000;
+// Polar Measurement Data (raw ECG on the H10)
+export const SERVICE_POLAR_PMD = 'fb005c80-02e7-f387-1cad-8acd2d8df0c8';
+export const CHAR_PMD_CONTROL_POINT = 'fb005c81-02e7-f387-1cad-8acd2d8df0c8';
+export const CHAR_PMD_DATA = 'fb005c82-02e7-f387-1cad-8acd2d8df0c8';
+export const PMD_RESPONSE_TIMEOUT_MS = 3000;
+
+// Local WebSocket/SSE input (scripts/rr-relay.mjs listens here by default)
+export const DEFAULT_STREAM_URL = 'ws://localhost:8765';
+
+// Coach view
+export const COACH_CHANNEL_NAME = 'dfa-a1-coach';
+export const DEFAULT_COACH_RELAY_URL = 'ws://localhost:8765/coach';
+export const COACH_HEARTBEAT_MS = 5000; // Status is re-sent at least this often
+export const COACH_STALE_MS = 15000;
+export const COACH_SPARKLINE_MS = 10 * 60 * 1000;
+
+// Reconnection
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 30000;
+export const RECONNECT_MAX_ATTEMPTS = 10;
 
 // DFA Calculation Constants
 export const MIN_RR_BUFFER_SIZE = 120; // Minimum beats to calculate DFA
 export const MAX_RR_BUFFER_SIZE = 300; // Keep a rolling window
 export const DFA_WINDOW_WIDTH = 200; // Number of beats for the calculation window
+export const DFA_WINDOW_SECONDS = 120; // Window length for time-based windows (published protocols)
+export const HISTORY_POINT_INTERVAL_MS = 2000; // Default recompute cadence / history spacing
+export const RR_GAP_THRESHOLD_MS = 3000; // Missing time in the RR timeline that counts as a dropout
+
+// Respiration from RSA in the DFA window
+export const RESPIRATION_RATE_RANGE = { min: 6, max: 60 }; // Breaths/min searched
+export const RESPIRATION_MIN_POWER = 0.5; // ms² in the breathing band; weaker RSA gives no estimate
+export const RESPIRATION_CLEAR_SHARE = 0.3; // Band power around the peak needed to report a rate
+export const RESPIRATION_PACED_SHARE = 0.7; // One rhythm this dominant counts as paced breathing
+export const RESPIRATION_NOISE_FLATNESS = 0.45; // Spectra flatter than this after removing the 1/f slope are noise, not breathing
+export const RESPIRATION_BOX_MARGIN = 0.25; // Breath cycles up to this much longer than the smallest box are flagged
 
-export const ARTIFACT_THRESHOLD_PERCENT = 0.20; // 20% deviation threshold
+// Artifact Handling
+export const ARTIFACT_THRESHOLD_PERCENT = 0.30; // Quotient filter: max beat-to-beat change
+export const MAX_ARTIFACT_PERCENT = 5; // Windows above this are low quality
 
 // Thresholds
 export const THRESHOLD_AEROBIC = 0.75; // The target for AeT
-export const THRESHOLD_ANAEROBIC = 0.5; 
+export const THRESHOLD_ANAEROBIC = 0.5;
+// Population defaults; athlete profiles override them
+export const DEFAULT_ALPHA_ZONES: AlphaZones = {
+  aerobic: THRESHOLD_AEROBIC,
+  anaerobic: THRESHOLD_ANAEROBIC,
+};
+
+// Stage-end alpha1 in lap tables: mean over the final part of each lap
+export const LAP_TAIL_MS = 120000;
+
+// Resting HRV test; phase lengths in seconds
+export const RESTING_PHASE_SECONDS = { settle: 60, supine: 180, standing: 180 };
+export const RESTING_BASELINE_DAYS = 7; // Rolling window for the readiness baseline
+export const RESTING_BASELINE_MIN_DAYS = 3;
+
+// Session persistence
+export const SESSION_AUTOSAVE_INTERVAL_MS = 5000; // Max data lost on crash
+export const SESSION_RESUME_WINDOW_MS = 60 * 60 * 1000; // Interrupted sessions newer than this can be resumed
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  windowMode: 'beats',
+  dfaWindowBeats: DFA_WINDOW_WIDTH,
+  windowSeconds: DFA_WINDOW_SECONDS,
+  recomputeIntervalMs: HISTORY_POINT_INTERVAL_MS,
+  settlingHrDelta: 0,
+  settlingSeconds: 30,
+  maxArtifactPercent: MAX_ARTIFACT_PERCENT,
+  artifactHandling: 'mark',
+  artifactCorrection: { method: 'quotient', kubiosLevel: 'medium' },
+  dfa: {
+    minBoxSize: 4,
+    maxBoxSize: 16,
+    boxSpacing: 'linear',
+    logBoxCount: 10,
+    boxPlacement: 'forward',
+    slidingStep: 1,
+    detrendOrder: 1,
+    computeAlpha2: false,
+    alpha2MinBoxSize: 16,
+    alpha2MaxBoxSize: 64,
+  },
+};
+
+// ERG ramp protocol, e.g. 100 W + 15 W every 3 min
+export const DEFAULT_ERG_RAMP_SETTINGS: ErgRampSettings = {
+  startWatts: 100,
+  stepWatts: 15,
+  stepSeconds: 180,
+  stopBelowSeconds: 60,
+  maxWatts: 500,
+};
+
+// Alerts
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  rules: {
+    belowAerobic: { enabled: true, cooldownSeconds: 60 },
+    greyZone: { enabled: false, cooldownSeconds: 120 },
+    hrCap: { enabled: false, cooldownSeconds: 60 },
+    artifacts: { enabled: true, cooldownSeconds: 120 },
+    disconnected: { enabled: true, cooldownSeconds: 30 },
+  },
+  alphaHysteresis: 0.05,
+  greyZoneSeconds: 120,
+  hrCap: 170,
+  hrHysteresis: 3,
+  artifactHysteresis: 1,
+  sound: true,
+  speech: true,
+  vibrate: true,
+};
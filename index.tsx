@@ -1,15 +1,22 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { CoachDashboard } from './components/CoachDashboard';
+import { registerServiceWorker } from './services/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?coach opens the multi-athlete dashboard instead of a monitor
+const isCoachView = new URLSearchParams(window.location.search).has('coach');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isCoachView ? <CoachDashboard /> : <App />}
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
@@ -0,0 +1,108 @@
+/**
+ * Service worker: keeps the app shell available offline.
+ * Install precaches the shell and every file in the build's precache
+ * manifest (emitted by vite.config.ts); the page then reports what it
+ * loaded before the worker took over (CDN scripts, fonts) to be cached too.
+ * Hashed build assets are immutable and served cache-first; pages and CDN
+ * resources are fetched network-first so updates arrive as soon as the
+ * network is back, falling back to the last cached copy. Anything else
+ * cross-origin (stream relays, sensor bridges) and event streams pass
+ * straight through: a stream never ends, so it can't be cached.
+ */
+
+const CACHE = 'dfa-a1-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+const PRECACHE_MANIFEST = '/precache-manifest.json';
+
+// Built assets; an empty list when serving without a build manifest
+const buildAssets = async () => {
+  try {
+    const response = await fetch(PRECACHE_MANIFEST, { cache: 'no-cache' });
+    return response.ok ? await response.json() : [];
+  } catch {
+    return [];
+  }
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE), buildAssets()])
+      .then(([cache, assets]) => cache.addAll([...new Set([...SHELL, ...assets])]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Hosts index.html loads the shell from (Tailwind, fonts, the import map)
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+const isCacheable = url => url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname);
+
+const isEventStream = request => (request.headers.get('Accept') ?? '').includes('text/event-stream');
+
+const isImmutable = url => url.origin === self.location.origin && url.pathname.startsWith('/assets/');
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+  return response;
+};
+
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if ((response.headers.get('Content-Type') ?? '').includes('text/event-stream')) return response;
+    // Opaque responses (no-cors CDN scripts and fonts) are cached as-is
+    if (response.ok || response.type === 'opaque') (await caches.open(CACHE)).put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    // Any navigation inside the app can be answered with the shell
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('/index.html');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+};
+
+// CORS where the CDN allows it (module scripts need a readable response), opaque otherwise
+const fetchForCache = url => fetch(url, { mode: 'cors' }).catch(() => fetch(url, { mode: 'no-cors' }));
+
+// Resources the page loaded before this worker controlled it
+const cacheLoaded = async urls => {
+  const cache = await caches.open(CACHE);
+  await Promise.all(urls.map(async href => {
+    const url = new URL(href, self.location.origin);
+    if (!url.protocol.startsWith('http') || !isCacheable(url) || await cache.match(url.href)) return;
+    try {
+      const response = await fetchForCache(url.href);
+      if (response.ok || response.type === 'opaque') await cache.put(url.href, response);
+    } catch {
+      // Offline again already; the next load reports it once more
+    }
+  }));
+};
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'cache-urls' && Array.isArray(event.data.urls)) event.waitUntil(cacheLoaded(event.data.urls));
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!url.protocol.startsWith('http') || !isCacheable(url) || isEventStream(request)) return;
+
+  event.respondWith(isImmutable(url) ? cacheFirst(request) : networkFirst(request));
+});
@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+/**
+ * Mock stream endpoint for trying the stream input without a watch or
+ * strap: a relay that sends synthetic beats once a second, with HR ramping
+ * linearly from --hr to --hr-end over --minutes.
+ *
+ *   node scripts/mock-rr-server.mjs [--port 8765] [--hr 110] [--hr-end 170] [--minutes 20]
+ *
+ * Connect the app to ws://localhost:8765 or http://localhost:8765/events.
+ */
+import { createRelay, parseArgs, DEFAULT_PORT } from './rr-relay.mjs';
+
+const TICK_MS = 1000;
+const JITTER = 0.03; // RR standard deviation as a fraction of the mean
+
+const gaussian = () => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+const args = parseArgs(process.argv.slice(2));
+const hrStart = Number(args.hr ?? 110);
+const hrEnd = Number(args['hr-end'] ?? 170);
+const rampMs = Number(args.minutes ?? 20) * 60000;
+
+const relay = createRelay({ port: Number(args.port ?? DEFAULT_PORT), host: args.host });
+await relay.listen().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
+
+const start = Date.now();
+const nextInterval = (beat) => {
+  const hr = hrStart + (hrEnd - hrStart) * Math.min(1, (beat - start) / rampMs);
+  return (60000 / hr) * (1 + JITTER * gaussian());
+};
+let lastBeat = start;
+let interval = nextInterval(start);
+
+const timer = setInterval(() => {
+  const rr = [];
+  while (lastBeat + interval <= Date.now()) {
+    lastBeat += interval;
+    rr.push(Math.round(interval * 10) / 10);
+    interval = nextInterval(lastBeat);
+  }
+  if (rr.length === 0) return;
+  const recent = rr.slice(-5);
+  const hr = Math.round(60000 / (recent.reduce((a, b) => a + b, 0) / recent.length));
+  relay.broadcast({ hr, rr, ts: Math.round(lastBeat) });
+}, TICK_MS);
+
+process.on('SIGINT', () => {
+  clearInterval(timer);
+  relay.close().then(() => process.exit(0));
+});
@@ -0,0 +1,305 @@
+#!/usr/bin/env node
+/**
+ * Relays heart-rate messages to the monitor's stream input, with no
+ * dependencies beyond Node itself. Messages are JSON objects
+ * `{ "hr": 142, "rr": [421.5, 419.0], "ts": 1718000000000 }` and may arrive as
+ *
+ *   - HTTP POST /rr with the JSON body (one object or an array of them);
+ *     browsers may only post from the origin given with --allow-origin,
+ *   - newline-delimited JSON on stdin,
+ *   - text messages, fragmented or not, from any connected WebSocket client
+ *     (binary messages close the connection with 1003).
+ *
+ * Every message is forwarded to all WebSocket clients (ws://host:port/) and
+ * Server-Sent Events clients (http://host:port/events).
+ *
+ * WebSocket clients on ws://host:port/coach form a separate room for the
+ * coach view: any text they send is passed on unchanged to the other members.
+ *
+ *   node scripts/rr-relay.mjs [--port 8765] [--host 127.0.0.1] [--allow-origin https://app.example]
+ *   (--host 0.0.0.0 for LAN peers)
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createInterface } from 'node:readline';
+import { fileURLToPath } from 'node:url';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_BODY_BYTES = 64 * 1024; // Also the largest WebSocket message
+
+// WebSocket close codes (RFC 6455 §7.4.1)
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_UNSUPPORTED_DATA = 1003; // Binary messages; only JSON text is relayed
+const CLOSE_TOO_BIG = 1009;
+
+export const DEFAULT_PORT = 8765;
+
+// Same rules as parseStreamMessage in services/streamSource.ts
+export const isValidMessage = (m) =>
+  typeof m === 'object' && m !== null &&
+  Number.isFinite(m.hr) && m.hr >= 0 &&
+  (m.rr === undefined || (Array.isArray(m.rr) && m.rr.every(v => Number.isFinite(v) && v > 0))) &&
+  (m.ts === undefined || Number.isFinite(m.ts));
+
+// Server-to-client frames are never masked; FIN + opcode, then the length
+const encodeFrame = (payload, opcode = 0x1) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete client frames off the buffer; returns what is left over
+const decodeFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    // Refuse before buffering a frame that could never be accepted
+    if (length > MAX_BODY_BYTES) {
+      onFrame(fin, opcode, null);
+      return Buffer.alloc(0);
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    onFrame(fin, opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+const closeFrame = (code) => {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code);
+  return encodeFrame(payload, 0x8);
+};
+
+export const createRelay = ({ port = DEFAULT_PORT, host = '127.0.0.1', allowOrigin = null, log = console.log } = {}) => {
+  const sockets = new Set();
+  const coachSockets = new Set();
+  const sseClients = new Set();
+
+  const broadcast = (message) => {
+    if (!isValidMessage(message)) return false;
+    const text = JSON.stringify(message);
+    const frame = encodeFrame(Buffer.from(text));
+    for (const socket of sockets) socket.write(frame);
+    for (const res of sseClients) res.write(`data: ${text}\n\n`);
+    return true;
+  };
+
+  const receive = (text) => {
+    let parsed;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return 0;
+    }
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    return messages.filter(broadcast).length;
+  };
+
+  // Tools like curl send no Origin; a browser page must be the one allowed origin.
+  // A plain form POST skips the preflight, so the origin is checked on the POST itself.
+  const mayPost = (req) => req.headers.origin === undefined || (allowOrigin !== null && req.headers.origin === allowOrigin);
+
+  const server = createServer((req, res) => {
+    if (req.method === 'OPTIONS' && req.url === '/rr') {
+      if (allowOrigin === null || req.headers.origin !== allowOrigin) {
+        res.writeHead(403).end();
+        return;
+      }
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': allowOrigin,
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        Vary: 'Origin',
+      }).end();
+    } else if (req.method === 'GET' && req.url === '/events') {
+      // Read-only, and the app is usually served from another origin (vite dev server, PWA)
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.write(': connected\n\n');
+      sseClients.add(res);
+      req.on('close', () => sseClients.delete(res));
+    } else if (req.method === 'POST' && req.url === '/rr') {
+      if (!mayPost(req)) {
+        res.writeHead(403, { 'Content-Type': 'application/json' }).end(JSON.stringify({ accepted: 0 }));
+        return;
+      }
+      if (req.headers.origin !== undefined) res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) req.destroy();
+      });
+      req.on('end', () => {
+        const accepted = receive(body);
+        res.writeHead(accepted > 0 ? 202 : 400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ accepted }));
+      });
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+
+  server.on('upgrade', (req, socket, head) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    );
+    const isCoach = new URL(req.url ?? '/', 'http://relay').pathname === '/coach';
+    const room = isCoach ? coachSockets : sockets;
+    room.add(socket);
+    log(`${isCoach ? 'Coach' : 'WebSocket'} client connected (${room.size})`);
+
+    const forward = (payload) => {
+      const frame = encodeFrame(payload);
+      for (const peer of coachSockets) if (peer !== socket) peer.write(frame);
+    };
+
+    // Fragmented messages (FIN clear, then continuation frames) are joined
+    // before delivery; control frames may arrive between the fragments
+    let pending = Buffer.alloc(0);
+    let message = null; // { opcode, parts, size } while fragments are outstanding
+    let closed = false;
+    const closeWith = (code) => {
+      closed = true;
+      socket.end(closeFrame(code));
+    };
+    const deliver = (opcode, payload) => {
+      if (opcode !== 0x1) closeWith(CLOSE_UNSUPPORTED_DATA);
+      else if (isCoach) forward(payload);
+      else receive(payload.toString('utf8'));
+    };
+    const onData = (chunk) => {
+      if (closed) return;
+      pending = decodeFrames(Buffer.concat([pending, chunk]), (fin, opcode, payload) => {
+        if (closed) return;
+        if (payload === null) return closeWith(CLOSE_TOO_BIG);
+        if (opcode >= 0x8) {
+          if (opcode === 0x9) socket.write(encodeFrame(payload, 0xA));
+          else if (opcode === 0x8) closeWith(CLOSE_NORMAL);
+          return;
+        }
+        // A continuation needs an open message; a new message must not interrupt one
+        if ((opcode === 0x0) !== (message !== null)) return closeWith(CLOSE_PROTOCOL_ERROR);
+        message ??= { opcode, parts: [], size: 0 };
+        message.parts.push(payload);
+        message.size += payload.length;
+        if (message.size > MAX_BODY_BYTES) return closeWith(CLOSE_TOO_BIG);
+        if (!fin) return;
+        const { opcode: messageOpcode, parts } = message;
+        message = null;
+        deliver(messageOpcode, Buffer.concat(parts));
+      });
+    };
+    socket.on('data', onData);
+    // Frames the client sent right behind the handshake
+    if (head?.length) onData(head);
+    const drop = () => {
+      if (room.delete(socket)) log(`${isCoach ? 'Coach' : 'WebSocket'} client left (${room.size})`);
+    };
+    socket.on('close', drop);
+    socket.on('error', drop);
+  });
+
+  // Errors while starting are reported by listen(); later ones must not kill the relay
+  server.on('error', (error) => {
+    if (server.listening) log(`Relay error: ${error.message}`);
+  });
+
+  // Rejects with a readable message when the port is taken or the host is wrong
+  const listen = () => new Promise((resolve, reject) => {
+    const onError = (error) => {
+      if (error.code === 'EADDRINUSE') {
+        reject(new Error(`Port ${port} on ${host} is already in use (another relay or mock-stream?); pick another with --port`));
+      } else if (error.code === 'EADDRNOTAVAIL') {
+        reject(new Error(`${host} is not an address of this machine; use --host 0.0.0.0 to listen on all interfaces`));
+      } else {
+        reject(error);
+      }
+    };
+    server.once('error', onError);
+    server.listen(port, host, () => {
+      server.off('error', onError);
+      const { port: bound } = server.address();
+      log(`Relay on ws://${host}:${bound}/ and http://${host}:${bound}/events (POST /rr to send)`);
+      resolve();
+    });
+  });
+
+  const close = () => new Promise(resolve => {
+    for (const socket of [...sockets, ...coachSockets]) socket.destroy();
+    for (const res of sseClients) res.end();
+    server.close(() => resolve());
+  });
+
+  return { broadcast, receive, listen, close, server };
+};
+
+export const parseArgs = (argv) => {
+  const options = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const name = argv[i].replace(/^--/, '');
+    options[name] = argv[i + 1];
+  }
+  return options;
+};
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const args = parseArgs(process.argv.slice(2));
+  const relay = createRelay({ port: Number(args.port ?? DEFAULT_PORT), host: args.host, allowOrigin: args['allow-origin'] ?? null });
+  await relay.listen().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
+
+  if (!process.stdin.isTTY) {
+    createInterface({ input: process.stdin }).on('line', line => {
+      if (line.trim() && relay.receive(line) === 0) console.warn(`Ignored: ${line}`);
+    });
+  }
+  process.on('SIGINT', () => relay.close().then(() => process.exit(0)));
+}
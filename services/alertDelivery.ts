@@ -0,0 +1,80 @@
+import { AlertEvent, AlertSettings, AlertTrigger } from '../types';
+
+/**
+ * Alert output through Web Audio tones, speech synthesis and vibration.
+ * Each channel is skipped silently where the browser does not support it.
+ */
+
+const DIGITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+// 0.68 -> "point six eight", 1.05 -> "one point zero five"
+export const spokenDecimal = (value: number, decimals = 2): string => {
+  const [whole, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const wholeWords = whole === '0' ? '' : `${whole.split('').map(d => DIGITS[Number(d)]).join(' ')} `;
+  return `${wholeWords}point ${fraction.split('').map(d => DIGITS[Number(d)]).join(' ')}`;
+};
+
+// Beep frequencies in Hz per trigger; falling tones for effort, low for problems
+const TONES: Record<AlertTrigger, number[]> = {
+  belowAerobic: [880, 660],
+  greyZone: [660, 660],
+  hrCap: [990, 990, 990],
+  artifacts: [440, 330],
+  disconnected: [330, 220, 165],
+};
+
+const VIBRATION: Record<AlertTrigger, number[]> = {
+  belowAerobic: [200, 100, 200],
+  greyZone: [400],
+  hrCap: [100, 50, 100, 50, 100],
+  artifacts: [300, 150, 300],
+  disconnected: [600, 200, 600],
+};
+
+const BEEP_S = 0.15;
+const GAP_S = 0.08;
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only start audio after a user gesture; call from a click handler
+export const unlockAudio = () => {
+  if (typeof AudioContext === 'undefined') return;
+  audioContext ??= new AudioContext();
+  if (audioContext.state === 'suspended') audioContext.resume().catch(() => undefined);
+};
+
+const playTones = (frequencies: number[]) => {
+  if (!audioContext) return;
+  let t = audioContext.currentTime;
+  for (const frequency of frequencies) {
+    const osc = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    osc.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, t);
+    gain.gain.exponentialRampToValueAtTime(0.3, t + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, t + BEEP_S);
+    osc.connect(gain).connect(audioContext.destination);
+    osc.start(t);
+    osc.stop(t + BEEP_S);
+    t += BEEP_S + GAP_S;
+  }
+};
+
+const speak = (text: string) => {
+  if (typeof speechSynthesis === 'undefined') return;
+  speechSynthesis.cancel(); // Never queue up stale announcements
+  speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+};
+
+export const deliverAlert = (event: AlertEvent, settings: AlertSettings) => {
+  if (settings.sound) playTones(TONES[event.trigger]);
+  if (settings.speech) speak(event.spoken);
+  if (settings.vibrate && typeof navigator.vibrate === 'function') navigator.vibrate(VIBRATION[event.trigger]);
+};
+
+// Protocol cue, e.g. "stand up" in a resting test; same channels as alerts
+export const announce = (text: string, settings: Pick<AlertSettings, 'sound' | 'speech' | 'vibrate'>) => {
+  if (settings.sound) playTones([660, 880]);
+  if (settings.speech) speak(text);
+  if (settings.vibrate && typeof navigator.vibrate === 'function') navigator.vibrate([300]);
+};
@@ -0,0 +1,127 @@
+import { AlertEvent, AlertSettings, AlertTrigger, AlphaZones } from '../types';
+import { DEFAULT_ALERT_SETTINGS, DEFAULT_ALPHA_ZONES, MAX_ARTIFACT_PERCENT } from '../constants';
+import { spokenDecimal } from './alertDelivery';
+
+// Latest known values; each source updates only the fields it owns
+export interface AlertInput {
+  alpha1: number | null;
+  heartRate: number | null;
+  artifactPercent: number | null;
+  maxArtifactPercent: number;
+  connected: boolean;
+  zones: AlphaZones;
+}
+
+interface TriggerState {
+  armed: boolean;
+  lastFired: number | null;
+}
+
+export const ALERT_LABELS: Record<AlertTrigger, string> = {
+  belowAerobic: 'α1 below AeT',
+  greyZone: 'Too long in grey zone',
+  hrCap: 'HR above cap',
+  artifacts: 'Artifact rate too high',
+  disconnected: 'Sensor disconnected',
+};
+
+const TRIGGERS = Object.keys(ALERT_LABELS) as AlertTrigger[];
+
+const INITIAL_INPUT: AlertInput = {
+  alpha1: null,
+  heartRate: null,
+  artifactPercent: null,
+  maxArtifactPercent: MAX_ARTIFACT_PERCENT,
+  connected: true,
+  zones: DEFAULT_ALPHA_ZONES,
+};
+
+/**
+ * Edge-triggered alerts. A trigger fires when its condition starts to hold,
+ * then stays disarmed until the value moves back past the cut-off by the
+ * hysteresis margin; a per-trigger cooldown limits repeats on top of that.
+ * All times are on the data clock (beat timestamps, the file's clock in
+ * replay), so grey-zone spans and cooldowns never mix with wall time.
+ */
+export class AlertEngine {
+  private settings: AlertSettings;
+  private input: AlertInput = INITIAL_INPUT;
+  private states = {} as Record<AlertTrigger, TriggerState>;
+  private greySince: number | null = null;
+  private dataTime: number | null = null;
+  private onAlert: (event: AlertEvent) => void;
+
+  constructor(onAlert: (event: AlertEvent) => void, settings: AlertSettings = DEFAULT_ALERT_SETTINGS) {
+    this.onAlert = onAlert;
+    this.settings = settings;
+    this.reset();
+  }
+
+  configure(settings: AlertSettings) {
+    this.settings = settings;
+  }
+
+  // New session or user-initiated disconnect: forget all latched state
+  reset() {
+    this.input = INITIAL_INPUT;
+    this.greySince = null;
+    this.dataTime = null;
+    TRIGGERS.forEach(t => { this.states[t] = { armed: true, lastFired: null }; });
+  }
+
+  /**
+   * Undefined fields keep their last value; null clears it. `now` is the
+   * data time of the values; updates without one (connection changes) are
+   * checked at the latest data time, or only stored before any data arrived.
+   */
+  update(values: Partial<AlertInput>, now?: number) {
+    const defined = Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined));
+    this.input = { ...this.input, ...defined };
+    if (now !== undefined) this.dataTime = Math.max(now, this.dataTime ?? now);
+    if (this.dataTime === null) return;
+    this.evaluate(this.dataTime);
+  }
+
+  private evaluate(now: number) {
+    const { alpha1, heartRate, artifactPercent, maxArtifactPercent, connected, zones } = this.input;
+    const { alphaHysteresis, hrCap, hrHysteresis, artifactHysteresis, greyZoneSeconds } = this.settings;
+
+    if (alpha1 !== null) {
+      this.check('belowAerobic', now, alpha1 < zones.aerobic, alpha1 >= zones.aerobic + alphaHysteresis,
+        `α1 ${alpha1.toFixed(2)} below AeT`, `alpha one ${spokenDecimal(alpha1)}`);
+
+      const inGrey = alpha1 >= zones.anaerobic && alpha1 < zones.aerobic;
+      const leftGrey = alpha1 >= zones.aerobic + alphaHysteresis || alpha1 < zones.anaerobic - alphaHysteresis;
+      if (inGrey && this.greySince === null) this.greySince = now;
+      if (leftGrey) this.greySince = null;
+      const greyFor = this.greySince !== null ? now - this.greySince : 0;
+      this.check('greyZone', now, greyFor >= greyZoneSeconds * 1000, leftGrey,
+        `Grey zone for ${Math.round(greyFor / 1000)} s`, `grey zone, alpha one ${spokenDecimal(alpha1)}`);
+    }
+
+    if (heartRate !== null && heartRate > 0) {
+      this.check('hrCap', now, heartRate > hrCap, heartRate <= hrCap - hrHysteresis,
+        `HR ${heartRate} above ${hrCap}`, `heart rate ${heartRate}`);
+    }
+
+    if (artifactPercent !== null) {
+      this.check('artifacts', now, artifactPercent > maxArtifactPercent,
+        artifactPercent <= maxArtifactPercent - artifactHysteresis,
+        `${artifactPercent.toFixed(1)}% artifacts`, 'too many artifacts, check the strap');
+    }
+
+    this.check('disconnected', now, !connected, connected, 'Sensor disconnected', 'sensor disconnected');
+  }
+
+  private check(trigger: AlertTrigger, now: number, condition: boolean, release: boolean, message: string, spoken: string) {
+    const state = this.states[trigger];
+    const rule = this.settings.rules[trigger];
+    if (release) state.armed = true;
+    if (!rule.enabled || !condition || !state.armed) return;
+    if (state.lastFired !== null && now - state.lastFired < rule.cooldownSeconds * 1000) return;
+
+    state.armed = false;
+    state.lastFired = now;
+    this.onAlert({ trigger, timestamp: now, message, spoken });
+  }
+}
@@ -0,0 +1,297 @@
+import { ArtifactCause, ArtifactCorrectionOptions, ArtifactMethod, ArtifactReport, KubiosLevel } from '../types';
+import { ARTIFACT_THRESHOLD_PERCENT } from '../constants';
+
+/**
+ * RR artifact detection and correction strategies.
+ * Every strategy takes raw RR (ms) and returns the corrected series plus a
+ * report of which beats were changed and why.
+ */
+
+export interface CorrectionResult {
+  rr: number[];
+  report: ArtifactReport;
+}
+
+type Corrector = (rr: number[], options: ArtifactCorrectionOptions) => CorrectionResult;
+
+// Physiological Limits (in ms)
+// 300ms = 200bpm (High limit)
+// 1300ms = ~46bpm (Low limit - 2000ms is usually too loose for auto-detection)
+const MIN_RR = 300;
+const MAX_RR = 1300;
+
+// Kubios thresholds in seconds at 60 bpm, scaled by the mean RR
+export const KUBIOS_THRESHOLDS: Record<KubiosLevel, number> = {
+  veryLow: 0.45,
+  low: 0.35,
+  medium: 0.25,
+  strong: 0.15,
+  veryStrong: 0.05,
+};
+
+const KUBIOS_MEDIAN_WIDTH = 11;
+
+// Lipponen & Tarvainen (2019) constants
+const LT_ALPHA = 5.2;
+const LT_WINDOW = 91;
+const LT_MEDIAN_WIDTH = 11;
+const LT_C1 = 0.13;
+const LT_C2 = 0.17;
+
+const buildReport = (method: ArtifactMethod, totalBeats: number, flagged: Map<number, ArtifactCause>): ArtifactReport => {
+  const byCause: Partial<Record<ArtifactCause, number>> = {};
+  for (const cause of flagged.values()) byCause[cause] = (byCause[cause] ?? 0) + 1;
+  return {
+    method,
+    totalBeats,
+    corrected: flagged.size,
+    percent: totalBeats > 0 ? (flagged.size / totalBeats) * 100 : 0,
+    byCause,
+    positions: [...flagged.keys()].sort((a, b) => a - b),
+  };
+};
+
+// Pandas-style rolling quantile: centered window, shrinking at the edges
+const rollingQuantile = (values: number[], width: number, q: number): number[] => {
+  const half = Math.floor(width / 2);
+  return values.map((_, i) => {
+    const w = values.slice(Math.max(0, i - half), i + half + 1).sort((a, b) => a - b);
+    const pos = (w.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return w[lo] + (w[hi] - w[lo]) * (pos - lo);
+  });
+};
+
+const rollingMedian = (values: number[], width: number) => rollingQuantile(values, width, 0.5);
+
+// Replace flagged beats by linear interpolation between the nearest good neighbours
+const interpolateFlagged = (rr: number[], flagged: Set<number>): number[] => {
+  const out = [...rr];
+  for (const i of flagged) {
+    let lo = i - 1;
+    while (lo >= 0 && flagged.has(lo)) lo--;
+    let hi = i + 1;
+    while (hi < rr.length && flagged.has(hi)) hi++;
+    if (lo >= 0 && hi < rr.length) {
+      out[i] = rr[lo] + ((rr[hi] - rr[lo]) * (i - lo)) / (hi - lo);
+    } else if (lo >= 0) {
+      out[i] = rr[lo];
+    } else if (hi < rr.length) {
+      out[i] = rr[hi];
+    }
+  }
+  return out;
+};
+
+/**
+ * Range check plus the "quotient filter": a beat that changes by more than
+ * ARTIFACT_THRESHOLD_PERCENT from the last accepted beat is rejected.
+ * Rejected beats are interpolated, or removed when `drop` is set.
+ */
+const quotientFilter = (rrIntervals: number[], drop: boolean): CorrectionResult => {
+  const method: ArtifactMethod = drop ? 'drop' : 'quotient';
+  const flagged = new Map<number, ArtifactCause>();
+
+  // 1. Safety Checks
+  if (!rrIntervals || rrIntervals.length < 3) {
+    return { rr: rrIntervals || [], report: buildReport(method, rrIntervals?.length ?? 0, flagged) };
+  }
+
+  const filtered: number[] = [];
+
+  for (let i = 0; i < rrIntervals.length; i++) {
+    const val = rrIntervals[i];
+    let isValid = true;
+
+    // 2. Absolute Range Check
+    if (val < MIN_RR || val > MAX_RR) {
+      isValid = false;
+      flagged.set(i, 'range');
+    }
+
+    // 3. Relative Check (The "Quotient Filter")
+    // Compare current beat to the LAST ACCEPTED beat.
+    // A 30% jump between beats is physiologically impossible during normal rhythm.
+    if (isValid && filtered.length > 0) {
+      const prev = filtered[filtered.length - 1];
+      const diff = Math.abs(val - prev);
+      const percentChange = diff / prev;
+
+      if (percentChange > ARTIFACT_THRESHOLD_PERCENT) {
+        isValid = false;
+        flagged.set(i, 'quotient');
+      }
+    }
+
+    // 4. Handling: Accept, Drop or Interpolate
+    if (isValid) {
+      filtered.push(val);
+    } else if (!drop) {
+      // ARTIFACT CORRECTION STRATEGY: Linear Interpolation
+      // We do not 'continue' (skip), because that deletes time.
+      // We replace the bad value to keep the timeline intact.
+
+      const prev = filtered.length > 0 ? filtered[filtered.length - 1] : null;
+      const next = (i + 1 < rrIntervals.length) ? rrIntervals[i + 1] : null;
+
+      if (prev && next) {
+        // Best case: Average the previous valid beat and the next raw beat
+        const interpolated = (prev + next) / 2;
+        filtered.push(interpolated);
+      } else if (prev) {
+        // Edge case (End of array): Clamp to previous value
+        filtered.push(prev);
+      }
+      // Edge case (Start of array): If index 0 is bad, we skip it.
+    }
+  }
+
+  return { rr: filtered, report: buildReport(method, rrIntervals.length, flagged) };
+};
+
+/**
+ * Kubios threshold-based correction: beats further than the level's
+ * threshold from the local median are replaced. Kubios interpolates with a
+ * cubic spline; linear interpolation is used here.
+ */
+const kubiosThreshold = (rr: number[], level: KubiosLevel): CorrectionResult => {
+  const flagged = new Map<number, ArtifactCause>();
+  if (rr.length < 3) return { rr, report: buildReport('kubios', rr.length, flagged) };
+
+  const meanRR = rr.reduce((a, b) => a + b, 0) / rr.length;
+  const threshold = KUBIOS_THRESHOLDS[level] * 1000 * (meanRR / 1000);
+  const median = rollingMedian(rr, KUBIOS_MEDIAN_WIDTH);
+
+  rr.forEach((value, i) => {
+    if (Math.abs(value - median[i]) > threshold) flagged.set(i, 'threshold');
+  });
+
+  return { rr: interpolateFlagged(rr, new Set(flagged.keys())), report: buildReport('kubios', rr.length, flagged) };
+};
+
+// Threshold = alpha * quartile deviation of |x| over a moving window
+const timeVaryingThreshold = (values: number[]): number[] => {
+  const abs = values.map(Math.abs);
+  const q1 = rollingQuantile(abs, LT_WINDOW, 0.25);
+  const q3 = rollingQuantile(abs, LT_WINDOW, 0.75);
+  return q1.map((lo, i) => LT_ALPHA * ((q3[i] - lo) / 2));
+};
+
+/**
+ * Lipponen & Tarvainen (2019) beat classification. Works on the normalized
+ * successive differences (dRRs) and deviations from the local median (mRRs)
+ * and sorts artifacts into ectopic, missed, extra and long/short beats.
+ */
+export const classifyLipponen = (rr: number[]): Map<number, ArtifactCause> => {
+  const flagged = new Map<number, ArtifactCause>();
+  const n = rr.length;
+  if (n < 4) return flagged;
+
+  const drr = rr.map((v, i) => (i === 0 ? 0 : v - rr[i - 1]));
+  drr[0] = drr.slice(1).reduce((a, b) => a + b, 0) / (n - 1);
+  const th1 = timeVaryingThreshold(drr);
+  const drrs = drr.map((v, i) => (th1[i] > 0 ? v / th1[i] : 0));
+
+  // Reflect-pad by two so the subspace lookups near the edges are defined
+  const padded = [drrs[2], drrs[1], ...drrs, drrs[n - 2], drrs[n - 3]];
+  const at = (i: number) => padded[i + 2];
+  const s12 = drrs.map((d, i) => (d > 0 ? Math.max(at(i - 1), at(i + 1)) : d < 0 ? Math.min(at(i - 1), at(i + 1)) : 0));
+  const s22 = drrs.map((d, i) => (d >= 0 ? Math.min(at(i + 1), at(i + 2)) : Math.max(at(i + 1), at(i + 2))));
+
+  const medrr = rollingMedian(rr, LT_MEDIAN_WIDTH);
+  const mrr = rr.map((v, i) => {
+    const m = v - medrr[i];
+    return m < 0 ? m * 2 : m;
+  });
+  const th2 = timeVaryingThreshold(mrr);
+  const mrrs = mrr.map((v, i) => (th2[i] > 0 ? v / th2[i] : 0));
+
+  for (let i = 0; i < n - 2; i++) {
+    if (Math.abs(drrs[i]) <= 1) continue;
+
+    const ectopicLong = drrs[i] > 1 && s12[i] < -LT_C1 * drrs[i] - LT_C2;
+    const ectopicShort = drrs[i] < -1 && s12[i] > -LT_C1 * drrs[i] + LT_C2;
+    if (ectopicLong || ectopicShort) {
+      flagged.set(i, 'ectopic');
+      continue;
+    }
+
+    // The next beat is looked at as well when its own jump is the smaller one.
+    // The loop still advances one beat at a time, so that beat also gets its
+    // own ectopic check next: skipping it would miss adjacent artifacts.
+    const candidates = [i];
+    if (Math.abs(drrs[i + 1]) < Math.abs(drrs[i + 2])) candidates.push(i + 1);
+
+    for (const j of candidates) {
+      const isLong = drrs[j] > 1 && s22[j] < -1;
+      const isShort = drrs[j] < -1 && s22[j] > 1;
+      const farFromMedian = Math.abs(mrrs[j]) > 3;
+      if (!isLong && !isShort && !farFromMedian) continue;
+
+      const isMissed = Math.abs(rr[j] / 2 - medrr[j]) < th2[j];
+      const isExtra = j + 1 < n && Math.abs(rr[j] + rr[j + 1] - medrr[j]) < th2[j];
+
+      if (isShort && isExtra) flagged.set(j, 'extra');
+      else if (isLong && isMissed) flagged.set(j, 'missed');
+      else flagged.set(j, 'longShort');
+    }
+  }
+
+  return flagged;
+};
+
+/**
+ * Corrects beats classified by Lipponen & Tarvainen: extra beats are merged
+ * with the following interval, missed beats are split in two, and ectopic
+ * or long/short beats are interpolated.
+ */
+const lipponenTarvainen = (rr: number[]): CorrectionResult => {
+  const flagged = classifyLipponen(rr);
+  // The second half of an extra beat is merged away, not corrected separately
+  for (const [i, cause] of [...flagged]) {
+    if (cause === 'extra') flagged.delete(i + 1);
+  }
+  const interpolate = new Set([...flagged].filter(([, c]) => c === 'ectopic' || c === 'longShort').map(([i]) => i));
+  const smoothed = interpolateFlagged(rr, interpolate);
+
+  const out: number[] = [];
+  for (let i = 0; i < smoothed.length; i++) {
+    const cause = flagged.get(i);
+    if (cause === 'extra' && i + 1 < smoothed.length) {
+      out.push(rr[i] + rr[i + 1]);
+      i++;
+    } else if (cause === 'missed') {
+      out.push(smoothed[i] / 2, smoothed[i] / 2);
+    } else {
+      out.push(smoothed[i]);
+    }
+  }
+
+  return { rr: out, report: buildReport('lipponen', rr.length, flagged) };
+};
+
+export const ARTIFACT_CORRECTORS: Record<ArtifactMethod, Corrector> = {
+  quotient: rr => quotientFilter(rr, false),
+  drop: rr => quotientFilter(rr, true),
+  kubios: (rr, options) => kubiosThreshold(rr, options.kubiosLevel),
+  lipponen: rr => lipponenTarvainen(rr),
+};
+
+export const ARTIFACT_METHOD_LABELS: Record<ArtifactMethod, string> = {
+  quotient: 'Quotient filter',
+  kubios: 'Kubios threshold',
+  lipponen: 'Lipponen & Tarvainen',
+  drop: 'Drop beats',
+};
+
+export const KUBIOS_LEVEL_LABELS: Record<KubiosLevel, string> = {
+  veryLow: 'Very low',
+  low: 'Low',
+  medium: 'Medium',
+  strong: 'Strong',
+  veryStrong: 'Very strong',
+};
+
+export const correctArtifacts = (rr: number[], options: ArtifactCorrectionOptions): CorrectionResult =>
+  ARTIFACT_CORRECTORS[options.method](rr, options);
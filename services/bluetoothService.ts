@@ -1,4 +1,44 @@
-import { SERVICE_HEART_RATE, CHAR_HEART_RATE_MEASUREMENT } from '../constants';
+import {
+  SERVICE_HEART_RATE,
+  CHAR_HEART_RATE_MEASUREMENT,
+  SERVICE_CYCLING_POWER,
+  CHAR_CYCLING_POWER_MEASUREMENT,
+  SERVICE_RUNNING_SPEED_CADENCE,
+  CHAR_RSC_MEASUREMENT,
+  SERVICE_FITNESS_MACHINE,
+  CHAR_INDOOR_BIKE_DATA,
+  CHAR_FTMS_CONTROL_POINT,
+  FTMS_RESPONSE_TIMEOUT_MS,
+  SERVICE_POLAR_PMD,
+  CHAR_PMD_CONTROL_POINT,
+  CHAR_PMD_DATA,
+  PMD_RESPONSE_TIMEOUT_MS,
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+  RECONNECT_MAX_ATTEMPTS,
+} from '../constants';
+import { DataCallback, HeartRateDataSource, StatusCallback } from './dataSource';
+import { CyclingPowerMeasurement, crankCadence, parseCyclingPower, parseRsc } from './sensorParsers';
+import {
+  RESULT_SUCCESS,
+  describeResult,
+  encodeRequestControl,
+  encodeSetTargetPower,
+  encodeStartOrResume,
+  parseControlPointResponse,
+  parseIndoorBikeData,
+} from './ftmsProtocol';
+import {
+  ECG_SAMPLE_RATE_HZ,
+  PMD_SUCCESS,
+  describePmdStatus,
+  encodeStartEcg,
+  parseEcgFrame,
+  parsePmdControlResponse,
+} from './pmdProtocol';
+import { PanTompkinsDetector } from './qrsDetector';
+import { heartRateFromRR } from './replayService';
+import { SensorKind, SensorReading } from '../types';
 
 // Web Bluetooth API Type Definitions
 interface BluetoothRequestDeviceFilter {
@@ -77,42 +117,43 @@ declare global {
   }
 }
 
-type DataCallback = (hr: number, rrIntervals: number[]) => void;
-type StatusCallback = (isConnected: boolean, error?: string) => void;
-
-export class BluetoothMonitor {
-  private device: BluetoothDevice | null = null;
+/**
+ * One GATT peripheral exposing a notifying measurement characteristic.
+ * Picks the device once, then reconnects to the same device with
+ * exponential backoff whenever the link drops without the user asking.
+ */
+abstract class GattSource {
+  protected device: BluetoothDevice | null = null;
   private server: BluetoothRemoteGATTServer | null = null;
-  private onData: DataCallback;
   private onStatus: StatusCallback;
+  private userDisconnected = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(onData: DataCallback, onStatus: StatusCallback) {
-    this.onData = onData;
+  constructor(
+    private service: string | number,
+    private characteristicId: string | number,
+    onStatus: StatusCallback,
+  ) {
     this.onStatus = onStatus;
   }
 
   async connect() {
     try {
-      this.device = await navigator.bluetooth.requestDevice({
-        filters: [{ services: [SERVICE_HEART_RATE] }]
-      });
+      this.cancelReconnect();
+      this.userDisconnected = false;
+
+      const device = await navigator.bluetooth.requestDevice(this.requestOptions());
 
-      if (!this.device) {
+      if (!device) {
         throw new Error("No device selected");
       }
 
+      this.device?.removeEventListener('gattserverdisconnected', this.handleDisconnect);
+      this.device = device;
       this.device.addEventListener('gattserverdisconnected', this.handleDisconnect);
 
-      if (!this.device.gatt) {
-        throw new Error("GATT not available on device");
-      }
-
-      this.server = await this.device.gatt.connect();
-      const service = await this.server.getPrimaryService(SERVICE_HEART_RATE);
-      const characteristic = await service.getCharacteristic(CHAR_HEART_RATE_MEASUREMENT);
-
-      await characteristic.startNotifications();
-      characteristic.addEventListener('characteristicvaluechanged', this.handleCharacteristicValueChanged);
+      await this.connectGatt();
 
       this.onStatus(true);
       console.log('Bluetooth connected');
@@ -123,19 +164,105 @@ export class BluetoothMonitor {
   }
 
   disconnect() {
+    this.userDisconnected = true;
+    this.cancelReconnect();
     if (this.device && this.device.gatt?.connected) {
       this.device.gatt.disconnect();
+    } else if (this.reconnectAttempt > 0) {
+      this.reconnectAttempt = 0;
+      this.onStatus(false);
+    }
+  }
+
+  protected abstract handleValue(value: DataView): void;
+
+  // Chooser filter; vendor services that are not advertised override this
+  protected requestOptions(): RequestDeviceOptions {
+    return { filters: [{ services: [this.service] }] };
+  }
+
+  // Extra setup once notifications are running, on every (re)connect
+  protected async onConnected(_service: BluetoothRemoteGATTService): Promise<void> {}
+
+  // (Re)connects to the already chosen device; no chooser prompt involved
+  private async connectGatt() {
+    if (!this.device?.gatt) {
+      throw new Error("GATT not available on device");
     }
+
+    this.server = await this.device.gatt.connect();
+    const service = await this.server.getPrimaryService(this.service);
+    const characteristic = await service.getCharacteristic(this.characteristicId);
+
+    await characteristic.startNotifications();
+    characteristic.removeEventListener('characteristicvaluechanged', this.handleCharacteristicValueChanged);
+    characteristic.addEventListener('characteristicvaluechanged', this.handleCharacteristicValueChanged);
+    await this.onConnected(service);
   }
 
   private handleDisconnect = () => {
     console.log('Device disconnected');
-    this.onStatus(false);
+    if (this.userDisconnected) {
+      this.onStatus(false);
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  // Exponential backoff: 1 s, 2 s, 4 s ... capped, until the attempt limit
+  private scheduleReconnect() {
+    if (this.reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+      this.reconnectAttempt = 0;
+      this.onStatus(false, `Lost connection to ${this.device?.name || 'the sensor'}`);
+      return;
+    }
+
+    this.reconnectAttempt++;
+    this.onStatus(false, undefined, this.reconnectAttempt);
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempt - 1), RECONNECT_MAX_DELAY_MS);
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.userDisconnected) return;
+      try {
+        await this.connectGatt();
+        this.reconnectAttempt = 0;
+        this.onStatus(true);
+        console.log('Bluetooth reconnected');
+      } catch (error) {
+        console.warn('Reconnect attempt failed:', error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
   }
 
   private handleCharacteristicValueChanged = (event: Event) => {
     const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
     if (!value) return;
+    this.handleValue(value);
+  }
+}
+
+export class BluetoothMonitor extends GattSource implements HeartRateDataSource {
+  private onData: DataCallback;
+
+  constructor(onData: DataCallback, onStatus: StatusCallback) {
+    super(SERVICE_HEART_RATE, CHAR_HEART_RATE_MEASUREMENT, onStatus);
+    this.onData = onData;
+  }
+
+  get label(): string {
+    return this.device?.name || 'HR Monitor';
+  }
+
+  protected handleValue(value: DataView) {
     this.parseHeartRate(value);
   }
 
@@ -175,4 +302,235 @@ export class BluetoothMonitor {
 
     this.onData(heartRate, rrIntervals);
   }
-}
\ No newline at end of file
+}
+
+// Beyond this the ECG stream is treated as interrupted and beat timing restarts
+const ECG_FRAME_GAP_S = 0.5;
+const POLAR_H10_NAME_PREFIX = 'Polar H10';
+
+type EcgCallback = (samples: number[]) => void;
+
+/**
+ * Polar H10 raw ECG over the PMD service. R peaks are detected in the
+ * browser, so RR intervals carry the 130 Hz sample timing refined between
+ * samples instead of the strap's own 1/1024 s values.
+ */
+export class PolarEcgSource extends GattSource implements HeartRateDataSource {
+  private detector = new PanTompkinsDetector(ECG_SAMPLE_RATE_HZ);
+  private controlPoint: BluetoothRemoteGATTCharacteristic | null = null;
+  private pendingStart: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private lastFrameTime: number | null = null; // Device clock, ns
+  private sampleCount = 0; // Samples fed to the detector since its last reset
+  private wallAnchor = 0; // Wall-clock time of detector sample 0
+  private lastPeak: number | null = null;
+  private recentRR: number[] = [];
+
+  constructor(private onData: DataCallback, onStatus: StatusCallback, private onEcg: EcgCallback) {
+    super(SERVICE_POLAR_PMD, CHAR_PMD_DATA, onStatus);
+  }
+
+  get label(): string {
+    return this.device?.name || 'Polar H10 (ECG)';
+  }
+
+  // PMD is not advertised, so the chooser matches on the name instead
+  protected requestOptions(): RequestDeviceOptions {
+    return { filters: [{ namePrefix: POLAR_H10_NAME_PREFIX }], optionalServices: [SERVICE_POLAR_PMD] };
+  }
+
+  protected async onConnected(service: BluetoothRemoteGATTService) {
+    this.restartTiming();
+    this.controlPoint = await service.getCharacteristic(CHAR_PMD_CONTROL_POINT);
+    await this.controlPoint.startNotifications();
+    this.controlPoint.removeEventListener('characteristicvaluechanged', this.handleControlPointResponse);
+    this.controlPoint.addEventListener('characteristicvaluechanged', this.handleControlPointResponse);
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingStart = null;
+        reject(new Error('Strap did not answer the ECG start request'));
+      }, PMD_RESPONSE_TIMEOUT_MS);
+      this.pendingStart = {
+        resolve: () => { clearTimeout(timer); resolve(); },
+        reject: error => { clearTimeout(timer); reject(error); },
+      };
+      this.controlPoint!.writeValue(encodeStartEcg()).catch(error => {
+        this.pendingStart = null;
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  protected handleValue(value: DataView) {
+    const frame = parseEcgFrame(value);
+    if (!frame || frame.samples.length === 0) return;
+    const now = Date.now();
+    const frameSeconds = frame.samples.length / ECG_SAMPLE_RATE_HZ;
+
+    // Lost or late frames would shift every later beat, so start over
+    if (this.lastFrameTime !== null) {
+      const drift = (frame.timestamp - this.lastFrameTime) / 1e9 - frameSeconds;
+      if (Math.abs(drift) > ECG_FRAME_GAP_S) this.restartTiming();
+    }
+    if (this.sampleCount === 0) {
+      this.wallAnchor = now - ((frame.samples.length - 1) / ECG_SAMPLE_RATE_HZ) * 1000;
+    }
+    this.lastFrameTime = frame.timestamp;
+    this.sampleCount += frame.samples.length;
+    this.onEcg(frame.samples);
+
+    const rrIntervals: number[] = [];
+    let lastBeatTime = now;
+    for (const peak of this.detector.push(frame.samples)) {
+      if (this.lastPeak !== null) rrIntervals.push(((peak - this.lastPeak) / ECG_SAMPLE_RATE_HZ) * 1000);
+      this.lastPeak = peak;
+      lastBeatTime = this.wallAnchor + (peak / ECG_SAMPLE_RATE_HZ) * 1000;
+    }
+    if (rrIntervals.length === 0) return;
+
+    this.recentRR = [...this.recentRR, ...rrIntervals].slice(-5);
+    this.onData(heartRateFromRR(this.recentRR), rrIntervals, Math.round(lastBeatTime));
+  }
+
+  private restartTiming() {
+    this.detector.reset();
+    this.lastFrameTime = null;
+    this.sampleCount = 0;
+    this.lastPeak = null;
+    this.recentRR = [];
+  }
+
+  private handleControlPointResponse = (event: Event) => {
+    const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+    const response = value && parsePmdControlResponse(value);
+    const pending = this.pendingStart;
+    if (!response || !pending) return;
+
+    this.pendingStart = null;
+    if (response.status === PMD_SUCCESS) pending.resolve();
+    else pending.reject(new Error(`ECG stream refused: ${describePmdStatus(response.status)}`));
+  }
+}
+
+const SENSOR_SERVICES: Record<SensorKind, [number, number]> = {
+  power: [SERVICE_CYCLING_POWER, CHAR_CYCLING_POWER_MEASUREMENT],
+  footpod: [SERVICE_RUNNING_SPEED_CADENCE, CHAR_RSC_MEASUREMENT],
+  trainer: [SERVICE_FITNESS_MACHINE, CHAR_INDOOR_BIKE_DATA],
+};
+
+export const SENSOR_LABELS: Record<SensorKind, string> = {
+  power: 'Power Meter',
+  footpod: 'Footpod',
+  trainer: 'Smart Trainer',
+};
+
+type ReadingCallback = (reading: SensorReading) => void;
+
+// Cycling power meter or running footpod, paired alongside the HR strap
+export class BluetoothSensor extends GattSource {
+  private lastPower: CyclingPowerMeasurement | null = null;
+
+  constructor(
+    readonly kind: SensorKind,
+    private onReading: ReadingCallback,
+    onStatus: StatusCallback,
+  ) {
+    super(...SENSOR_SERVICES[kind], onStatus);
+  }
+
+  get label(): string {
+    return this.device?.name || SENSOR_LABELS[this.kind];
+  }
+
+  protected handleValue(value: DataView) {
+    const timestamp = Date.now();
+    if (this.kind === 'power') {
+      const measurement = parseCyclingPower(value);
+      const cadence = this.lastPower ? crankCadence(this.lastPower, measurement) : null;
+      this.lastPower = measurement;
+      this.onReading({ kind: 'power', timestamp, power: measurement.power, cadence: cadence ?? undefined });
+    } else if (this.kind === 'footpod') {
+      const { speed, cadence } = parseRsc(value);
+      this.onReading({ kind: 'footpod', timestamp, speed, cadence });
+    } else {
+      // Trainer speed is virtual wheel speed, not running pace, so it is not reported
+      const { power, cadence } = parseIndoorBikeData(value);
+      if (power !== undefined) this.onReading({ kind: 'trainer', timestamp, power, cadence });
+    }
+  }
+}
+
+interface PendingCommand {
+  opCode: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * FTMS smart trainer: reports power like a power meter and accepts ERG
+ * targets through the Control Point. Commands are serialized and each one
+ * waits for its indication; the last target is re-applied after a reconnect.
+ */
+export class FitnessMachine extends BluetoothSensor {
+  private controlPoint: BluetoothRemoteGATTCharacteristic | null = null;
+  private pending: PendingCommand | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private targetWatts: number | null = null;
+
+  constructor(onReading: ReadingCallback, onStatus: StatusCallback) {
+    super('trainer', onReading, onStatus);
+  }
+
+  setTargetPower(watts: number): Promise<void> {
+    this.targetWatts = watts;
+    return this.command(encodeSetTargetPower(watts));
+  }
+
+  protected async onConnected(service: BluetoothRemoteGATTService) {
+    this.controlPoint = await service.getCharacteristic(CHAR_FTMS_CONTROL_POINT);
+    await this.controlPoint.startNotifications();
+    this.controlPoint.removeEventListener('characteristicvaluechanged', this.handleControlPointResponse);
+    this.controlPoint.addEventListener('characteristicvaluechanged', this.handleControlPointResponse);
+
+    await this.command(encodeRequestControl());
+    await this.command(encodeStartOrResume());
+    if (this.targetWatts !== null) await this.command(encodeSetTargetPower(this.targetWatts));
+  }
+
+  private command(bytes: Uint8Array): Promise<void> {
+    const run = () => new Promise<void>((resolve, reject) => {
+      if (!this.controlPoint) {
+        reject(new Error('Trainer not connected'));
+        return;
+      }
+      const opCode = bytes[0];
+      const timer = setTimeout(() => {
+        this.pending = null;
+        reject(new Error(`Trainer did not answer op code 0x${opCode.toString(16)}`));
+      }, FTMS_RESPONSE_TIMEOUT_MS);
+      this.pending = { opCode, resolve, reject, timer };
+      this.controlPoint.writeValue(bytes).catch(error => {
+        clearTimeout(timer);
+        this.pending = null;
+        reject(error);
+      });
+    });
+    const result = this.queue.then(run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private handleControlPointResponse = (event: Event) => {
+    const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+    const response = value && parseControlPointResponse(value);
+    const pending = this.pending;
+    if (!response || !pending || response.requestOpCode !== pending.opCode) return;
+
+    clearTimeout(pending.timer);
+    this.pending = null;
+    if (response.result === RESULT_SUCCESS) pending.resolve();
+    else pending.reject(new Error(describeResult(response.result)));
+  }
+}
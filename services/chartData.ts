@@ -0,0 +1,137 @@
+import { AlphaZones, DFADataPoint, SessionReport } from '../types';
+import { timeInZone } from './sessionReport';
+
+/**
+ * Helpers for the history chart: elapsed-time labels, alpha1 smoothing,
+ * downsampling of long sessions and statistics for a selected range.
+ */
+
+export type AlphaSmoothing = 'none' | 'movingAverage' | 'loess';
+
+export const SMOOTHING_LABELS: Record<AlphaSmoothing, string> = {
+  none: 'Raw',
+  movingAverage: 'Moving avg',
+  loess: 'LOESS',
+};
+
+// Points drawn per chart; enough for a sharp line at any screen width
+export const MAX_CHART_POINTS = 600;
+
+// "m:ss" below an hour, "h:mm:ss" from there on
+export const formatElapsed = (ms: number): string => {
+  const totalSec = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = String(totalSec % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Smoothed alpha1 for every point, over a centred time window. Low quality
+ * windows are left out of the fit but still receive a smoothed value.
+ * LOESS fits a tricube-weighted local line, which follows ramps without the
+ * lag a plain average shows at their ends.
+ */
+export const smoothAlpha = (points: DFADataPoint[], method: AlphaSmoothing, windowMs: number): (number | null)[] => {
+  if (method === 'none') return points.map(p => p.alpha1);
+  const valid = points.filter(p => !p.lowQuality);
+  const half = windowMs / 2;
+  let lo = 0;
+  let hi = 0;
+
+  return points.map(p => {
+    while (lo < valid.length && valid[lo].timestamp < p.timestamp - half) lo++;
+    while (hi < valid.length && valid[hi].timestamp <= p.timestamp + half) hi++;
+    const near = valid.slice(lo, hi);
+    if (near.length === 0) return null;
+    if (method === 'movingAverage') return near.reduce((a, q) => a + q.alpha1, 0) / near.length;
+
+    let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+    for (const q of near) {
+      const x = (q.timestamp - p.timestamp) / 1000;
+      const d = Math.abs(q.timestamp - p.timestamp) / (half || 1);
+      const w = (1 - d ** 3) ** 3;
+      sw += w; sx += w * x; sy += w * q.alpha1; sxx += w * x * x; sxy += w * x * q.alpha1;
+    }
+    if (sw === 0) return near.reduce((a, q) => a + q.alpha1, 0) / near.length;
+    const denom = sw * sxx - sx * sx;
+    // Degenerate spread (a single timestamp): fall back to the weighted mean
+    if (Math.abs(denom) < 1e-9) return sy / sw;
+    const slope = (sw * sxy - sx * sy) / denom;
+    return (sy - slope * sx) / sw; // Fitted value at x = 0
+  });
+};
+
+/**
+ * Largest-Triangle-Three-Buckets on alpha1: keeps the points that shape
+ * the line while cutting the count to roughly `threshold`. Low quality
+ * points are always kept so their markers survive.
+ */
+export const downsample = <T extends DFADataPoint>(points: T[], threshold: number = MAX_CHART_POINTS): T[] => {
+  if (points.length <= threshold || threshold < 3) return points;
+  const sampled: T[] = [points[0]];
+  const bucketSize = (points.length - 2) / (threshold - 2);
+  let a = 0;
+
+  for (let i = 0; i < threshold - 2; i++) {
+    const start = Math.floor(i * bucketSize) + 1;
+    const end = Math.min(Math.floor((i + 1) * bucketSize) + 1, points.length - 1);
+    const nextEnd = Math.min(Math.floor((i + 2) * bucketSize) + 1, points.length);
+
+    // Average of the next bucket is the third triangle corner
+    let avgX = 0, avgY = 0;
+    const nextCount = Math.max(1, nextEnd - end);
+    for (let j = end; j < nextEnd; j++) { avgX += points[j].timestamp; avgY += points[j].alpha1; }
+    avgX /= nextCount; avgY /= nextCount;
+
+    let best = start;
+    let bestArea = -1;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs(
+        (points[a].timestamp - avgX) * (points[j].alpha1 - points[a].alpha1)
+        - (points[a].timestamp - points[j].timestamp) * (avgY - points[a].alpha1),
+      );
+      if (area > bestArea) { bestArea = area; best = j; }
+    }
+    for (let j = start; j < end; j++) {
+      if (j === best || points[j].lowQuality) sampled.push(points[j]);
+    }
+    a = best;
+  }
+  sampled.push(points[points.length - 1]);
+  return sampled;
+};
+
+export interface RangeStats {
+  durationMs: number;
+  points: number;
+  meanHeartRate: number | null;
+  meanAlpha1: number | null; // Low quality windows excluded
+  minAlpha1: number | null;
+  maxAlpha1: number | null;
+  meanPower: number | null;
+  meanSpeed: number | null;
+  meanRespiratoryRate: number | null;
+  breathingFlagged: number; // Points with a breathing confound
+  timeInZone: SessionReport['timeInZone'];
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+export const rangeStats = (points: DFADataPoint[], start: number, end: number, zones: AlphaZones, pointIntervalMs: number): RangeStats => {
+  const inRange = points.filter(p => p.timestamp >= start && p.timestamp <= end);
+  const alphas = inRange.filter(p => !p.lowQuality).map(p => p.alpha1);
+  return {
+    durationMs: Math.max(0, end - start),
+    points: inRange.length,
+    meanHeartRate: mean(inRange.map(p => p.heartRate).filter(hr => hr > 0)),
+    meanAlpha1: mean(alphas),
+    minAlpha1: alphas.length > 0 ? Math.min(...alphas) : null,
+    maxAlpha1: alphas.length > 0 ? Math.max(...alphas) : null,
+    meanPower: mean(inRange.map(p => p.power).filter((v): v is number => v !== undefined)),
+    meanSpeed: mean(inRange.map(p => p.speed).filter((v): v is number => v !== undefined)),
+    meanRespiratoryRate: mean(inRange.map(p => p.respiratoryRate).filter((v): v is number => v !== undefined)),
+    breathingFlagged: inRange.filter(p => p.breathingConfound).length,
+    timeInZone: timeInZone(inRange, pointIntervalMs, zones),
+  };
+};
@@ -0,0 +1,204 @@
+import { CoachChannelSettings, CoachMessage, CoachStatus } from '../types';
+import {
+  COACH_CHANNEL_NAME,
+  COACH_HEARTBEAT_MS,
+  DEFAULT_COACH_RELAY_URL,
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+} from '../constants';
+
+/**
+ * Live status sharing between athlete monitors and the coach dashboard.
+ * Same-machine tabs use a BroadcastChannel; across the LAN, every peer
+ * connects to the /coach room of scripts/rr-relay.mjs, which forwards each
+ * message to the other members.
+ */
+
+// Publishing and watching are remembered separately, so a browser can do both
+const SETTINGS_KEYS = {
+  publish: 'dfa-a1-monitor.coachChannel',
+  subscribe: 'dfa-a1-monitor.coachDashboardChannel',
+};
+const PUBLISHER_ID_KEY = 'dfa-a1-monitor.coachPublisherId';
+
+export const DEFAULT_COACH_CHANNEL: CoachChannelSettings = { mode: 'off', relayUrl: DEFAULT_COACH_RELAY_URL };
+
+type MessageHandler = (message: CoachMessage) => void;
+
+interface CoachTransport {
+  send(message: CoachMessage): void;
+  close(): void;
+}
+
+type ChannelRole = keyof typeof SETTINGS_KEYS;
+
+export const getCoachChannelSettings = (role: ChannelRole, fallback = DEFAULT_COACH_CHANNEL): CoachChannelSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEYS[role]);
+    return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const setCoachChannelSettings = (role: ChannelRole, settings: CoachChannelSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEYS[role], JSON.stringify(settings));
+  } catch {
+    // Storage disabled (private mode); the choice just isn't remembered
+  }
+};
+
+// Identifies this tab on the dashboard. Kept in sessionStorage, which is per
+// tab but survives a reload, so tabs on one machine get separate tiles
+export const getPublisherId = (): string => {
+  try {
+    let id = sessionStorage.getItem(PUBLISHER_ID_KEY);
+    if (!id) {
+      id = `monitor-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      sessionStorage.setItem(PUBLISHER_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return `monitor-${Math.random().toString(36).slice(2, 10)}`;
+  }
+};
+
+const isCoachMessage = (data: unknown): data is CoachMessage => {
+  if (typeof data !== 'object' || data === null) return false;
+  const message = data as Partial<CoachMessage>;
+  if (message.type === 'leave') return typeof message.athleteId === 'string';
+  return message.type === 'status' && typeof message.status?.athleteId === 'string';
+};
+
+class BroadcastTransport implements CoachTransport {
+  private channel = new BroadcastChannel(COACH_CHANNEL_NAME);
+
+  constructor(onMessage?: MessageHandler) {
+    if (onMessage) {
+      this.channel.onmessage = (event: MessageEvent) => {
+        if (isCoachMessage(event.data)) onMessage(event.data);
+      };
+    }
+  }
+
+  send(message: CoachMessage) {
+    this.channel.postMessage(message);
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+// Retries until closed; messages sent while the relay is away are dropped
+class RelayTransport implements CoachTransport {
+  private socket: WebSocket | null = null;
+  private closed = false;
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private url: string, private onMessage?: MessageHandler) {
+    this.open();
+  }
+
+  send(message: CoachMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  close() {
+    this.closed = true;
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer);
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+    }
+  }
+
+  private open() {
+    try {
+      this.socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('Coach relay:', error);
+      return;
+    }
+    this.socket.onopen = () => { this.attempt = 0; };
+    this.socket.onmessage = (event: MessageEvent) => {
+      if (!this.onMessage || typeof event.data !== 'string') return;
+      try {
+        const data = JSON.parse(event.data);
+        if (isCoachMessage(data)) this.onMessage(data);
+      } catch {
+        // Not ours
+      }
+    };
+    this.socket.onclose = () => {
+      if (this.closed) return;
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.attempt++, RECONNECT_MAX_DELAY_MS);
+      this.retryTimer = setTimeout(() => this.open(), delay);
+    };
+  }
+}
+
+const openTransport = (settings: CoachChannelSettings, onMessage?: MessageHandler): CoachTransport | null => {
+  if (settings.mode === 'local') {
+    return typeof BroadcastChannel === 'undefined' ? null : new BroadcastTransport(onMessage);
+  }
+  if (settings.mode === 'relay') return new RelayTransport(settings.relayUrl, onMessage);
+  return null;
+};
+
+/**
+ * Athlete side. Sends each new status right away and repeats the last one
+ * on a heartbeat, so a dashboard opened mid-session fills in within seconds
+ * and a silent tile can be told apart from a quiet athlete.
+ */
+export class CoachPublisher {
+  private transport: CoachTransport | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private last: CoachStatus | null = null;
+  private readonly athleteId = getPublisherId();
+
+  configure(settings: CoachChannelSettings) {
+    this.stop();
+    this.transport = openTransport(settings);
+    if (!this.transport) return;
+    this.heartbeat = setInterval(() => {
+      if (this.last) this.send({ ...this.last, timestamp: Date.now(), point: null });
+    }, COACH_HEARTBEAT_MS);
+  }
+
+  publish(status: Omit<CoachStatus, 'athleteId'>) {
+    this.last = { ...status, athleteId: this.athleteId };
+    this.send(this.last);
+  }
+
+  stop() {
+    if (this.heartbeat !== null) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    this.transport?.send({ type: 'leave', athleteId: this.athleteId });
+    this.transport?.close();
+    this.transport = null;
+  }
+
+  private send(status: CoachStatus) {
+    this.transport?.send({ type: 'status', status });
+  }
+}
+
+// Dashboard side
+export class CoachSubscriber {
+  private transport: CoachTransport | null = null;
+
+  constructor(private onMessage: MessageHandler) {}
+
+  configure(settings: CoachChannelSettings) {
+    this.stop();
+    this.transport = openTransport(settings, this.onMessage);
+  }
+
+  stop() {
+    this.transport?.close();
+    this.transport = null;
+  }
+}
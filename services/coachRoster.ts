@@ -0,0 +1,113 @@
+import { AlertEvent, AlertSettings, CoachAthlete, CoachMessage } from '../types';
+import { COACH_SPARKLINE_MS, COACH_STALE_MS, DEFAULT_ALERT_SETTINGS } from '../constants';
+import { AlertEngine } from './alertEngine';
+
+type RosterCallback = (athletes: CoachAthlete[]) => void;
+type CoachAlertCallback = (athlete: CoachAthlete, event: AlertEvent) => void;
+
+/**
+ * The coach dashboard's view of every publishing monitor. Each athlete gets
+ * their own AlertEngine fed with their own zones, so threshold alerts follow
+ * each athlete's AeT rather than one group-wide cut-off. A tile that stops
+ * hearing from its monitor is marked stale and raises the disconnect alert.
+ */
+export class CoachRoster {
+  private athletes = new Map<string, CoachAthlete>();
+  private engines = new Map<string, AlertEngine>();
+  private settings: AlertSettings = DEFAULT_ALERT_SETTINGS;
+
+  constructor(private onChange: RosterCallback, private onAlert: CoachAlertCallback) {}
+
+  configure(settings: AlertSettings) {
+    this.settings = settings;
+    this.engines.forEach(engine => engine.configure(settings));
+  }
+
+  handleMessage = (message: CoachMessage, now: number = Date.now()) => {
+    if (message.type === 'leave') {
+      this.athletes.delete(message.athleteId);
+      this.engines.delete(message.athleteId);
+      this.emit();
+      return;
+    }
+
+    const { status } = message;
+    const previous = this.athletes.get(status.athleteId);
+    let history = previous?.history ?? [];
+    if (status.point && status.point.timestamp > (history[history.length - 1]?.timestamp ?? -Infinity)) {
+      const cutoff = status.point.timestamp - COACH_SPARKLINE_MS;
+      history = [...history.filter(p => p.timestamp >= cutoff), status.point];
+    }
+    const athlete: CoachAthlete = {
+      status,
+      history,
+      lastSeen: now,
+      stale: false,
+      alertsEnabled: previous?.alertsEnabled ?? true,
+      lastAlert: previous?.lastAlert ?? null,
+    };
+    this.athletes.set(status.athleteId, athlete);
+
+    this.engine(status.athleteId).update({
+      alpha1: status.alpha1,
+      heartRate: status.heartRate,
+      artifactPercent: status.artifactPercent,
+      maxArtifactPercent: status.maxArtifactPercent,
+      // Like the monitor itself, only a loss during a session counts as a disconnect
+      connected: status.connected || !status.recording,
+      zones: status.zones,
+    }, now);
+    this.emit();
+  }
+
+  // Call periodically: marks monitors that went quiet
+  tick(now: number = Date.now()) {
+    let changed = false;
+    this.athletes.forEach((athlete, id) => {
+      const stale = now - athlete.lastSeen > COACH_STALE_MS;
+      if (stale === athlete.stale) return;
+      athlete.stale = stale;
+      changed = true;
+      if (athlete.status.recording) this.engine(id).update({ connected: !stale }, now);
+    });
+    if (changed) this.emit();
+  }
+
+  setAlertsEnabled(athleteId: string, enabled: boolean) {
+    const athlete = this.athletes.get(athleteId);
+    if (!athlete) return;
+    athlete.alertsEnabled = enabled;
+    this.emit();
+  }
+
+  remove(athleteId: string) {
+    this.athletes.delete(athleteId);
+    this.engines.delete(athleteId);
+    this.emit();
+  }
+
+  private engine(athleteId: string): AlertEngine {
+    let engine = this.engines.get(athleteId);
+    if (!engine) {
+      engine = new AlertEngine(event => this.handleAlert(athleteId, event), this.settings);
+      this.engines.set(athleteId, engine);
+    }
+    return engine;
+  }
+
+  private handleAlert(athleteId: string, event: AlertEvent) {
+    const athlete = this.athletes.get(athleteId);
+    if (!athlete || !athlete.alertsEnabled) return;
+    const { name } = athlete.status;
+    const named = { ...event, message: `${name}: ${event.message}`, spoken: `${name}, ${event.spoken}` };
+    athlete.lastAlert = named;
+    this.onAlert(athlete, named);
+  }
+
+  private emit() {
+    const athletes = [...this.athletes.values()]
+      .map(a => ({ ...a }))
+      .sort((a, b) => a.status.name.localeCompare(b.status.name));
+    this.onChange(athletes);
+  }
+}
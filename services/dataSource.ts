@@ -0,0 +1,15 @@
+/**
+ * Common contract for anything that produces heart-rate/RR data:
+ * Bluetooth straps, the simulator, and future adapters.
+ */
+
+// `timestamp` is the source's clock for the last beat; defaults to arrival time
+export type DataCallback = (hr: number, rrIntervals: number[], timestamp?: number) => void;
+// `reconnectAttempt` > 0 while the source is trying to restore a lost link
+export type StatusCallback = (isConnected: boolean, error?: string, reconnectAttempt?: number) => void;
+
+export interface HeartRateDataSource {
+  readonly label: string; // Shown as the device name
+  connect(): Promise<void>;
+  disconnect(): void;
+}
@@ -0,0 +1,88 @@
+import { summarizeSession } from './sessionSummary';
+
+/**
+ * Shared IndexedDB handle. Every store lives in one database so upgrades
+ * happen in a single place.
+ */
+
+const DB_NAME = 'dfa-a1-monitor';
+const DB_VERSION = 4;
+export const STORE_SESSIONS = 'sessions';
+// One small record per session, so listing never loads the beat series
+export const STORE_SESSION_SUMMARIES = 'sessionSummaries';
+export const STORE_PROFILES = 'profiles';
+export const STORE_RESTING_TESTS = 'restingTests';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_SESSIONS)) {
+          const store = db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+          store.createIndex('startTime', 'startTime');
+        }
+        if (!db.objectStoreNames.contains(STORE_PROFILES)) {
+          db.createObjectStore(STORE_PROFILES, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_RESTING_TESTS)) {
+          const store = db.createObjectStore(STORE_RESTING_TESTS, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORE_SESSION_SUMMARIES)) {
+          const summaries = db.createObjectStore(STORE_SESSION_SUMMARIES, { keyPath: 'id' });
+          summaries.createIndex('startTime', 'startTime');
+          // Sessions saved before summaries existed, summarized once here
+          if (event.oldVersion > 0) {
+            const cursor = request.transaction!.objectStore(STORE_SESSIONS).openCursor();
+            cursor.onsuccess = () => {
+              if (!cursor.result) return;
+              summaries.put(summarizeSession(cursor.result.value));
+              cursor.result.continue();
+            };
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Several writes across stores that succeed or fail together
+export const runTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => void,
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    fn(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,79 @@
+import { analyzeDfaWindow } from './dfaService';
+import { breathingConfound, estimateRespiration } from './respiration';
+import { WindowingEngine } from './windowingEngine';
+import { ArtifactReport, DFADataPoint, SessionSettings } from '../types';
+import { DEFAULT_SESSION_SETTINGS } from '../constants';
+
+export interface PipelineUpdate {
+  alpha1: number | null;
+  alpha2: number | null;
+  artifacts: ArtifactReport | null;
+  point: DFADataPoint | null; // Set only when a new history point is due
+  settlingMs: number; // Remaining settling time after a sharp HR change
+  gap: boolean; // This packet followed a dropout; the window restarted
+}
+
+export type PipelineOptions = SessionSettings;
+
+export const DEFAULT_PIPELINE_OPTIONS: PipelineOptions = DEFAULT_SESSION_SETTINGS;
+
+/**
+ * RR beats -> windowing -> preprocessRR -> alpha1 + breathing -> history.
+ * Shared by live sensors and file replay so both produce identical results.
+ * Time is always passed in, which lets replay run on the file's own clock.
+ */
+export class DfaPipeline {
+  private options: PipelineOptions;
+  private windowing: WindowingEngine;
+
+  constructor(options: Partial<PipelineOptions> = {}) {
+    this.options = { ...DEFAULT_PIPELINE_OPTIONS, ...options };
+    this.windowing = new WindowingEngine(this.options);
+  }
+
+  configure(options: Partial<PipelineOptions>) {
+    this.options = { ...this.options, ...options };
+    this.windowing.configure(options);
+  }
+
+  reset() {
+    this.windowing.reset();
+  }
+
+  push(hr: number, rrIntervals: number[], now: number): PipelineUpdate {
+    if (rrIntervals.length === 0) {
+      return { alpha1: null, alpha2: null, artifacts: null, point: null, settlingMs: this.windowing.settlingRemainingMs(now), gap: false };
+    }
+
+    const { maxArtifactPercent, artifactHandling, artifactCorrection, dfa } = this.options;
+    const gap = this.windowing.addBeats(rrIntervals, now, hr);
+
+    const settlingMs = this.windowing.settlingRemainingMs(now);
+    const window = this.windowing.nextWindow(now);
+    if (!window) return { alpha1: null, alpha2: null, artifacts: null, point: null, settlingMs, gap };
+
+    const { alpha1, alpha2, artifacts, cleanRR } = analyzeDfaWindow(window.rr, artifactCorrection, dfa);
+    if (alpha1 === null) return { alpha1: null, alpha2: null, artifacts, point: null, settlingMs, gap };
+
+    const lowQuality = artifacts.percent > maxArtifactPercent;
+    if (lowQuality && artifactHandling === 'drop') return { alpha1, alpha2, artifacts, point: null, settlingMs, gap };
+
+    // Breathing only annotates history points, so it is estimated for those alone
+    const respiration = estimateRespiration(cleanRR);
+    const respiratoryRate = respiration?.rate ?? null;
+    const confound = respiration ? breathingConfound(respiration, dfa) : null;
+    const point: DFADataPoint = {
+      timestamp: now,
+      alpha1,
+      heartRate: hr,
+      artifacts,
+      lowQuality,
+      windowStart: window.start,
+      ...(alpha2 !== null && { alpha2 }),
+      dfaOptions: dfa,
+      ...(respiratoryRate !== null && { respiratoryRate }),
+      ...(confound !== null && { breathingConfound: confound }),
+    };
+    return { alpha1, alpha2, artifacts, point, settlingMs, gap };
+  }
+}
@@ -1,146 +1,231 @@
 /**
  * Detrended Fluctuation Analysis (DFA) Alpha 1 implementation
- * Specialized for short-term scaling exponent (alpha 1) of HRV data.
+ * Specialized for short-term scaling exponent (alpha 1) of HRV data,
+ * with optional long-term exponent (alpha 2).
  */
 
-// Simple linear regression to find slope
-const linearRegression = (x: number[], y: number[]) => {
-  const n = x.length;
-  let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
+import { ArtifactCorrectionOptions, ArtifactReport, DfaOptions } from '../types';
+import { DEFAULT_SESSION_SETTINGS } from '../constants';
+import { correctArtifacts, CorrectionResult } from './artifactCorrection';
 
-  for (let i = 0; i < n; i++) {
-    sumX += x[i];
-    sumY += y[i];
-    sumXY += x[i] * y[i];
-    sumXX += x[i] * x[i];
+export type PreprocessResult = CorrectionResult;
+
+// Scratch buffer for the integrated series, reused across calls so the
+// hot path performs no per-box or per-window allocations.
+let integratedScratch = new Float64Array(512);
+
+const ensureScratch = (length: number): Float64Array => {
+  if (integratedScratch.length < length) {
+    integratedScratch = new Float64Array(Math.max(length, integratedScratch.length * 2));
+  }
+  return integratedScratch;
+};
+
+/**
+ * Discrete orthogonal polynomials on x = 0..n-1 up to the detrending order,
+ * built with the three-term (Stieltjes) recurrence. Projecting a box onto
+ * this basis gives the least-squares polynomial fit in closed form:
+ * residual SS = sum(y^2) - sum_j <y, p_j>^2 / |p_j|^2.
+ * Cached per (n, order); only the first use of a box size allocates.
+ */
+interface PolyBasis {
+  values: Float64Array; // (order + 1) rows of n values
+  norms: Float64Array; // |p_j|^2
+}
+
+const basisCache = new Map<number, PolyBasis>();
+
+const getBasis = (n: number, order: number): PolyBasis => {
+  const key = n * 8 + order;
+  const cached = basisCache.get(key);
+  if (cached) return cached;
+
+  const values = new Float64Array((order + 1) * n);
+  const norms = new Float64Array(order + 1);
+  for (let k = 0; k < n; k++) values[k] = 1;
+  norms[0] = n;
+
+  for (let j = 0; j < order; j++) {
+    let a = 0;
+    for (let k = 0; k < n; k++) a += k * values[j * n + k] ** 2;
+    a /= norms[j];
+    const b = j > 0 ? norms[j] / norms[j - 1] : 0;
+
+    let norm = 0;
+    for (let k = 0; k < n; k++) {
+      const prev = j > 0 ? values[(j - 1) * n + k] : 0;
+      const v = (k - a) * values[j * n + k] - b * prev;
+      values[(j + 1) * n + k] = v;
+      norm += v * v;
+    }
+    norms[j + 1] = norm;
   }
 
-  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-  const intercept = (sumY - slope * sumX) / n;
+  const basis = { values, norms };
+  basisCache.set(key, basis);
+  return basis;
+};
 
-  return { slope, intercept };
+// Residual sum of squares of one box after polynomial detrending
+const boxResidualSq = (integrated: Float64Array, start: number, n: number, basis: PolyBasis, order: number): number => {
+  let sumYY = 0;
+  for (let k = 0; k < n; k++) {
+    const y = integrated[start + k];
+    sumYY += y * y;
+  }
+  let explained = 0;
+  for (let j = 0; j <= order; j++) {
+    let proj = 0;
+    const row = j * n;
+    for (let k = 0; k < n; k++) proj += integrated[start + k] * basis.values[row + k];
+    explained += (proj * proj) / basis.norms[j];
+  }
+  return Math.max(0, sumYY - explained);
 };
 
 // Calculate RMS fluctuation for a given box size
-const calculateF_n = (integratedSeries: number[], boxSize: number): number => {
-  const N = integratedSeries.length;
-  const numBoxes = Math.floor(N / boxSize);
+const calculateF_n = (integrated: Float64Array, N: number, boxSize: number, options: DfaOptions): number => {
+  const order = options.detrendOrder;
+  const basis = getBasis(boxSize, order);
   let totalResidualSq = 0;
+  let boxes = 0;
 
-  for (let i = 0; i < numBoxes; i++) {
-    const start = i * boxSize;
-    const end = start + boxSize;
-    const segmentY = integratedSeries.slice(start, end);
-    const segmentX = Array.from({ length: boxSize }, (_, k) => k); // 0, 1, ... boxSize-1
-
-    // Detrend: Linear fit
-    const { slope, intercept } = linearRegression(segmentX, segmentY);
-
-    // Calculate residuals
-    for (let k = 0; k < boxSize; k++) {
-      const trend = slope * k + intercept;
-      const residual = segmentY[k] - trend;
-      totalResidualSq += residual * residual;
+  if (options.boxPlacement === 'sliding') {
+    const step = Math.max(1, Math.floor(options.slidingStep));
+    for (let start = 0; start + boxSize <= N; start += step) {
+      totalResidualSq += boxResidualSq(integrated, start, boxSize, basis, order);
+      boxes++;
+    }
+  } else {
+    const numBoxes = Math.floor(N / boxSize);
+    for (let i = 0; i < numBoxes; i++) {
+      totalResidualSq += boxResidualSq(integrated, i * boxSize, boxSize, basis, order);
+      boxes++;
+    }
+    // Second pass from the end covers the remainder the forward pass drops
+    if (options.boxPlacement === 'forwardBackward') {
+      for (let i = 0; i < numBoxes; i++) {
+        totalResidualSq += boxResidualSq(integrated, N - (i + 1) * boxSize, boxSize, basis, order);
+        boxes++;
+      }
     }
   }
 
   // F(n) = sqrt(1/N * sum(residuals^2))
   // Standard definition typically divides by N (total length) or numBoxes * boxSize
-  return Math.sqrt(totalResidualSq / (numBoxes * boxSize));
+  return boxes > 0 ? Math.sqrt(totalResidualSq / (boxes * boxSize)) : 0;
 };
 
-export const preprocessRR = (rrIntervals: number[]): number[] => {
-  // 1. Safety Checks
-  if (!rrIntervals || rrIntervals.length < 3) return rrIntervals || [];
-
-  const filtered: number[] = [];
-
-  // Physiological Limits (in ms)
-  // 300ms = 200bpm (High limit)
-  // 1300ms = ~46bpm (Low limit - 2000ms is usually too loose for auto-detection)
-  const MIN_RR = 300;
-  const MAX_RR = 1300;
-
-  for (let i = 0; i < rrIntervals.length; i++) {
-    const val = rrIntervals[i];
-    let isValid = true;
-
-    // 2. Absolute Range Check
-    if (val < MIN_RR || val > MAX_RR) {
-      isValid = false;
-    }
-
-    // 3. Relative Check (The "Quotient Filter")
-    // Compare current beat to the LAST ACCEPTED beat.
-    // A 30% jump between beats is physiologically impossible during normal rhythm.
-    if (isValid && filtered.length > 0) {
-      const prev = filtered[filtered.length - 1];
-      const diff = Math.abs(val - prev);
-      const percentChange = diff / prev;
+// Box sizes for a range, either every integer or log-spaced (rounded, unique)
+export const boxSizesFor = (min: number, max: number, spacing: DfaOptions['boxSpacing'], logCount: number): number[] => {
+  const lo = Math.max(3, Math.round(min));
+  const hi = Math.max(lo, Math.round(max));
+  if (spacing === 'linear' || logCount < 2) {
+    return Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+  }
+  const sizes = new Set<number>();
+  const ratio = Math.log(hi / lo) / (logCount - 1);
+  for (let i = 0; i < logCount; i++) sizes.add(Math.round(lo * Math.exp(ratio * i)));
+  return [...sizes].sort((a, b) => a - b);
+};
 
-      if (percentChange > 0.3) {
-        isValid = false;
-      }
-    }
+interface ScaleRange {
+  sizes: number[];
+  logSizes: number[];
+}
+
+let rangeCacheKey = '';
+let rangeCache: { short: ScaleRange; long: ScaleRange } | null = null;
+
+const toRange = (sizes: number[]): ScaleRange => ({ sizes, logSizes: sizes.map(n => Math.log10(n)) });
+
+const scaleRanges = (options: DfaOptions) => {
+  const key = [
+    options.minBoxSize, options.maxBoxSize, options.boxSpacing, options.logBoxCount,
+    options.alpha2MinBoxSize, options.alpha2MaxBoxSize,
+  ].join(':');
+  if (key !== rangeCacheKey || !rangeCache) {
+    rangeCacheKey = key;
+    rangeCache = {
+      short: toRange(boxSizesFor(options.minBoxSize, options.maxBoxSize, options.boxSpacing, options.logBoxCount)),
+      long: toRange(boxSizesFor(options.alpha2MinBoxSize, options.alpha2MaxBoxSize, options.boxSpacing, options.logBoxCount)),
+    };
+  }
+  return rangeCache;
+};
 
-    // 4. Handling: Accept or Interpolate
-    if (isValid) {
-      filtered.push(val);
-    } else {
-      // ARTIFACT CORRECTION STRATEGY: Linear Interpolation
-      // We do not 'continue' (skip), because that deletes time.
-      // We replace the bad value to keep the timeline intact.
-
-      const prev = filtered.length > 0 ? filtered[filtered.length - 1] : null;
-      const next = (i + 1 < rrIntervals.length) ? rrIntervals[i + 1] : null;
-
-      if (prev && next) {
-        // Best case: Average the previous valid beat and the next raw beat
-        const interpolated = (prev + next) / 2;
-        filtered.push(interpolated);
-      } else if (prev) {
-        // Edge case (End of array): Clamp to previous value
-        filtered.push(prev);
-      }
-      // Edge case (Start of array): If index 0 is bad, we skip it.
+// Slope of log10(F(n)) vs log10(n), fitted on the fly without arrays
+const scalingExponent = (integrated: Float64Array, N: number, range: ScaleRange, options: DfaOptions): number | null => {
+  let count = 0, sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
+  for (let b = 0; b < range.sizes.length; b++) {
+    const n = range.sizes[b];
+    // A box must hold more points than the detrending polynomial has terms
+    if (n <= options.detrendOrder + 1 || n > N) continue;
+    const Fn = calculateF_n(integrated, N, n, options);
+    if (Fn > 0) {
+      const x = range.logSizes[b];
+      const y = Math.log10(Fn);
+      count++;
+      sumX += x;
+      sumY += y;
+      sumXY += x * y;
+      sumXX += x * x;
     }
   }
-
-  return filtered;
+  if (count < 2) return null;
+  return (count * sumXY - sumX * sumY) / (count * sumXX - sumX * sumX);
 };
 
-export const calculateDfaAlpha1 = (rrIntervals: number[]): number | null => {
-  // 1. Preprocess
-  const cleanRR = preprocessRR(rrIntervals);
+// Artifact correction with the chosen strategy; defaults to the quotient filter
+export const preprocessRR = (
+  rrIntervals: number[],
+  options: ArtifactCorrectionOptions = DEFAULT_SESSION_SETTINGS.artifactCorrection,
+): PreprocessResult => correctArtifacts(rrIntervals, options);
 
-  // Need minimum data points
-  if (cleanRR.length < 50) return null;
+export interface Exponents {
+  alpha1: number | null;
+  alpha2: number | null;
+}
 
-  // 2. Integrate the series: y(k) = sum(rr[i] - meanRR)
-  const meanRR = cleanRR.reduce((a, b) => a + b, 0) / cleanRR.length;
-  const integratedSeries: number[] = [];
-  let currentSum = 0;
-  for (const rr of cleanRR) {
-    currentSum += (rr - meanRR);
-    integratedSeries.push(currentSum);
-  }
+// Exponents of an already corrected series; analyzeDfaWindow is the usual entry point
+export const exponentsFromCleanRR = (cleanRR: number[], options: DfaOptions = DEFAULT_SESSION_SETTINGS.dfa): Exponents => {
+  // Need minimum data points
+  const N = cleanRR.length;
+  if (N < 50) return { alpha1: null, alpha2: null };
 
-  // 3. Calculate F(n) for different box sizes
-  // For Alpha 1 (short term), typical range is n = 4 to 16
-  const boxSizes = [4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
-  const logN: number[] = [];
-  const logFn: number[] = [];
+  // Integrate the series: y(k) = sum(rr[i] - meanRR)
+  let meanRR = 0;
+  for (let i = 0; i < N; i++) meanRR += cleanRR[i];
+  meanRR /= N;
 
-  for (const n of boxSizes) {
-    const Fn = calculateF_n(integratedSeries, n);
-    if (Fn > 0) {
-      logN.push(Math.log10(n));
-      logFn.push(Math.log10(Fn));
-    }
+  const integrated = ensureScratch(N);
+  let currentSum = 0;
+  for (let i = 0; i < N; i++) {
+    currentSum += (cleanRR[i] - meanRR);
+    integrated[i] = currentSum;
   }
 
-  // 4. Slope of log(F(n)) vs log(n) is alpha 1
-  const { slope } = linearRegression(logN, logFn);
+  const ranges = scaleRanges(options);
+  return {
+    alpha1: scalingExponent(integrated, N, ranges.short, options),
+    alpha2: options.computeAlpha2 ? scalingExponent(integrated, N, ranges.long, options) : null,
+  };
+};
 
-  return slope;
+export interface DfaWindowResult extends Exponents {
+  artifacts: ArtifactReport;
+  cleanRR: number[]; // The corrected beats the exponents came from
+}
+
+// Preprocess + exponents in one pass, keeping the artifact report and corrected beats for the caller
+export const analyzeDfaWindow = (
+  rrIntervals: number[],
+  correction: ArtifactCorrectionOptions = DEFAULT_SESSION_SETTINGS.artifactCorrection,
+  dfa: DfaOptions = DEFAULT_SESSION_SETTINGS.dfa,
+): DfaWindowResult => {
+  const { rr, report } = preprocessRR(rrIntervals, correction);
+  return { ...exponentsFromCleanRR(rr, dfa), artifacts: report, cleanRR: rr };
 };
+
+export const calculateDfaAlpha1 = (rrIntervals: number[]): number | null =>
+  analyzeDfaWindow(rrIntervals).alpha1;
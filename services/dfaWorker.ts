@@ -0,0 +1,33 @@
+/// <reference lib="webworker" />
+import { DfaPipeline } from './dfaPipeline';
+import { DfaWorkerRequest, DfaWorkerResponse } from './dfaWorkerProtocol';
+
+/**
+ * Runs the DFA pipeline off the main thread so the Bluetooth notification
+ * handler never waits for preprocessing, detrending or regression.
+ */
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+const pipeline = new DfaPipeline();
+
+const reply = (message: DfaWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<DfaWorkerRequest>) => {
+  const msg = event.data;
+  switch (msg.type) {
+    case 'configure':
+      pipeline.configure(msg.options);
+      break;
+    case 'reset':
+      pipeline.reset();
+      break;
+    case 'push':
+      try {
+        const update = pipeline.push(msg.hr, msg.rrIntervals, msg.now);
+        reply({ type: 'update', seq: msg.seq, hr: msg.hr, now: msg.now, update });
+      } catch (error: any) {
+        reply({ type: 'error', seq: msg.seq, message: error?.message || 'DFA calculation failed' });
+      }
+      break;
+  }
+};
@@ -0,0 +1,71 @@
+import { DfaPipeline, PipelineOptions, PipelineUpdate } from './dfaPipeline';
+import { DfaWorkerRequest, DfaWorkerResponse } from './dfaWorkerProtocol';
+
+type UpdateCallback = (update: PipelineUpdate, hr: number, now: number) => void;
+
+/**
+ * Main-thread handle to the DFA pipeline. Uses a Web Worker where available
+ * and falls back to running the pipeline inline (same results, same API).
+ */
+export class DfaWorkerClient {
+  private worker: Worker | null = null;
+  private inline: DfaPipeline | null = null;
+  private seq = 0;
+  private staleUpTo = 0; // Updates for pushes made before the last reset are dropped
+  private onUpdate: UpdateCallback;
+
+  constructor(onUpdate: UpdateCallback, options: Partial<PipelineOptions> = {}) {
+    this.onUpdate = onUpdate;
+
+    if (typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('./dfaWorker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = this.handleMessage;
+        this.post({ type: 'configure', options });
+        return;
+      } catch (error) {
+        console.warn('DFA worker unavailable, computing on main thread:', error);
+        this.worker = null;
+      }
+    }
+    this.inline = new DfaPipeline(options);
+  }
+
+  configure(options: Partial<PipelineOptions>) {
+    if (this.worker) this.post({ type: 'configure', options });
+    else this.inline?.configure(options);
+  }
+
+  reset() {
+    this.staleUpTo = this.seq;
+    if (this.worker) this.post({ type: 'reset' });
+    else this.inline?.reset();
+  }
+
+  push(hr: number, rrIntervals: number[], now: number) {
+    if (this.worker) {
+      this.post({ type: 'push', seq: ++this.seq, hr, rrIntervals, now });
+    } else if (this.inline) {
+      this.onUpdate(this.inline.push(hr, rrIntervals, now), hr, now);
+    }
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private post(message: DfaWorkerRequest) {
+    this.worker!.postMessage(message);
+  }
+
+  private handleMessage = (event: MessageEvent<DfaWorkerResponse>) => {
+    const msg = event.data;
+    if (msg.seq <= this.staleUpTo) return;
+    if (msg.type === 'update') {
+      this.onUpdate(msg.update, msg.hr, msg.now);
+    } else {
+      console.error('DFA worker error:', msg.message);
+    }
+  };
+}
@@ -0,0 +1,15 @@
+import { PipelineOptions, PipelineUpdate } from './dfaPipeline';
+
+/**
+ * Messages between the main thread and the DFA worker.
+ * Every `push` carries a sequence number that is echoed in its update.
+ */
+
+export type DfaWorkerRequest =
+  | { type: 'configure'; options: Partial<PipelineOptions> }
+  | { type: 'reset' }
+  | { type: 'push'; seq: number; hr: number; rrIntervals: number[]; now: number };
+
+export type DfaWorkerResponse =
+  | { type: 'update'; seq: number; hr: number; now: number; update: PipelineUpdate }
+  | { type: 'error'; seq: number; message: string };
@@ -0,0 +1,121 @@
+import { AlphaZones, ErgRampFinishReason, ErgRampSettings, ErgRampState } from '../types';
+import { DEFAULT_ALPHA_ZONES } from '../constants';
+import { PipelineUpdate } from './dfaPipeline';
+
+// Anything that accepts an ERG target; the FTMS trainer in production
+export interface ErgTrainer {
+  setTargetPower(watts: number): Promise<void>;
+}
+
+export const IDLE_ERG_RAMP: ErgRampState = {
+  status: 'idle',
+  step: 0,
+  targetWatts: 0,
+  startedAt: null,
+  stepStartedAt: null,
+  waitingForSettle: false,
+  belowSince: null,
+  endedAt: null,
+  finishReason: null,
+  error: null,
+};
+
+/**
+ * Automated ERG ramp driven by DFA pipeline updates. A step lasts at least
+ * `stepSeconds` and then holds until a settled window lies entirely within
+ * it; the ramp ends once alpha1 stays below AnT for `stopBelowSeconds`.
+ * After finishing, the trainer drops back to the start power for cool-down.
+ */
+export class ErgRampController {
+  private state: ErgRampState = IDLE_ERG_RAMP;
+  private settings: ErgRampSettings | null = null;
+  private zones: AlphaZones = DEFAULT_ALPHA_ZONES;
+  private trainer: ErgTrainer;
+  private onChange: (state: ErgRampState) => void;
+
+  constructor(trainer: ErgTrainer, onChange: (state: ErgRampState) => void) {
+    this.trainer = trainer;
+    this.onChange = onChange;
+  }
+
+  get current(): ErgRampState {
+    return this.state;
+  }
+
+  async start(settings: ErgRampSettings, now: number, zones: AlphaZones = DEFAULT_ALPHA_ZONES) {
+    this.settings = settings;
+    this.zones = zones;
+    this.setState({
+      ...IDLE_ERG_RAMP,
+      status: 'running',
+      step: 1,
+      targetWatts: settings.startWatts,
+      startedAt: now,
+      stepStartedAt: now,
+    });
+    await this.applyTarget(settings.startWatts, now);
+  }
+
+  abort(now: number) {
+    if (this.state.status === 'running') this.finish('aborted', now);
+  }
+
+  // Feed every pipeline update; `now` is the data clock of the update
+  update({ point, settlingMs }: PipelineUpdate, now: number) {
+    const settings = this.settings;
+    if (this.state.status !== 'running' || !settings || this.state.stepStartedAt === null) return;
+
+    let belowSince = this.state.belowSince;
+    if (point && !point.lowQuality) {
+      belowSince = point.alpha1 < this.zones.anaerobic ? belowSince ?? point.timestamp : null;
+    }
+    if (belowSince !== null && now - belowSince >= settings.stopBelowSeconds * 1000) {
+      this.setState({ ...this.state, belowSince });
+      this.finish('threshold', now);
+      return;
+    }
+
+    const stepDone = now - this.state.stepStartedAt >= settings.stepSeconds * 1000;
+    const windowInStep = point?.windowStart !== undefined && point.windowStart >= this.state.stepStartedAt;
+    if (!stepDone || !windowInStep || settlingMs > 0) {
+      this.setState({ ...this.state, belowSince, waitingForSettle: stepDone });
+      return;
+    }
+
+    const targetWatts = this.state.targetWatts + settings.stepWatts;
+    if (targetWatts > settings.maxWatts) {
+      this.setState({ ...this.state, belowSince });
+      this.finish('maxPower', now);
+      return;
+    }
+    this.setState({
+      ...this.state,
+      step: this.state.step + 1,
+      targetWatts,
+      stepStartedAt: now,
+      waitingForSettle: false,
+      belowSince,
+    });
+    this.applyTarget(targetWatts, now);
+  }
+
+  private async applyTarget(watts: number, now: number) {
+    try {
+      await this.trainer.setTargetPower(watts);
+    } catch (error: any) {
+      if (this.state.status === 'running') this.finish('error', now, error.message || 'Trainer rejected the target');
+    }
+  }
+
+  private finish(reason: ErgRampFinishReason, now: number, error: string | null = null) {
+    this.setState({ ...this.state, status: 'finished', waitingForSettle: false, endedAt: now, finishReason: reason, error });
+    if (reason !== 'error' && this.settings) {
+      this.trainer.setTargetPower(this.settings.startWatts).catch(err => console.warn('Cool-down target failed:', err));
+    }
+  }
+
+  private setState(state: ErgRampState) {
+    this.state = state;
+    this.onChange(state);
+  }
+}
@@ -0,0 +1,112 @@
+import { RecordedSession, SessionReport } from '../types';
+import { renderReportHtml } from './reportHtml';
+import { computeLaps } from './laps';
+import { toFitActivity } from './fitActivity';
+
+/**
+ * Serializers for offline re-analysis of a recorded session.
+ */
+
+export const SESSION_FORMAT_VERSION = 1;
+
+const fileStem = (session: RecordedSession) =>
+  `dfa-session-${new Date(session.startTime).toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+
+// Kubios HRV reads plain text with one RR interval (ms) per line
+export const toKubiosText = (session: RecordedSession): string =>
+  session.rrIntervals.map(rr => Math.round(rr.intervalMs)).join('\n') + '\n';
+
+// Quotes free text such as lap labels when it could break the row
+const csvText = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+export const toHistoryCsv = (session: RecordedSession): string => {
+  const header = 'timestamp,elapsed_s,heart_rate_bpm,alpha1,alpha2,artifact_pct,low_quality,power_w,speed_mps,cadence,lap,lap_label,resp_rate_per_min,breathing_flag';
+  const laps = computeLaps(session);
+  const lapAt = (t: number) => [...laps].reverse().find(l => l.start <= t);
+  const rows = session.history.map(p => [
+    new Date(p.timestamp).toISOString(),
+    ((p.timestamp - session.startTime) / 1000).toFixed(1),
+    p.heartRate,
+    p.alpha1.toFixed(4),
+    p.alpha2 !== undefined ? p.alpha2.toFixed(4) : '',
+    p.artifacts ? p.artifacts.percent.toFixed(2) : '',
+    p.lowQuality ? 1 : 0,
+    p.power ?? '',
+    p.speed ?? '',
+    p.cadence ?? '',
+    lapAt(p.timestamp)?.index ?? '',
+    csvText(lapAt(p.timestamp)?.label ?? ''),
+    p.respiratoryRate !== undefined ? p.respiratoryRate.toFixed(1) : '',
+    p.breathingConfound ?? '',
+  ].join(','));
+  return [header, ...rows].join('\n') + '\n';
+};
+
+export const toLapsCsv = (session: RecordedSession): string => {
+  const header = 'lap,label,start_elapsed_s,duration_s,heart_rate_bpm,alpha1,alpha1_lap_end,artifact_pct,power_w';
+  const fixed = (value: number | null, digits: number) => (value !== null ? value.toFixed(digits) : '');
+  const rows = computeLaps(session).map(lap => [
+    lap.index,
+    csvText(lap.label),
+    ((lap.start - session.startTime) / 1000).toFixed(1),
+    (lap.durationMs / 1000).toFixed(1),
+    fixed(lap.meanHeartRate, 0),
+    fixed(lap.meanAlpha1, 3),
+    fixed(lap.tailAlpha1, 3),
+    fixed(lap.artifactPercent, 2),
+    fixed(lap.meanPower, 0),
+  ].join(','));
+  return [header, ...rows].join('\n') + '\n';
+};
+
+export const toSessionJson = (session: RecordedSession): string =>
+  JSON.stringify({ version: SESSION_FORMAT_VERSION, ...session }, null, 2);
+
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+export type ExportFormat = 'kubios' | 'csv' | 'laps' | 'json' | 'fit';
+
+export const exportSession = (session: RecordedSession, format: ExportFormat) => {
+  const stem = fileStem(session);
+  switch (format) {
+    case 'kubios':
+      downloadFile(`${stem}-rr.txt`, toKubiosText(session), 'text/plain');
+      break;
+    case 'csv':
+      downloadFile(`${stem}-dfa.csv`, toHistoryCsv(session), 'text/csv');
+      break;
+    case 'laps':
+      downloadFile(`${stem}-laps.csv`, toLapsCsv(session), 'text/csv');
+      break;
+    case 'json':
+      downloadFile(`${stem}.json`, toSessionJson(session), 'application/json');
+      break;
+    case 'fit':
+      downloadFile(`${stem}.fit`, toFitActivity(session), 'application/vnd.ant.fit');
+      break;
+  }
+};
+
+// Standalone HTML report for the whole session or the selected segment
+export const exportReport = (session: RecordedSession, report: SessionReport) =>
+  downloadFile(`${fileStem(session)}-report.html`, renderReportHtml(session, report), 'text/html');
+
+// Opens the HTML report in a new window and hands it to the print dialog
+export const printReport = (session: RecordedSession, report: SessionReport) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(renderReportHtml(session, report));
+  win.document.close();
+  win.focus();
+  win.print();
+};
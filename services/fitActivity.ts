@@ -0,0 +1,246 @@
+import { RecordedSession } from '../types';
+import { FitEncoder, FitField } from './fitEncoder';
+import {
+  FIT_BYTE, FIT_ENUM, FIT_EPOCH_OFFSET_S, FIT_FLOAT32, FIT_STRING, FIT_UINT16, FIT_UINT32, FIT_UINT32Z, FIT_UINT8,
+  MESG_ACTIVITY, MESG_DEVELOPER_DATA_ID, MESG_EVENT, MESG_FIELD_DESCRIPTION, MESG_FILE_ID, MESG_HRV, MESG_LAP,
+  MESG_RECORD, MESG_SESSION,
+} from './fitProtocol';
+import { computeLaps } from './laps';
+import { heartRateFromRR } from './replayService';
+import { sessionEndTime } from './sessionReport';
+
+/**
+ * A recorded session as a FIT activity for Garmin Connect, Strava or
+ * intervals.icu: one record per second, HRV messages with every raw RR
+ * interval, a lap per lap marker and alpha1 as a developer field on records
+ * (and its mean on laps). Recording gaps become timer stop/start events.
+ */
+
+// Developer data: this app's id and the fields it defines
+const APPLICATION_ID = [0x6d, 0x2b, 0x1f, 0x3e, 0x9a, 0x44, 0x4c, 0x1b, 0x8e, 0x52, 0x0f, 0x7a, 0xd3, 0x61, 0xa9, 0xc4];
+const APPLICATION_VERSION = 1;
+const DEV_INDEX = 0;
+export const FIT_DEV_ALPHA1 = 0; // On records
+export const FIT_DEV_LAP_ALPHA1 = 1; // Mean over the lap
+
+// Profile values used below
+const FILE_ACTIVITY = 4;
+const MANUFACTURER_DEVELOPMENT = 255;
+const EVENT_TIMER = 0;
+const EVENT_SESSION = 8;
+const EVENT_LAP = 9;
+const EVENT_ACTIVITY = 26;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP = 1;
+const EVENT_TYPE_STOP_ALL = 4;
+const SPORT_GENERIC = 0;
+const SPORT_RUNNING = 1;
+const SPORT_CYCLING = 2;
+
+const HR_BEATS = 5; // Beats averaged for the per-second heart rate
+const HR_HOLD_MS = 3000; // No beat for this long: no heart rate for that second
+const HRV_PER_MESSAGE = 5;
+const HRV_MAX_MS = 65534; // uint16 at scale 1000; 0xFFFF is the invalid value
+
+interface Sample {
+  timestamp: number; // ms
+  heartRate: number | null;
+  power: number | null;
+  speed: number | null; // m/s
+  cadence: number | null;
+  distance: number; // m since the start
+  alpha1: number | null;
+}
+
+const fitTime = (ms: number) => Math.round(ms / 1000) - FIT_EPOCH_OFFSET_S;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+// Seconds spent in recording gaps within [start, end]
+const gapOverlapMs = (session: RecordedSession, start: number, end: number) =>
+  (session.gaps ?? []).reduce((sum, g) => sum + Math.max(0, Math.min(end, g.end) - Math.max(start, g.start)), 0);
+
+/**
+ * Resamples the session to 1 Hz. Heart rate comes from the beats themselves;
+ * power, speed, cadence and alpha1 hold the latest history point while it is
+ * recent. Seconds inside a recording gap are left out.
+ */
+const sampleSession = (session: RecordedSession): Sample[] => {
+  const end = sessionEndTime(session);
+  const maxPointAge = 2 * session.settings.recomputeIntervalMs;
+  const beats = session.rrIntervals;
+  const points = session.history;
+  const samples: Sample[] = [];
+  let beat = -1;
+  let point = -1;
+  let distance = 0;
+
+  for (let t = Math.ceil(session.startTime / 1000) * 1000; t <= end; t += 1000) {
+    while (beat + 1 < beats.length && beats[beat + 1].timestamp <= t) beat++;
+    while (point + 1 < points.length && points[point + 1].timestamp <= t) point++;
+    if ((session.gaps ?? []).some(g => t > g.start && t < g.end)) continue;
+
+    const heartRate = beat >= 0 && t - beats[beat].timestamp <= HR_HOLD_MS
+      ? heartRateFromRR(beats.slice(Math.max(0, beat + 1 - HR_BEATS), beat + 1).map(b => b.intervalMs))
+      : null;
+    const p = point >= 0 && t - points[point].timestamp <= maxPointAge ? points[point] : null;
+    const speed = p?.speed ?? null;
+    if (speed !== null) distance += speed;
+    if (heartRate === null && p?.power === undefined && speed === null) continue;
+
+    samples.push({
+      timestamp: t,
+      heartRate,
+      power: p?.power ?? null,
+      speed,
+      cadence: p?.cadence ?? null,
+      distance,
+      alpha1: p && !p.lowQuality ? p.alpha1 : null,
+    });
+  }
+  return samples;
+};
+
+const summarize = (samples: Sample[]) => {
+  const hr = samples.map(s => s.heartRate).filter((v): v is number => v !== null);
+  const power = samples.map(s => s.power).filter((v): v is number => v !== null);
+  return {
+    avgHeartRate: mean(hr),
+    maxHeartRate: hr.length > 0 ? Math.max(...hr) : null,
+    avgPower: mean(power),
+    distance: samples.length > 0 ? samples[samples.length - 1].distance - samples[0].distance + (samples[0].speed ?? 0) : 0,
+  };
+};
+
+export const toFitActivity = (session: RecordedSession): Uint8Array => {
+  const fit = new FitEncoder();
+  const end = sessionEndTime(session);
+  const samples = sampleSession(session);
+  const hasPower = samples.some(s => s.power !== null);
+  const hasSpeed = samples.some(s => s.speed !== null);
+  const hasCadence = samples.some(s => s.cadence !== null);
+  const sport = hasSpeed ? SPORT_RUNNING : hasPower ? SPORT_CYCLING : SPORT_GENERIC;
+  // Footpods report steps/min; FIT running cadence counts strides
+  const cadenceOf = (s: Sample) => (s.cadence === null ? null : sport === SPORT_RUNNING ? s.cadence / 2 : s.cadence);
+
+  fit.write(MESG_FILE_ID, [
+    { num: 0, type: FIT_ENUM, value: FILE_ACTIVITY },
+    { num: 1, type: FIT_UINT16, value: MANUFACTURER_DEVELOPMENT },
+    { num: 2, type: FIT_UINT16, value: 0 },
+    { num: 3, type: FIT_UINT32Z, value: fitTime(session.startTime) },
+    { num: 4, type: FIT_UINT32, value: fitTime(session.startTime) },
+  ]);
+  fit.write(MESG_DEVELOPER_DATA_ID, [
+    { num: 1, type: FIT_BYTE, value: APPLICATION_ID },
+    { num: 3, type: FIT_UINT8, value: DEV_INDEX },
+    { num: 4, type: FIT_UINT32, value: APPLICATION_VERSION },
+  ]);
+  const describe = (fieldNum: number, name: string) => fit.write(MESG_FIELD_DESCRIPTION, [
+    { num: 0, type: FIT_UINT8, value: DEV_INDEX },
+    { num: 1, type: FIT_UINT8, value: fieldNum },
+    { num: 2, type: FIT_UINT8, value: FIT_FLOAT32 },
+    { num: 3, type: FIT_STRING, value: name, size: 32 },
+    { num: 8, type: FIT_STRING, value: '', size: 16 },
+  ]);
+  describe(FIT_DEV_ALPHA1, 'alpha1');
+  describe(FIT_DEV_LAP_ALPHA1, 'alpha1_lap_avg');
+
+  const event = (timestamp: number, type: number) => fit.write(MESG_EVENT, [
+    { num: 253, type: FIT_UINT32, value: fitTime(timestamp) },
+    { num: 0, type: FIT_ENUM, value: EVENT_TIMER },
+    { num: 1, type: FIT_ENUM, value: type },
+  ]);
+  event(session.startTime, EVENT_TYPE_START);
+
+  // HRV messages go out in time order between the records, five beats each
+  const beats = session.rrIntervals;
+  let nextBeat = 0;
+  const flushBeats = (upTo: number, all = false) => {
+    while (nextBeat < beats.length) {
+      const group = beats.slice(nextBeat, nextBeat + HRV_PER_MESSAGE);
+      if (group[group.length - 1].timestamp > upTo || (!all && group.length < HRV_PER_MESSAGE)) break;
+      fit.write(MESG_HRV, [{
+        num: 0,
+        type: FIT_UINT16,
+        value: Array.from({ length: HRV_PER_MESSAGE }, (_, i) => (group[i] ? Math.min(HRV_MAX_MS, group[i].intervalMs) : null)),
+      }]);
+      nextBeat += group.length;
+    }
+  };
+
+  const gaps = [...(session.gaps ?? [])].sort((a, b) => a.start - b.start);
+  let nextGap = 0;
+  for (const sample of samples) {
+    while (nextGap < gaps.length && gaps[nextGap].end <= sample.timestamp) {
+      event(gaps[nextGap].start, EVENT_TYPE_STOP_ALL);
+      event(gaps[nextGap].end, EVENT_TYPE_START);
+      nextGap++;
+    }
+    flushBeats(sample.timestamp);
+    const fields: FitField[] = [
+      { num: 253, type: FIT_UINT32, value: fitTime(sample.timestamp) },
+      { num: 3, type: FIT_UINT8, value: sample.heartRate },
+    ];
+    if (hasPower) fields.push({ num: 7, type: FIT_UINT16, value: sample.power });
+    if (hasSpeed) {
+      fields.push({ num: 6, type: FIT_UINT16, value: sample.speed !== null ? sample.speed * 1000 : null });
+      fields.push({ num: 5, type: FIT_UINT32, value: sample.distance * 100 });
+    }
+    if (hasCadence) fields.push({ num: 4, type: FIT_UINT8, value: cadenceOf(sample) });
+    fit.write(MESG_RECORD, fields, [{ num: FIT_DEV_ALPHA1, devIndex: DEV_INDEX, type: FIT_FLOAT32, value: sample.alpha1 }]);
+  }
+  flushBeats(Infinity, true);
+  event(end, EVENT_TYPE_STOP_ALL);
+
+  const laps = computeLaps(session);
+  laps.forEach((lap, i) => {
+    const inLap = samples.filter(s => s.timestamp >= lap.start && (s.timestamp < lap.end || (i === laps.length - 1 && s.timestamp === lap.end)));
+    const stats = summarize(inLap);
+    fit.write(MESG_LAP, [
+      { num: 254, type: FIT_UINT16, value: i },
+      { num: 253, type: FIT_UINT32, value: fitTime(lap.end) },
+      { num: 0, type: FIT_ENUM, value: EVENT_LAP },
+      { num: 1, type: FIT_ENUM, value: EVENT_TYPE_STOP },
+      { num: 2, type: FIT_UINT32, value: fitTime(lap.start) },
+      { num: 7, type: FIT_UINT32, value: lap.durationMs },
+      { num: 8, type: FIT_UINT32, value: lap.durationMs - gapOverlapMs(session, lap.start, lap.end) },
+      { num: 9, type: FIT_UINT32, value: hasSpeed ? stats.distance * 100 : null },
+      { num: 15, type: FIT_UINT8, value: stats.avgHeartRate },
+      { num: 16, type: FIT_UINT8, value: stats.maxHeartRate },
+      { num: 19, type: FIT_UINT16, value: stats.avgPower },
+      { num: 25, type: FIT_ENUM, value: sport },
+    ], [{ num: FIT_DEV_LAP_ALPHA1, devIndex: DEV_INDEX, type: FIT_FLOAT32, value: lap.meanAlpha1 }]);
+  });
+
+  const elapsedMs = end - session.startTime;
+  const timerMs = elapsedMs - gapOverlapMs(session, session.startTime, end);
+  const totals = summarize(samples);
+  fit.write(MESG_SESSION, [
+    { num: 254, type: FIT_UINT16, value: 0 },
+    { num: 253, type: FIT_UINT32, value: fitTime(end) },
+    { num: 0, type: FIT_ENUM, value: EVENT_SESSION },
+    { num: 1, type: FIT_ENUM, value: EVENT_TYPE_STOP },
+    { num: 2, type: FIT_UINT32, value: fitTime(session.startTime) },
+    { num: 5, type: FIT_ENUM, value: sport },
+    { num: 6, type: FIT_ENUM, value: 0 }, // Generic sub-sport
+    { num: 7, type: FIT_UINT32, value: elapsedMs },
+    { num: 8, type: FIT_UINT32, value: timerMs },
+    { num: 9, type: FIT_UINT32, value: hasSpeed ? totals.distance * 100 : null },
+    { num: 16, type: FIT_UINT8, value: totals.avgHeartRate },
+    { num: 17, type: FIT_UINT8, value: totals.maxHeartRate },
+    { num: 20, type: FIT_UINT16, value: totals.avgPower },
+    { num: 25, type: FIT_UINT16, value: 0 },
+    { num: 26, type: FIT_UINT16, value: laps.length },
+  ]);
+  fit.write(MESG_ACTIVITY, [
+    { num: 253, type: FIT_UINT32, value: fitTime(end) },
+    { num: 0, type: FIT_UINT32, value: timerMs },
+    { num: 1, type: FIT_UINT16, value: 1 },
+    { num: 2, type: FIT_ENUM, value: 0 }, // Manual
+    { num: 3, type: FIT_ENUM, value: EVENT_ACTIVITY },
+    { num: 4, type: FIT_ENUM, value: EVENT_TYPE_STOP },
+    { num: 5, type: FIT_UINT32, value: fitTime(end) - new Date(end).getTimezoneOffset() * 60 },
+  ]);
+
+  return fit.finish();
+};
@@ -0,0 +1,144 @@
+import { BASE_TYPE_SIZES, INVALID_VALUES, MESG_FIELD_DESCRIPTION } from './fitProtocol';
+
+/**
+ * Minimal FIT decoder: returns every data message with its raw field values.
+ * Scaling and field semantics are left to the caller.
+ */
+
+export type FitValue = number | number[] | string | null;
+
+export interface FitMessage {
+  globalNum: number;
+  fields: Record<number, FitValue>;
+  developerFields: Record<string, FitValue>; // keyed "<devIndex>:<fieldNum>"
+}
+
+interface FieldDef { num: number; size: number; baseType: number; }
+interface DevFieldDef { num: number; size: number; devIndex: number; }
+
+// Base type per "<devIndex>:<fieldNum>", from field_description messages
+type DevTypes = Record<string, number>;
+
+interface Definition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDef[];
+  devFields: DevFieldDef[];
+}
+
+const readScalar = (view: DataView, offset: number, baseType: number, le: boolean): number | null => {
+  let value: number;
+  switch (baseType) {
+    case 0x01: value = view.getInt8(offset); break;
+    case 0x00: case 0x02: case 0x0A: case 0x0D: value = view.getUint8(offset); break;
+    case 0x03: value = view.getInt16(offset, le); break;
+    case 0x04: case 0x0B: value = view.getUint16(offset, le); break;
+    case 0x05: value = view.getInt32(offset, le); break;
+    case 0x06: case 0x0C: value = view.getUint32(offset, le); break;
+    case 0x08: value = view.getFloat32(offset, le); break;
+    case 0x09: value = view.getFloat64(offset, le); break;
+    case 0x0E: value = Number(view.getBigInt64(offset, le)); break;
+    case 0x0F: case 0x10: value = Number(view.getBigUint64(offset, le)); break;
+    default: value = view.getUint8(offset);
+  }
+  // Floats mark invalid with all bits set, which reads as NaN
+  return INVALID_VALUES[baseType] === value || Number.isNaN(value) ? null : value;
+};
+
+const readField = (view: DataView, offset: number, size: number, baseType: number, le: boolean): FitValue => {
+  if (baseType === 0x07) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, size);
+    const end = bytes.indexOf(0);
+    return new TextDecoder().decode(end >= 0 ? bytes.subarray(0, end) : bytes);
+  }
+  const unit = BASE_TYPE_SIZES[baseType] ?? 1;
+  if (size === unit) return readScalar(view, offset, baseType, le);
+  const values: number[] = [];
+  for (let i = 0; i + unit <= size; i += unit) {
+    const v = readScalar(view, offset + i, baseType, le);
+    if (v !== null) values.push(v);
+  }
+  return values;
+};
+
+export const decodeFit = (buffer: ArrayBuffer): FitMessage[] => {
+  const view = new DataView(buffer);
+  const messages: FitMessage[] = [];
+  let fileStart = 0;
+
+  // FIT files may be chained; each has its own header and CRC
+  while (fileStart + 12 <= view.byteLength) {
+    const headerSize = view.getUint8(fileStart);
+    const dataSize = view.getUint32(fileStart + 4, true);
+    const signature = String.fromCharCode(
+      view.getUint8(fileStart + 8), view.getUint8(fileStart + 9),
+      view.getUint8(fileStart + 10), view.getUint8(fileStart + 11),
+    );
+    if (signature !== '.FIT') throw new Error('Not a FIT file');
+
+    const definitions: Record<number, Definition> = {};
+    const devTypes: DevTypes = {};
+    let offset = fileStart + headerSize;
+    const end = Math.min(offset + dataSize, view.byteLength);
+
+    while (offset < end) {
+      const header = view.getUint8(offset++);
+
+      if (header & 0x80) {
+        // Compressed timestamp header: data message, local type in bits 5-6
+        offset = readData(view, offset, definitions[(header >> 5) & 0x03], messages, devTypes);
+        continue;
+      }
+
+      const localType = header & 0x0F;
+      if (header & 0x40) {
+        const hasDevData = (header & 0x20) !== 0;
+        const littleEndian = view.getUint8(offset + 1) === 0;
+        const globalNum = view.getUint16(offset + 2, littleEndian);
+        const numFields = view.getUint8(offset + 4);
+        offset += 5;
+        const fields: FieldDef[] = [];
+        for (let i = 0; i < numFields; i++, offset += 3) {
+          fields.push({ num: view.getUint8(offset), size: view.getUint8(offset + 1), baseType: view.getUint8(offset + 2) & 0x1F });
+        }
+        const devFields: DevFieldDef[] = [];
+        if (hasDevData) {
+          const numDev = view.getUint8(offset++);
+          for (let i = 0; i < numDev; i++, offset += 3) {
+            devFields.push({ num: view.getUint8(offset), size: view.getUint8(offset + 1), devIndex: view.getUint8(offset + 2) });
+          }
+        }
+        definitions[localType] = { globalNum, littleEndian, fields, devFields };
+      } else {
+        offset = readData(view, offset, definitions[localType], messages, devTypes);
+      }
+    }
+
+    fileStart = end + 2; // Skip file CRC
+  }
+
+  return messages;
+};
+
+const readData = (view: DataView, offset: number, def: Definition | undefined, out: FitMessage[], devTypes: DevTypes): number => {
+  if (!def) throw new Error('FIT data message without definition');
+  const message: FitMessage = { globalNum: def.globalNum, fields: {}, developerFields: {} };
+  for (const f of def.fields) {
+    message.fields[f.num] = readField(view, offset, f.size, f.baseType, def.littleEndian);
+    offset += f.size;
+  }
+  // Developer field types come from earlier field_description messages; raw bytes otherwise
+  for (const f of def.devFields) {
+    const key = `${f.devIndex}:${f.num}`;
+    message.developerFields[key] = readField(view, offset, f.size, devTypes[key] ?? 0x0D, def.littleEndian);
+    offset += f.size;
+  }
+  if (message.globalNum === MESG_FIELD_DESCRIPTION) {
+    const [devIndex, fieldNum, baseType] = [message.fields[0], message.fields[1], message.fields[2]];
+    if (typeof devIndex === 'number' && typeof fieldNum === 'number' && typeof baseType === 'number') {
+      devTypes[`${devIndex}:${fieldNum}`] = baseType & 0x1F;
+    }
+  }
+  out.push(message);
+  return offset;
+};
@@ -0,0 +1,146 @@
+import { BASE_TYPE_SIZES, INVALID_VALUES, fitCrc } from './fitProtocol';
+
+/**
+ * Minimal FIT encoder, the counterpart of fitDecoder: callers pass raw
+ * (already scaled) field values and the encoder writes definition messages
+ * as layouts change. Everything is little-endian.
+ */
+
+export interface FitField {
+  num: number;
+  type: number; // Base type byte, e.g. FIT_UINT16
+  value: number | number[] | string | null; // null writes the invalid value
+  size?: number; // Bytes; defaults to the value's length. Required for strings to keep layouts stable
+}
+
+export interface FitDeveloperField {
+  num: number; // field_definition_number in the field description
+  devIndex: number;
+  type: number;
+  value: number | null;
+}
+
+const HEADER_SIZE = 14;
+const PROTOCOL_VERSION = 0x20; // 2.0: developer fields
+const PROFILE_VERSION = 2132;
+const LOCAL_TYPES = 16;
+
+const fieldSize = (field: { type: number; value: unknown; size?: number }): number => {
+  if (field.size !== undefined) return field.size;
+  const unit = BASE_TYPE_SIZES[field.type & 0x1F] ?? 1;
+  if (typeof field.value === 'string') return new TextEncoder().encode(field.value).length + 1;
+  return Array.isArray(field.value) ? unit * field.value.length : unit;
+};
+
+const writeScalar = (view: DataView, offset: number, type: number, value: number | null) => {
+  const base = type & 0x1F;
+  if (base === 0x08) {
+    if (value === null) view.setUint32(offset, 0xFFFFFFFF, true);
+    else view.setFloat32(offset, value, true);
+    return;
+  }
+  const raw = value === null ? INVALID_VALUES[base] ?? 0xFF : Math.round(value);
+  switch (base) {
+    case 0x01: view.setInt8(offset, raw); break;
+    case 0x03: view.setInt16(offset, raw, true); break;
+    case 0x04: case 0x0B: view.setUint16(offset, raw, true); break;
+    case 0x05: view.setInt32(offset, raw, true); break;
+    case 0x06: case 0x0C: view.setUint32(offset, raw, true); break;
+    default: view.setUint8(offset, raw);
+  }
+};
+
+export class FitEncoder {
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+  private localTypes = new Map<string, number>(); // Layout key -> local message type
+  private slots: (string | null)[] = new Array(LOCAL_TYPES).fill(null);
+  private nextSlot = 0;
+
+  write(globalNum: number, fields: FitField[], devFields: FitDeveloperField[] = []) {
+    const sizes = fields.map(fieldSize);
+    const devSizes = devFields.map(fieldSize);
+    const key = JSON.stringify([globalNum, fields.map((f, i) => [f.num, f.type, sizes[i]]), devFields.map(f => [f.num, f.devIndex, f.type])]);
+
+    let local = this.localTypes.get(key);
+    if (local === undefined) {
+      local = this.define(key, globalNum, fields, sizes, devFields, devSizes);
+    }
+
+    const bytes = new Uint8Array(1 + sizes.reduce((a, b) => a + b, 0) + devSizes.reduce((a, b) => a + b, 0));
+    const view = new DataView(bytes.buffer);
+    bytes[0] = local;
+    let offset = 1;
+    const put = (field: { type: number; value: FitField['value'] }, size: number) => {
+      if (typeof field.value === 'string') {
+        bytes.set(new TextEncoder().encode(field.value).subarray(0, size - 1), offset);
+      } else {
+        const unit = BASE_TYPE_SIZES[field.type & 0x1F] ?? 1;
+        const values = Array.isArray(field.value) ? field.value : [field.value];
+        for (let i = 0; i * unit < size; i++) writeScalar(view, offset + i * unit, field.type, values[i] ?? null);
+      }
+      offset += size;
+    };
+    fields.forEach((f, i) => put(f, sizes[i]));
+    devFields.forEach((f, i) => put(f, devSizes[i]));
+    this.push(bytes);
+  }
+
+  // Header with its own CRC, the records, then a CRC over both
+  finish(): Uint8Array {
+    const out = new Uint8Array(HEADER_SIZE + this.length + 2);
+    const view = new DataView(out.buffer);
+    out[0] = HEADER_SIZE;
+    out[1] = PROTOCOL_VERSION;
+    view.setUint16(2, PROFILE_VERSION, true);
+    view.setUint32(4, this.length, true);
+    out.set([0x2E, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, fitCrc(out, 0, 12), true);
+
+    let offset = HEADER_SIZE;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    view.setUint16(offset, fitCrc(out, 0, offset), true);
+    return out;
+  }
+
+  // Round-robin over the 16 local types; a reused slot is simply redefined
+  private define(key: string, globalNum: number, fields: FitField[], sizes: number[], devFields: FitDeveloperField[], devSizes: number[]): number {
+    const local = this.nextSlot;
+    this.nextSlot = (this.nextSlot + 1) % LOCAL_TYPES;
+    const evicted = this.slots[local];
+    if (evicted !== null) this.localTypes.delete(evicted);
+    this.slots[local] = key;
+    this.localTypes.set(key, local);
+
+    const hasDev = devFields.length > 0;
+    const bytes = new Uint8Array(6 + fields.length * 3 + (hasDev ? 1 + devFields.length * 3 : 0));
+    const view = new DataView(bytes.buffer);
+    bytes[0] = 0x40 | (hasDev ? 0x20 : 0) | local;
+    bytes[1] = 0; // Reserved
+    bytes[2] = 0; // Little-endian
+    view.setUint16(3, globalNum, true);
+    bytes[5] = fields.length;
+    let offset = 6;
+    fields.forEach((f, i) => {
+      bytes.set([f.num, sizes[i], f.type], offset);
+      offset += 3;
+    });
+    if (hasDev) {
+      bytes[offset++] = devFields.length;
+      devFields.forEach((f, i) => {
+        bytes.set([f.num, devSizes[i], f.devIndex], offset);
+        offset += 3;
+      });
+    }
+    this.push(bytes);
+    return local;
+  }
+
+  private push(bytes: Uint8Array) {
+    this.chunks.push(bytes);
+    this.length += bytes.length;
+  }
+}
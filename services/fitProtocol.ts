@@ -0,0 +1,79 @@
+/**
+ * Shared constants of the Garmin FIT binary protocol.
+ */
+
+export const FIT_EPOCH_OFFSET_S = 631065600; // 1989-12-31T00:00:00Z in Unix seconds
+
+// Global message numbers
+export const MESG_FILE_ID = 0;
+export const MESG_SESSION = 18;
+export const MESG_LAP = 19;
+export const MESG_RECORD = 20;
+export const MESG_EVENT = 21;
+export const MESG_ACTIVITY = 34;
+export const MESG_HRV = 78;
+export const MESG_FIELD_DESCRIPTION = 206;
+export const MESG_DEVELOPER_DATA_ID = 207;
+
+// Base type bytes as written in definitions; multi-byte types carry the 0x80 endian flag
+export const FIT_ENUM = 0x00;
+export const FIT_UINT8 = 0x02;
+export const FIT_UINT16 = 0x84;
+export const FIT_UINT32 = 0x86;
+export const FIT_STRING = 0x07;
+export const FIT_FLOAT32 = 0x88;
+export const FIT_UINT32Z = 0x8C;
+export const FIT_BYTE = 0x0D;
+
+// Base type identifiers (low 5 bits of the base type byte)
+export const BASE_TYPE_SIZES: Record<number, number> = {
+  0x00: 1, // enum
+  0x01: 1, // sint8
+  0x02: 1, // uint8
+  0x03: 2, // sint16
+  0x04: 2, // uint16
+  0x05: 4, // sint32
+  0x06: 4, // uint32
+  0x07: 1, // string
+  0x08: 4, // float32
+  0x09: 8, // float64
+  0x0A: 1, // uint8z
+  0x0B: 2, // uint16z
+  0x0C: 4, // uint32z
+  0x0D: 1, // byte
+  0x0E: 8, // sint64
+  0x0F: 8, // uint64
+  0x10: 8, // uint64z
+};
+
+export const INVALID_VALUES: Record<number, number> = {
+  0x00: 0xFF,
+  0x01: 0x7F,
+  0x02: 0xFF,
+  0x03: 0x7FFF,
+  0x04: 0xFFFF,
+  0x05: 0x7FFFFFFF,
+  0x06: 0xFFFFFFFF,
+  0x0A: 0,
+  0x0B: 0,
+  0x0C: 0,
+  0x0D: 0xFF,
+};
+
+const CRC_TABLE = [
+  0x0000, 0xCC01, 0xD801, 0x1400, 0xF001, 0x3C00, 0x2800, 0xE401,
+  0xA001, 0x6C00, 0x7800, 0xB401, 0x5000, 0x9C01, 0x8801, 0x4400,
+];
+
+export const fitCrc = (bytes: Uint8Array, start = 0, end = bytes.length, crc = 0): number => {
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xF];
+    crc = (crc >> 4) & 0x0FFF;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xF];
+    tmp = CRC_TABLE[crc & 0xF];
+    crc = (crc >> 4) & 0x0FFF;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xF];
+  }
+  return crc;
+};
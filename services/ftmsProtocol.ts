@@ -0,0 +1,88 @@
+/**
+ * Fitness Machine Service (FTMS) messages: the Control Point (0x2AD9)
+ * commands used for ERG mode and the Indoor Bike Data (0x2AD2) notification.
+ */
+
+// Control Point op codes
+export const OP_REQUEST_CONTROL = 0x00;
+export const OP_RESET = 0x01;
+export const OP_SET_TARGET_POWER = 0x05;
+export const OP_START_OR_RESUME = 0x07;
+export const OP_STOP_OR_PAUSE = 0x08;
+export const OP_RESPONSE_CODE = 0x80;
+
+export const RESULT_SUCCESS = 0x01;
+
+const RESULT_MESSAGES: Record<number, string> = {
+  0x02: 'Op code not supported',
+  0x03: 'Invalid parameter',
+  0x04: 'Operation failed',
+  0x05: 'Control not permitted',
+};
+
+export interface ControlPointResponse {
+  requestOpCode: number;
+  result: number;
+}
+
+export const encodeRequestControl = (): Uint8Array => new Uint8Array([OP_REQUEST_CONTROL]);
+
+export const encodeStartOrResume = (): Uint8Array => new Uint8Array([OP_START_OR_RESUME]);
+
+// Parameter 0x01 stops, 0x02 pauses
+export const encodeStop = (): Uint8Array => new Uint8Array([OP_STOP_OR_PAUSE, 0x01]);
+
+// Target power is a sint16 in watts
+export const encodeSetTargetPower = (watts: number): Uint8Array => {
+  const bytes = new Uint8Array(3);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, OP_SET_TARGET_POWER);
+  view.setInt16(1, Math.round(Math.max(-32768, Math.min(32767, watts))), true);
+  return bytes;
+};
+
+// Indications on the Control Point answer each write: [0x80, request op code, result]
+export const parseControlPointResponse = (data: DataView): ControlPointResponse | null => {
+  if (data.byteLength < 3 || data.getUint8(0) !== OP_RESPONSE_CODE) return null;
+  return { requestOpCode: data.getUint8(1), result: data.getUint8(2) };
+};
+
+export const describeResult = (result: number): string =>
+  RESULT_MESSAGES[result] ?? `Unknown result 0x${result.toString(16).padStart(2, '0')}`;
+
+export interface IndoorBikeData {
+  speed?: number; // km/h
+  cadence?: number; // rpm
+  power?: number; // W
+}
+
+// Optional fields in flag-bit order with their byte sizes
+const BIKE_DATA_FIELDS: [bit: number, size: number][] = [
+  [1, 2], // Average speed
+  [2, 2], // Instantaneous cadence
+  [3, 2], // Average cadence
+  [4, 3], // Total distance
+  [5, 2], // Resistance level
+  [6, 2], // Instantaneous power
+];
+
+export const parseIndoorBikeData = (data: DataView): IndoorBikeData => {
+  const flags = data.getUint16(0, true);
+  const result: IndoorBikeData = {};
+  let offset = 2;
+
+  // Bit 0 ("more data") inverted: instantaneous speed is present when clear
+  if (!(flags & 0x01)) {
+    result.speed = data.getUint16(offset, true) / 100;
+    offset += 2;
+  }
+
+  for (const [bit, size] of BIKE_DATA_FIELDS) {
+    if (!(flags & (1 << bit))) continue;
+    if (offset + size > data.byteLength) break;
+    if (bit === 2) result.cadence = data.getUint16(offset, true) / 2;
+    if (bit === 6) result.power = data.getInt16(offset, true);
+    offset += size;
+  }
+  return result;
+};
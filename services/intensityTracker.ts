@@ -0,0 +1,50 @@
+import { DFADataPoint, SensorReading } from '../types';
+
+// Long enough to cover the widest analysis window
+const RETENTION_MS = 10 * 60 * 1000;
+
+type Intensity = Pick<DFADataPoint, 'power' | 'speed' | 'cadence'>;
+
+const mean = (values: number[]): number | undefined =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+const round = (value: number | undefined, digits: number): number | undefined =>
+  value === undefined ? undefined : Number(value.toFixed(digits));
+
+/**
+ * Buffers power meter / footpod readings so each DFA point can carry the
+ * mean intensity over the same span as the beats it was computed from.
+ */
+export class IntensityTracker {
+  private readings: SensorReading[] = [];
+
+  add(reading: SensorReading) {
+    this.readings.push(reading);
+    const cutoff = reading.timestamp - RETENTION_MS;
+    if (this.readings[0].timestamp < cutoff) {
+      this.readings = this.readings.filter(r => r.timestamp >= cutoff);
+    }
+  }
+
+  reset() {
+    this.readings = [];
+  }
+
+  // Mean power/speed/cadence within [start, end]; fields without data are omitted
+  summarize(start: number, end: number): Intensity {
+    let inSpan = this.readings.filter(r => r.timestamp >= start && r.timestamp <= end);
+    // A dedicated power meter is trusted over the trainer's own estimate
+    if (inSpan.some(r => r.kind === 'power')) inSpan = inSpan.filter(r => r.kind !== 'trainer');
+    const pick = (field: keyof Intensity) =>
+      inSpan.map(r => r[field]).filter((v): v is number => v !== undefined);
+
+    const summary: Intensity = {};
+    const power = round(mean(pick('power')), 0);
+    const speed = round(mean(pick('speed')), 2);
+    const cadence = round(mean(pick('cadence')), 0);
+    if (power !== undefined) summary.power = power;
+    if (speed !== undefined) summary.speed = speed;
+    if (cadence !== undefined) summary.cadence = cadence;
+    return summary;
+  }
+}
@@ -0,0 +1,53 @@
+import { LapStats, RecordedSession } from '../types';
+import { LAP_TAIL_MS } from '../constants';
+import { hrvMetrics, sessionEndTime } from './sessionReport';
+
+/**
+ * Per-lap breakdown for step tests and intervals. The first lap runs from
+ * the session start to the first marker; each marker starts the next one.
+ */
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+export const lapLabel = (lap: Pick<LapStats, 'index' | 'label'>) => lap.label || `Lap ${lap.index}`;
+
+/**
+ * `closedLaps` lets a live caller keep the stats of finished laps between
+ * calls, so only the open lap is recomputed as beats arrive. A lap is
+ * closed once a later marker exists; its beats and points can't change.
+ */
+export const computeLaps = (session: RecordedSession, closedLaps?: Map<string, LapStats>): LapStats[] => {
+  const end = sessionEndTime(session);
+  const markers = [{ timestamp: session.startTime, label: '' }, ...(session.laps ?? [])];
+  // A marker stamped right at the start would leave an empty lap
+  const spans = markers
+    .map((marker, i) => ({ label: marker.label, start: marker.timestamp, end: markers[i + 1]?.timestamp ?? end }))
+    .filter(span => span.end > span.start);
+
+  return spans.map(({ label, start, end: lapEnd }, i) => {
+    const isClosed = i < spans.length - 1;
+    const key = `${session.id}:${start}:${lapEnd}:${label}`;
+    const cached = isClosed ? closedLaps?.get(key) : undefined;
+    if (cached) return { ...cached, index: i + 1 };
+
+    // Samples on a boundary belong to the later lap, except at the very end
+    const inLap = (t: number) => t >= start && (t < lapEnd || (!isClosed && t === lapEnd));
+    const points = session.history.filter(p => inLap(p.timestamp));
+    const valid = points.filter(p => !p.lowQuality);
+    const hrv = hrvMetrics(session.rrIntervals.filter(b => inLap(b.timestamp)), session.settings.artifactCorrection);
+    const stats: LapStats = {
+      index: i + 1,
+      label,
+      start,
+      end: lapEnd,
+      durationMs: lapEnd - start,
+      meanHeartRate: mean(points.map(p => p.heartRate).filter(hr => hr > 0)),
+      meanAlpha1: mean(valid.map(p => p.alpha1)),
+      tailAlpha1: mean(valid.filter(p => p.timestamp >= lapEnd - LAP_TAIL_MS).map(p => p.alpha1)),
+      artifactPercent: hrv ? hrv.artifactPercent : null,
+      meanPower: mean(points.map(p => p.power).filter((v): v is number => v !== undefined)),
+    };
+    if (isClosed) closedLaps?.set(key, stats);
+    return stats;
+  });
+};
@@ -0,0 +1,15 @@
+// Running pace helpers; speeds are stored in m/s throughout
+
+// Minutes per kilometre, or null when standing still
+export const speedToPace = (speed: number): number | null =>
+  speed > 0 ? 1000 / speed / 60 : null;
+
+// "m:ss" from minutes per kilometre
+export const formatPaceMinutes = (pace: number | null): string => {
+  if (pace === null || !Number.isFinite(pace)) return '--:--';
+  const totalSeconds = Math.round(pace * 60);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+// "m:ss" per kilometre from a speed
+export const formatPace = (speed: number): string => formatPaceMinutes(speedToPace(speed));
@@ -0,0 +1,78 @@
+/**
+ * Polar Measurement Data (PMD) service messages, as documented in the
+ * Polar BLE SDK: the Control Point commands that start the ECG stream and
+ * the ECG frames on the PMD Data characteristic.
+ */
+
+export const PMD_OP_GET_SETTINGS = 0x01;
+export const PMD_OP_START = 0x02;
+export const PMD_OP_STOP = 0x03;
+export const PMD_RESPONSE_CODE = 0xF0;
+
+export const PMD_TYPE_ECG = 0x00;
+
+// Setting types inside a start request
+const SETTING_SAMPLE_RATE = 0x00;
+const SETTING_RESOLUTION = 0x01;
+
+export const ECG_SAMPLE_RATE_HZ = 130; // The only rate the H10 offers
+const ECG_RESOLUTION_BITS = 14;
+
+export const PMD_SUCCESS = 0x00;
+
+const ERROR_MESSAGES: Record<number, string> = {
+  0x01: 'Invalid op code',
+  0x02: 'Invalid measurement type',
+  0x03: 'Not supported',
+  0x04: 'Invalid length',
+  0x05: 'Invalid parameter',
+  0x06: 'Already in that state',
+  0x07: 'Invalid resolution',
+  0x08: 'Invalid sample rate',
+  0x0A: 'Invalid MTU',
+};
+
+export interface PmdControlResponse {
+  opCode: number;
+  measurementType: number;
+  status: number;
+}
+
+export interface EcgFrame {
+  timestamp: number; // Device clock of the last sample, ns; only differences are meaningful
+  samples: number[]; // µV
+}
+
+// Each setting: [type, count = 1, uint16 value]
+export const encodeStartEcg = (): Uint8Array => new Uint8Array([
+  PMD_OP_START, PMD_TYPE_ECG,
+  SETTING_SAMPLE_RATE, 0x01, ECG_SAMPLE_RATE_HZ & 0xFF, ECG_SAMPLE_RATE_HZ >> 8,
+  SETTING_RESOLUTION, 0x01, ECG_RESOLUTION_BITS, 0x00,
+]);
+
+export const encodeStopEcg = (): Uint8Array => new Uint8Array([PMD_OP_STOP, PMD_TYPE_ECG]);
+
+// Indications answer each write: [0xF0, op code, measurement type, status, ...parameters]
+export const parsePmdControlResponse = (data: DataView): PmdControlResponse | null => {
+  if (data.byteLength < 4 || data.getUint8(0) !== PMD_RESPONSE_CODE) return null;
+  return { opCode: data.getUint8(1), measurementType: data.getUint8(2), status: data.getUint8(3) };
+};
+
+export const describePmdStatus = (status: number): string =>
+  ERROR_MESSAGES[status] ?? `Unknown status 0x${status.toString(16).padStart(2, '0')}`;
+
+/**
+ * ECG data frame: [type, uint64 timestamp, frame type, int24 samples...].
+ * Only frame type 0 (uncompressed 3-byte samples) is produced for ECG.
+ */
+export const parseEcgFrame = (data: DataView): EcgFrame | null => {
+  if (data.byteLength < 10 || data.getUint8(0) !== PMD_TYPE_ECG || data.getUint8(9) !== 0x00) return null;
+  // uint64 split in two; a double keeps it to well under a microsecond
+  const timestamp = data.getUint32(1, true) + data.getUint32(5, true) * 2 ** 32;
+  const samples: number[] = [];
+  for (let offset = 10; offset + 3 <= data.byteLength; offset += 3) {
+    const raw = data.getUint8(offset) | (data.getUint8(offset + 1) << 8) | (data.getUint8(offset + 2) << 16);
+    samples.push(raw & 0x800000 ? raw - 0x1000000 : raw);
+  }
+  return { timestamp, samples };
+};
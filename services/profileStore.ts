@@ -0,0 +1,50 @@
+import { AthleteProfile } from '../types';
+import { DEFAULT_ALPHA_ZONES } from '../constants';
+import { runRequest, STORE_PROFILES } from './db';
+
+/**
+ * Athlete profiles in IndexedDB. The active profile id is a per-browser
+ * preference and lives in localStorage.
+ */
+
+const ACTIVE_PROFILE_KEY = 'dfa-a1-monitor.activeProfile';
+
+export const createProfile = (name: string, now: number = Date.now()): AthleteProfile => ({
+  id: `athlete-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  zones: { ...DEFAULT_ALPHA_ZONES },
+  hrZones: { aerobic: null, anaerobic: null },
+  preferredSensor: null,
+  createdAt: now,
+});
+
+export const saveProfile = async (profile: AthleteProfile): Promise<void> => {
+  await runRequest(STORE_PROFILES, 'readwrite', store => store.put(profile));
+};
+
+// Alphabetical
+export const listProfiles = async (): Promise<AthleteProfile[]> => {
+  const profiles = await runRequest<AthleteProfile[]>(STORE_PROFILES, 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  await runRequest(STORE_PROFILES, 'readwrite', store => store.delete(id));
+};
+
+export const getActiveProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveProfileId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    // Storage disabled (private mode); the choice just isn't remembered
+  }
+};
@@ -0,0 +1,70 @@
+/**
+ * Progressive Web App plumbing: service worker registration and the
+ * Screen Wake Lock that keeps the display on during a session.
+ */
+
+// Everything this page has fetched so far, including what loaded before the worker took over
+const loadedResourceUrls = () => [
+  location.href,
+  ...performance.getEntriesByType('resource').map(entry => entry.name),
+];
+
+// Production builds only: in development it would cache Vite's dev modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Service worker registration failed:', err));
+    // The first load's CDN scripts and fonts never passed through the worker; hand them over once it is active
+    navigator.serviceWorker.ready
+      .then(registration => registration.active?.postMessage({ type: 'cache-urls', urls: loadedResourceUrls() }))
+      .catch(() => undefined);
+  });
+};
+
+/**
+ * Holds a screen wake lock while enabled. The browser drops the lock
+ * whenever the page is hidden, so it is re-requested on becoming visible.
+ */
+export class ScreenWakeLock {
+  private sentinel: WakeLockSentinel | null = null;
+  private enabled = false;
+
+  static get isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'wakeLock' in navigator;
+  }
+
+  async enable() {
+    if (this.enabled) return;
+    this.enabled = true;
+    document.addEventListener('visibilitychange', this.handleVisibility);
+    await this.request();
+  }
+
+  async disable() {
+    this.enabled = false;
+    document.removeEventListener('visibilitychange', this.handleVisibility);
+    const sentinel = this.sentinel;
+    this.sentinel = null;
+    await sentinel?.release().catch(() => undefined);
+  }
+
+  get isActive(): boolean {
+    return this.sentinel !== null && !this.sentinel.released;
+  }
+
+  private async request() {
+    if (!ScreenWakeLock.isSupported || document.visibilityState !== 'visible' || this.isActive) return;
+    try {
+      const sentinel = await navigator.wakeLock.request('screen');
+      if (this.enabled) this.sentinel = sentinel;
+      else await sentinel.release(); // Session ended while the request was pending
+    } catch (error) {
+      // Denied, e.g. battery saver; the session continues without it
+      console.warn('Wake lock unavailable:', error);
+    }
+  }
+
+  private handleVisibility = () => {
+    if (this.enabled && document.visibilityState === 'visible') this.request();
+  };
+}
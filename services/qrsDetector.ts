@@ -0,0 +1,219 @@
+/**
+ * Streaming Pan–Tompkins QRS detector (Pan & Tompkins 1985), adapted to
+ * arbitrary sample rates: band-pass 5–15 Hz, five-point derivative,
+ * squaring, 150 ms moving-window integration and adaptive dual thresholds
+ * with search-back for missed beats. R peaks are refined to sub-sample
+ * precision with a parabolic fit, so RR intervals are not quantised to the
+ * sample period.
+ */
+
+const BAND_CENTER_HZ = 10;
+const BAND_Q = 1; // 10 Hz centre over a 10 Hz band: 5–15 Hz
+const INTEGRATION_S = 0.15;
+const REFRACTORY_S = 0.2;
+const T_WAVE_S = 0.36; // Peaks this close to the last QRS may be T waves
+const SEARCHBACK_FACTOR = 1.66;
+const LEARNING_S = 2;
+const HISTORY_S = 3; // Signal kept for search-back and peak refinement
+
+interface Candidate {
+  index: number; // Integrated-signal peak, absolute sample index
+  value: number;
+  slope: number; // Steepest derivative leading up to it
+}
+
+export class PanTompkinsDetector {
+  private readonly fs: number;
+  // Band-pass biquad (RBJ cookbook, constant 0 dB peak gain)
+  private readonly b: [number, number, number];
+  private readonly a: [number, number];
+  private x1 = 0; private x2 = 0; private y1 = 0; private y2 = 0;
+
+  private bandpassed: number[] = []; // Ring of recent band-passed samples
+  private derivative: number[] = [];
+  private integrated: number[] = [];
+  private squares: number[] = [];
+  private squareSum = 0;
+  private count = 0; // Samples seen since the last reset
+
+  private spki = 0;
+  private npki = 0;
+  private lastQrs: Candidate | null = null;
+  private rrAverage: number | null = null; // In samples
+  private candidates: Candidate[] = []; // Rejected peaks since the last QRS, for search-back
+  private learningMax = 0;
+  private learningSum = 0;
+
+  constructor(sampleRate: number) {
+    this.fs = sampleRate;
+    const w0 = (2 * Math.PI * BAND_CENTER_HZ) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * BAND_Q);
+    const a0 = 1 + alpha;
+    this.b = [alpha / a0, 0, -alpha / a0];
+    this.a = [(-2 * Math.cos(w0)) / a0, (1 - alpha) / a0];
+  }
+
+  get sampleRate(): number {
+    return this.fs;
+  }
+
+  // Call after a gap in the signal; thresholds are learned again
+  reset() {
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+    this.bandpassed = [];
+    this.derivative = [];
+    this.integrated = [];
+    this.squares = [];
+    this.squareSum = 0;
+    this.count = 0;
+    this.spki = this.npki = 0;
+    this.lastQrs = null;
+    this.rrAverage = null;
+    this.candidates = [];
+    this.learningMax = this.learningSum = 0;
+  }
+
+  /**
+   * Feeds raw ECG samples and returns the R-peak positions found, as
+   * fractional sample indices counted from the last reset.
+   */
+  push(samples: number[]): number[] {
+    const peaks: number[] = [];
+    const window = Math.max(1, Math.round(INTEGRATION_S * this.fs));
+    const historyLength = Math.round(HISTORY_S * this.fs);
+
+    for (const x of samples) {
+      const [b0, , b2] = this.b;
+      const [a1, a2] = this.a;
+      const bp = b0 * x + b2 * this.x2 - a1 * this.y1 - a2 * this.y2;
+      this.x2 = this.x1; this.x1 = x; this.y2 = this.y1; this.y1 = bp;
+
+      this.bandpassed.push(bp);
+      const n = this.bandpassed.length;
+      const at = (i: number) => this.bandpassed[Math.max(0, n - 1 - i)];
+      const d = (2 * at(0) + at(1) - at(3) - 2 * at(4)) / 8;
+      this.derivative.push(d);
+
+      const sq = d * d;
+      this.squares.push(sq);
+      this.squareSum += sq;
+      if (this.squares.length > window) this.squareSum -= this.squares.shift()!;
+      this.integrated.push(this.squareSum / window);
+
+      if (this.bandpassed.length > historyLength) {
+        this.bandpassed.shift();
+        this.derivative.shift();
+        this.integrated.shift();
+      }
+      this.count++;
+
+      const peak = this.checkPeak();
+      if (peak !== null) peaks.push(peak);
+    }
+    return peaks;
+  }
+
+  // Absolute sample index <-> position in the history buffers
+  private offset(): number {
+    return this.count - this.integrated.length;
+  }
+
+  private checkPeak(): number | null {
+    const m = this.integrated.length;
+    if (m < 3) return null;
+    const index = this.count - 2;
+    const value = this.integrated[m - 2];
+
+    if (this.count <= LEARNING_S * this.fs) {
+      this.learningMax = Math.max(this.learningMax, value);
+      this.learningSum += this.integrated[m - 1];
+      if (this.count === Math.round(LEARNING_S * this.fs)) {
+        this.spki = this.learningMax * 0.25;
+        this.npki = (this.learningSum / this.count) * 0.5;
+      }
+      return null;
+    }
+
+    const isLocalMax = value > this.integrated[m - 3] && value >= this.integrated[m - 1];
+    if (isLocalMax) {
+      const candidate = { index, value, slope: this.maxSlope(index) };
+      const accepted = this.classify(candidate);
+      if (accepted !== null) return accepted;
+    }
+    return this.searchBack();
+  }
+
+  private classify(candidate: Candidate): number | null {
+    const threshold1 = this.npki + 0.25 * (this.spki - this.npki);
+    const sinceLast = this.lastQrs ? candidate.index - this.lastQrs.index : Infinity;
+
+    if (candidate.value < threshold1 || sinceLast < REFRACTORY_S * this.fs) {
+      this.npki = 0.125 * candidate.value + 0.875 * this.npki;
+      if (sinceLast >= REFRACTORY_S * this.fs) this.candidates.push(candidate);
+      return null;
+    }
+    // A shallow peak soon after a QRS is a T wave
+    if (this.lastQrs && sinceLast < T_WAVE_S * this.fs && candidate.slope < this.lastQrs.slope / 2) {
+      this.npki = 0.125 * candidate.value + 0.875 * this.npki;
+      return null;
+    }
+    this.spki = 0.125 * candidate.value + 0.875 * this.spki;
+    return this.accept(candidate);
+  }
+
+  // No QRS for too long: take the largest earlier peak above the lower threshold
+  private searchBack(): number | null {
+    if (!this.lastQrs || this.rrAverage === null) return null;
+    if (this.count - 1 - this.lastQrs.index < SEARCHBACK_FACTOR * this.rrAverage) return null;
+
+    const threshold2 = 0.5 * (this.npki + 0.25 * (this.spki - this.npki));
+    const best = this.candidates
+      .filter(c => c.value >= threshold2 && c.index - this.lastQrs!.index >= REFRACTORY_S * this.fs)
+      .reduce<Candidate | null>((a, c) => (a === null || c.value > a.value ? c : a), null);
+    if (!best) {
+      this.candidates = [];
+      return null;
+    }
+    this.spki = 0.25 * best.value + 0.75 * this.spki;
+    return this.accept(best);
+  }
+
+  private accept(candidate: Candidate): number | null {
+    if (this.lastQrs) {
+      const rr = candidate.index - this.lastQrs.index;
+      this.rrAverage = this.rrAverage === null ? rr : 0.125 * rr + 0.875 * this.rrAverage;
+    }
+    this.lastQrs = candidate;
+    this.candidates = [];
+    return this.refine(candidate.index);
+  }
+
+  private maxSlope(index: number): number {
+    const end = index - this.offset();
+    const start = Math.max(0, end - Math.round(INTEGRATION_S * this.fs));
+    let slope = 0;
+    for (let i = start; i <= end && i < this.derivative.length; i++) slope = Math.max(slope, Math.abs(this.derivative[i]));
+    return slope;
+  }
+
+  /**
+   * The integrated peak trails the R wave by up to one integration window;
+   * the R peak is the highest band-passed sample in that span (the R wave
+   * rather than the larger of R and S, which would jitter between beats),
+   * then interpolated between samples.
+   */
+  private refine(index: number): number {
+    const end = Math.min(this.bandpassed.length - 1, index - this.offset());
+    const start = Math.max(1, end - Math.round(INTEGRATION_S * this.fs) - 2);
+    let best = end;
+    for (let i = start; i <= end; i++) {
+      if (this.bandpassed[i] > this.bandpassed[best]) best = i;
+    }
+    const y0 = this.bandpassed[best - 1] ?? 0;
+    const y1 = this.bandpassed[best];
+    const y2 = this.bandpassed[best + 1] ?? y1;
+    const denom = y0 - 2 * y1 + y2;
+    const shift = denom !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (y0 - y2)) / denom)) : 0;
+    return best + this.offset() + shift;
+  }
+}
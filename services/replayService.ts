@@ -0,0 +1,101 @@
+import { DfaPipeline, PipelineOptions } from './dfaPipeline';
+import { DFADataPoint, RRInterval } from '../types';
+
+type ReplayDataCallback = (hr: number, rrIntervals: number[], timestamp: number) => void;
+
+const TICK_MS = 250;
+
+// Instantaneous HR from the most recent beats, as a strap would report it
+export const heartRateFromRR = (rrIntervals: number[], beats = 5): number => {
+  const recent = rrIntervals.slice(-beats);
+  if (recent.length === 0) return 0;
+  const mean = recent.reduce((a, b) => a + b, 0) / recent.length;
+  return Math.round(60000 / mean);
+};
+
+// Beat timestamps on the recording's own clock, starting at startTime
+export const toTimedIntervals = (rrIntervals: number[], startTime: number): RRInterval[] => {
+  let clock = startTime;
+  return rrIntervals.map(intervalMs => {
+    clock += intervalMs;
+    return { timestamp: clock, intervalMs };
+  });
+};
+
+/**
+ * Instant full-file analysis: feeds every beat through the live pipeline
+ * and returns the history it would have produced.
+ */
+export const analyzeRR = (
+  rrIntervals: number[],
+  startTime: number,
+  options: Partial<PipelineOptions> = {},
+): DFADataPoint[] => {
+  const pipeline = new DfaPipeline(options);
+  const history: DFADataPoint[] = [];
+  const recent: number[] = [];
+
+  for (const beat of toTimedIntervals(rrIntervals, startTime)) {
+    recent.push(beat.intervalMs);
+    if (recent.length > 5) recent.shift();
+    const { point } = pipeline.push(heartRateFromRR(recent), [beat.intervalMs], beat.timestamp);
+    if (point) history.push(point);
+  }
+  return history;
+};
+
+/**
+ * Plays an RR series back in (scaled) real time, emitting beats in
+ * packets the same way a sensor notification would.
+ */
+export class RRReplayer {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private onData: ReplayDataCallback;
+  private onFinished: () => void;
+
+  constructor(onData: ReplayDataCallback, onFinished: () => void) {
+    this.onData = onData;
+    this.onFinished = onFinished;
+  }
+
+  get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  start(rrIntervals: number[], speed: number, startTime: number = Date.now()) {
+    this.stop();
+
+    const beats = toTimedIntervals(rrIntervals, startTime);
+    const emitted: number[] = [];
+    let index = 0;
+    let virtualTime = startTime;
+
+    this.timer = setInterval(() => {
+      virtualTime += TICK_MS * speed;
+
+      const packet: number[] = [];
+      while (index < beats.length && beats[index].timestamp <= virtualTime) {
+        packet.push(beats[index].intervalMs);
+        index++;
+      }
+
+      if (packet.length > 0) {
+        emitted.push(...packet);
+        this.onData(heartRateFromRR(emitted), packet, beats[index - 1].timestamp);
+        if (emitted.length > 5) emitted.splice(0, emitted.length - 5);
+      }
+
+      if (index >= beats.length) {
+        this.stop();
+        this.onFinished();
+      }
+    }, TICK_MS);
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
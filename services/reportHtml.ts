@@ -0,0 +1,140 @@
+import { HistogramBin, RecordedSession, SessionReport, ThresholdEstimate } from '../types';
+import { formatCrossing } from './thresholdService';
+import { formatDuration, REPORT_ZONES } from './sessionReport';
+import { ZONE_LABELS } from './zones';
+import { computeLaps, lapLabel } from './laps';
+import { LAP_TAIL_MS } from '../constants';
+
+/**
+ * Standalone, print-friendly HTML version of a session report. Everything
+ * is inline (styles and SVG charts) so the file opens anywhere offline.
+ */
+
+const ZONE_COLORS = { aerobic: '#10b981', threshold: '#eab308', anaerobic: '#ef4444', lowQuality: '#94a3b8' };
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const percentOf = (part: number, total: number) => (total > 0 ? (part / total) * 100 : 0);
+
+const zoneBars = (report: SessionReport) => {
+  const total = REPORT_ZONES.reduce((sum, zone) => sum + report.timeInZone[zone], 0);
+  const rows = REPORT_ZONES.map(zone => {
+    const pct = percentOf(report.timeInZone[zone], total);
+    const label = zone === 'lowQuality' ? 'Low quality' : ZONE_LABELS[zone];
+    return `<tr><td>${label}</td>`
+      + `<td class="bar"><div style="width:${pct.toFixed(1)}%;background:${ZONE_COLORS[zone]}"></div></td>`
+      + `<td class="num">${formatDuration(report.timeInZone[zone])}</td><td class="num">${pct.toFixed(0)}%</td></tr>`;
+  });
+  return `<table class="zones">${rows.join('')}</table>`;
+};
+
+const histogramSvg = (bins: HistogramBin[], label: (bin: HistogramBin) => string) => {
+  if (bins.length === 0) return '<p class="muted">No data</p>';
+  const width = 320;
+  const height = 120;
+  const max = Math.max(...bins.map(b => b.count));
+  const barWidth = width / bins.length;
+  const bars = bins.map((bin, i) => {
+    const h = (bin.count / max) * (height - 20);
+    return `<rect x="${(i * barWidth + 1).toFixed(1)}" y="${(height - 16 - h).toFixed(1)}" width="${Math.max(1, barWidth - 2).toFixed(1)}" height="${h.toFixed(1)}" fill="#0ea5e9"><title>${label(bin)}: ${bin.count}</title></rect>`;
+  });
+  const first = bins[0];
+  const last = bins[bins.length - 1];
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img">${bars.join('')}`
+    + `<text x="0" y="${height - 2}" font-size="10">${label(first)}</text>`
+    + `<text x="${width}" y="${height - 2}" font-size="10" text-anchor="end">${label(last)}</text></svg>`;
+};
+
+const estimateRows = (title: string, estimate: ThresholdEstimate | null) => {
+  if (!estimate) return '';
+  return `<tr><td>${title}</td><td>${formatCrossing(estimate.aerobic, estimate.unit)}</td>`
+    + `<td>${formatCrossing(estimate.anaerobic, estimate.unit)}</td><td class="num">${estimate.r2.toFixed(2)}</td></tr>`;
+};
+
+const lapTable = (session: RecordedSession) => {
+  const laps = computeLaps(session);
+  if (laps.length < 2) return '';
+  const fixed = (value: number | null, digits: number) => (value !== null ? value.toFixed(digits) : '–');
+  const rows = laps.map(lap => `<tr><td>${escapeHtml(lapLabel(lap))}</td>`
+    + `<td class="num">${formatDuration(lap.durationMs)}</td>`
+    + `<td class="num">${fixed(lap.meanHeartRate, 0)}</td>`
+    + `<td class="num">${fixed(lap.meanAlpha1, 2)}</td>`
+    + `<td class="num">${fixed(lap.tailAlpha1, 2)}</td>`
+    + `<td class="num">${lap.artifactPercent !== null ? `${lap.artifactPercent.toFixed(1)}%` : '–'}</td>`
+    + `<td class="num">${lap.meanPower !== null ? `${Math.round(lap.meanPower)} W` : '–'}</td></tr>`);
+  return `<h2>Laps</h2>
+<table>
+  <tr><th>Lap</th><th class="num">Time</th><th class="num">HR</th><th class="num">α1</th><th class="num">α1 last ${LAP_TAIL_MS / 60000} min</th><th class="num">Artifacts</th><th class="num">Power</th></tr>
+  ${rows.join('\n  ')}
+</table>`;
+};
+
+export const renderReportHtml = (session: RecordedSession, report: SessionReport): string => {
+  const { hrv, thresholds, zones } = report;
+  const range = `${new Date(report.start).toLocaleString()} – ${new Date(report.end).toLocaleTimeString()}`;
+  const estimates = estimateRows('Heart rate', thresholds.heartRate)
+    + estimateRows('Power', thresholds.power)
+    + estimateRows('Pace', thresholds.speed);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.name)} – DFA α1 report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1rem; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  td, th { padding: 0.3rem 0.5rem; border-bottom: 1px solid #e2e8f0; text-align: left; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .bar { width: 50%; }
+  .bar div { height: 0.8rem; border-radius: 2px; }
+  .muted { color: #64748b; font-size: 0.85rem; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 1.5rem; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(session.name)}</h1>
+<p class="muted">${range}${session.athlete ? ` · ${escapeHtml(session.athlete.name)}` : ''}${session.deviceName ? ` · ${escapeHtml(session.deviceName)}` : ''}</p>
+
+<h2>Summary</h2>
+<table>
+  <tr><td>Duration</td><td class="num">${formatDuration(report.durationMs)}</td></tr>
+  <tr><td>Beats</td><td class="num">${hrv?.beats ?? 0}</td></tr>
+  <tr><td>Artifacts corrected</td><td class="num">${hrv ? hrv.artifactPercent.toFixed(1) : '0.0'}%</td></tr>
+  <tr><td>Sensor dropouts</td><td class="num">${report.gapCount}</td></tr>
+  <tr><td>Zones</td><td class="num">AeT α1 ${zones.aerobic} · AnT α1 ${zones.anaerobic}</td></tr>
+</table>
+
+<h2>Time in zone</h2>
+${zoneBars(report)}
+
+<h2>Distributions</h2>
+<div class="grid">
+  <div><p class="muted">Heart rate (bpm)</p>${histogramSvg(report.hrHistogram, b => `${b.from}–${b.to}`)}</div>
+  <div><p class="muted">α1</p>${histogramSvg(report.alphaHistogram, b => `${b.from.toFixed(1)}–${b.to.toFixed(1)}`)}</div>
+</div>
+
+<h2>HRV</h2>
+${hrv ? `<table>
+  <tr><td>Mean RR</td><td class="num">${hrv.meanRR.toFixed(0)} ms</td></tr>
+  <tr><td>Mean HR</td><td class="num">${hrv.meanHr.toFixed(0)} bpm</td></tr>
+  <tr><td>SDNN</td><td class="num">${hrv.sdnn.toFixed(1)} ms</td></tr>
+  <tr><td>RMSSD</td><td class="num">${hrv.rmssd.toFixed(1)} ms</td></tr>
+  <tr><td>pNN50</td><td class="num">${hrv.pnn50.toFixed(1)}%</td></tr>
+</table>` : '<p class="muted">Not enough beats</p>'}
+
+${lapTable(session)}
+
+<h2>Threshold estimates</h2>
+${estimates ? `<table>
+  <tr><th></th><th>AeT (α1 ${zones.aerobic})</th><th>AnT (α1 ${zones.anaerobic})</th><th class="num">R²</th></tr>
+  ${estimates}
+</table>` : '<p class="muted">Not enough valid windows for a fit</p>'}
+</body>
+</html>
+`;
+};
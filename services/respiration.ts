@@ -0,0 +1,128 @@
+import { BreathingConfound, DfaOptions } from '../types';
+import {
+  RESPIRATION_BOX_MARGIN,
+  RESPIRATION_CLEAR_SHARE,
+  RESPIRATION_MIN_POWER,
+  RESPIRATION_NOISE_FLATNESS,
+  RESPIRATION_PACED_SHARE,
+  RESPIRATION_RATE_RANGE,
+} from '../constants';
+import { lombScargle } from './spectrum';
+
+/**
+ * Breathing rate from respiratory sinus arrhythmia: the NN series of a DFA
+ * window is scanned for its strongest oscillation between the lowest
+ * plausible breathing rate and half the heart rate (beats sample the
+ * breathing signal once each, so nothing faster can be resolved).
+ */
+
+export interface RespirationEstimate {
+  rate: number | null; // Breaths/min at the spectral peak; null without a clear peak
+  beatsPerBreath: number | null;
+  peakShare: number; // Fraction of the band's power around the peak, 0–1
+  flatness: number; // Of the PSD with its 1/f slope removed: ~0.56 for fractal or white noise, lower with a hump or peak
+}
+
+const FREQUENCY_STEP = 0.005; // Hz
+const PEAK_HALF_WIDTH = 0.03; // Hz either side of the peak counted as the breathing rhythm
+const MIN_BEATS = 50;
+
+// Least-squares line removed first so a drifting HR doesn't leak into the lowest rates
+const detrend = (times: number[], values: number[]): number[] => {
+  const n = times.length;
+  const meanT = times.reduce((a, b) => a + b, 0) / n;
+  const meanV = values.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (times[i] - meanT) * (values[i] - meanV);
+    sxx += (times[i] - meanT) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return values.map((v, i) => v - meanV - slope * (times[i] - meanT));
+};
+
+/**
+ * Spectral flatness (geometric over arithmetic mean) after dividing out a
+ * power law fitted to log-power against log-frequency. Plain 1/f HRV and
+ * white noise both come out near 0.56, the value for a noise periodogram;
+ * only structure on top of the power law, such as a breathing hump, lowers it.
+ */
+const whitenedFlatness = (frequencies: number[], psd: number[]): number => {
+  const x = frequencies.map(Math.log);
+  const y = psd.map(p => Math.log(Math.max(p, 1e-12)));
+  const n = x.length;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - meanX) * (y[i] - meanY);
+    sxx += (x[i] - meanX) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const residual = y.map((v, i) => v - meanY - slope * (x[i] - meanX));
+  const geometric = Math.exp(residual.reduce((a, b) => a + b, 0) / n);
+  const arithmetic = residual.reduce((sum, r) => sum + Math.exp(r), 0) / n;
+  return geometric / arithmetic;
+};
+
+// Expects artifact-corrected intervals in ms; null when the window is too short or RSA too weak
+export const estimateRespiration = (cleanRR: number[]): RespirationEstimate | null => {
+  const n = cleanRR.length;
+  if (n < MIN_BEATS) return null;
+
+  const times: number[] = [];
+  let t = 0;
+  for (const rr of cleanRR) {
+    t += rr / 1000;
+    times.push(t);
+  }
+  const meanRR = (t * 1000) / n;
+  const low = RESPIRATION_RATE_RANGE.min / 60;
+  const high = Math.min(RESPIRATION_RATE_RANGE.max / 60, 500 / meanRR); // 500 = half of 1000 ms/s
+  if (high - low < 2 * PEAK_HALF_WIDTH) return null;
+
+  const frequencies: number[] = [];
+  for (let f = low; f <= high; f += FREQUENCY_STEP) frequencies.push(f);
+  const psd = lombScargle(times, detrend(times, cleanRR), frequencies);
+
+  let peak = 0;
+  let total = 0;
+  psd.forEach((p, i) => {
+    total += p;
+    if (p > psd[peak]) peak = i;
+  });
+  if (total * FREQUENCY_STEP < RESPIRATION_MIN_POWER) return null;
+
+  const peakHz = frequencies[peak];
+  const peakShare = psd.reduce((sum, p, i) => (Math.abs(frequencies[i] - peakHz) <= PEAK_HALF_WIDTH ? sum + p : sum), 0) / total;
+  const clear = peakShare >= RESPIRATION_CLEAR_SHARE;
+  return {
+    rate: clear ? peakHz * 60 : null,
+    beatsPerBreath: clear ? 1000 / (peakHz * meanRR) : null,
+    peakShare,
+    flatness: whitenedFlatness(frequencies, psd),
+  };
+};
+
+/**
+ * Breathing that is known to bias alpha1. A breath cycle as short as the
+ * smallest boxes puts a strong oscillation right into the short-term fit
+ * (typical near threshold, at 3–5 beats per breath), paced breathing
+ * imposes one rhythm at any rate, and a broad hump without a clear peak
+ * (talking, breath holds) adds non-fractal noise. A spectrum that is flat
+ * once its 1/f slope is removed is ordinary fractal or beat-to-beat noise
+ * and is not flagged.
+ */
+export const breathingConfound = (estimate: RespirationEstimate, dfa: DfaOptions): BreathingConfound | null => {
+  const { beatsPerBreath, peakShare, flatness } = estimate;
+  if (beatsPerBreath === null) return flatness < RESPIRATION_NOISE_FLATNESS ? 'irregular' : null;
+  if (beatsPerBreath <= dfa.minBoxSize * (1 + RESPIRATION_BOX_MARGIN)) return 'boxRange';
+  if (peakShare >= RESPIRATION_PACED_SHARE) return 'paced';
+  return null;
+};
+
+export const BREATHING_CONFOUND_LABELS: Record<BreathingConfound, string> = {
+  boxRange: 'breath cycle as short as the α1 boxes',
+  paced: 'paced breathing',
+  irregular: 'irregular breathing',
+};
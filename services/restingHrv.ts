@@ -0,0 +1,275 @@
+import {
+  ArtifactCorrectionOptions, FrequencyMetrics, OrthostaticResponse, RestingMetrics, RestingPhase,
+  RestingProtocol, RestingTestResult, RestingTestState, RestingTrendPoint, RRInterval,
+} from '../types';
+import {
+  DEFAULT_SESSION_SETTINGS, RESTING_BASELINE_DAYS, RESTING_BASELINE_MIN_DAYS, RESTING_PHASE_SECONDS, RR_GAP_THRESHOLD_MS,
+} from '../constants';
+import { correctArtifacts } from './artifactCorrection';
+import { lombScargle } from './spectrum';
+import { hrvMetrics } from './sessionReport';
+import { createSessionId } from './sessionRecorder';
+
+/**
+ * Resting HRV and orthostatic test: a timed protocol on the same RR stream
+ * as the exercise pipeline, reported with time- and frequency-domain
+ * metrics and kept apart from exercise sessions.
+ */
+
+const PHASES: Record<RestingProtocol, RestingPhase[]> = {
+  supine: ['settle', 'supine'],
+  orthostatic: ['settle', 'supine', 'standing'],
+};
+
+export const PHASE_PROMPTS: Record<RestingPhase, string> = {
+  settle: 'Lie down and relax',
+  supine: 'Stay still and breathe normally',
+  standing: 'Stand up now and stay still',
+};
+
+// Frequency bands in Hz (Task Force 1996)
+const VLF_LOW = 0.0033;
+const LF_LOW = 0.04;
+const HF_LOW = 0.15;
+const HF_HIGH = 0.4;
+const FREQUENCY_STEP = 0.001;
+const MIN_SPECTRUM_SECONDS = 120; // Two full cycles of the lowest LF frequency and then some
+
+const PEAK_WINDOW_MS = 30000; // Standing HR peak is searched in the first 30 s
+const PEAK_SMOOTH_BEATS = 3; // Rolling mean so a single missed correction can't set the peak
+const STANDING_STABLE_MS = 60000; // Standing HR: mean over the final minute
+
+// Corrected NN intervals with beat times rebuilt from the cumulative sum, per run between dropouts
+const nnSeries = (beats: RRInterval[], correction: ArtifactCorrectionOptions) => {
+  const times: number[] = [];
+  const values: number[] = [];
+  let run: RRInterval[] = [];
+  const flush = () => {
+    if (run.length === 0) return;
+    const { rr } = correctArtifacts(run.map(b => b.intervalMs), correction);
+    let t = (run[0].timestamp - run[0].intervalMs) / 1000;
+    for (const nn of rr) {
+      t += nn / 1000;
+      times.push(t);
+      values.push(nn);
+    }
+    run = [];
+  };
+  beats.forEach((beat, i) => {
+    const prev = beats[i - 1];
+    if (prev && beat.timestamp - prev.timestamp - beat.intervalMs > RR_GAP_THRESHOLD_MS) flush();
+    run.push(beat);
+  });
+  flush();
+  return { times, values };
+};
+
+export const frequencyMetrics = (
+  beats: RRInterval[],
+  correction: ArtifactCorrectionOptions = DEFAULT_SESSION_SETTINGS.artifactCorrection,
+): FrequencyMetrics | null => {
+  const { times, values } = nnSeries(beats, correction);
+  if (values.length < 2 || times[times.length - 1] - times[0] < MIN_SPECTRUM_SECONDS) return null;
+
+  const frequencies: number[] = [];
+  for (let f = VLF_LOW; f <= HF_HIGH; f += FREQUENCY_STEP) frequencies.push(f);
+  const psd = lombScargle(times, values, frequencies);
+  const band = (low: number, high: number) =>
+    psd.reduce((sum, p, i) => (frequencies[i] >= low && frequencies[i] < high ? sum + p * FREQUENCY_STEP : sum), 0);
+
+  const lf = band(LF_LOW, HF_LOW);
+  const hf = band(HF_LOW, HF_HIGH + FREQUENCY_STEP / 2);
+  return { lf, hf, lfHf: hf > 0 ? lf / hf : null, totalPower: band(VLF_LOW, HF_HIGH + FREQUENCY_STEP / 2) };
+};
+
+export const restingMetrics = (beats: RRInterval[], correction: ArtifactCorrectionOptions): RestingMetrics | null => {
+  const hrv = hrvMetrics(beats, correction);
+  if (!hrv || hrv.rmssd <= 0) return null;
+  return { ...hrv, lnRmssd: Math.log(hrv.rmssd), frequency: frequencyMetrics(beats, correction) };
+};
+
+export const orthostaticResponse = (
+  supine: RestingMetrics,
+  standingBeats: RRInterval[],
+  standStart: number,
+  correction: ArtifactCorrectionOptions,
+): OrthostaticResponse | null => {
+  const { times, values } = nnSeries(standingBeats, correction);
+  if (values.length < PEAK_SMOOTH_BEATS) return null;
+
+  let peakHr = 0;
+  for (let i = PEAK_SMOOTH_BEATS - 1; i < values.length && times[i] * 1000 <= standStart + PEAK_WINDOW_MS; i++) {
+    const mean = values.slice(i - PEAK_SMOOTH_BEATS + 1, i + 1).reduce((a, b) => a + b, 0) / PEAK_SMOOTH_BEATS;
+    peakHr = Math.max(peakHr, 60000 / mean);
+  }
+  const end = times[times.length - 1] * 1000;
+  const stable = values.filter((_, i) => times[i] * 1000 >= end - STANDING_STABLE_MS);
+  const standingHr = 60000 / (stable.reduce((a, b) => a + b, 0) / stable.length);
+  if (peakHr === 0) return null;
+
+  return {
+    supineHr: supine.meanHr,
+    peakHr,
+    peakDelta: peakHr - supine.meanHr,
+    standingHr,
+    standingDelta: standingHr - supine.meanHr,
+  };
+};
+
+export const IDLE_RESTING_TEST: RestingTestState = {
+  status: 'idle',
+  protocol: 'supine',
+  phase: null,
+  phaseStartedAt: null,
+  phaseEndsAt: null,
+  startedAt: null,
+  beatCount: 0,
+  result: null,
+  error: null,
+};
+
+/**
+ * Runs the timed protocol on the data clock. Beats are stamped the same way
+ * the session recorder does it, so dropouts show up as gaps and are never
+ * bridged by the successive-difference metrics.
+ */
+export class RestingTestController {
+  private state: RestingTestState = IDLE_RESTING_TEST;
+  private beats: RRInterval[] = [];
+  private beatClock: number | null = null;
+  private phaseBounds: Partial<Record<RestingPhase, { start: number; end: number }>> = {};
+  private correction: ArtifactCorrectionOptions = DEFAULT_SESSION_SETTINGS.artifactCorrection;
+  private athleteId: string | null = null;
+  private onChange: (state: RestingTestState) => void;
+  private onPhase: (phase: RestingPhase) => void;
+
+  constructor(onChange: (state: RestingTestState) => void, onPhase: (phase: RestingPhase) => void) {
+    this.onChange = onChange;
+    this.onPhase = onPhase;
+  }
+
+  get current(): RestingTestState {
+    return this.state;
+  }
+
+  start(protocol: RestingProtocol, now: number, correction: ArtifactCorrectionOptions, athleteId: string | null) {
+    this.beats = [];
+    this.beatClock = null;
+    this.phaseBounds = {};
+    this.correction = correction;
+    this.athleteId = athleteId;
+    this.setState({ ...IDLE_RESTING_TEST, status: 'running', protocol, startedAt: now });
+    this.enterPhase(PHASES[protocol][0], now);
+  }
+
+  abort() {
+    if (this.state.status === 'running') this.setState(IDLE_RESTING_TEST);
+  }
+
+  reset() {
+    this.setState(IDLE_RESTING_TEST);
+  }
+
+  // Feed every beat packet; also advances the protocol clock
+  addBeats(rrIntervals: number[], arrivalTime: number) {
+    if (this.state.status !== 'running') return;
+    const packetStart = arrivalTime - rrIntervals.reduce((a, b) => a + b, 0);
+    if (this.beatClock === null || packetStart - this.beatClock > RR_GAP_THRESHOLD_MS) this.beatClock = packetStart;
+    for (const rr of rrIntervals) {
+      this.beatClock += rr;
+      this.beats.push({ timestamp: this.beatClock, intervalMs: rr });
+    }
+    this.tick(arrivalTime);
+  }
+
+  tick(now: number) {
+    const { status, phase, phaseEndsAt, protocol } = this.state;
+    if (status !== 'running' || phase === null || phaseEndsAt === null || now < phaseEndsAt) {
+      if (status === 'running') this.setState({ ...this.state, beatCount: this.beats.length });
+      return;
+    }
+    this.phaseBounds[phase] = { start: this.state.phaseStartedAt!, end: phaseEndsAt };
+    const next = PHASES[protocol][PHASES[protocol].indexOf(phase) + 1];
+    if (next) this.enterPhase(next, phaseEndsAt);
+    else this.finish();
+  }
+
+  private enterPhase(phase: RestingPhase, now: number) {
+    this.setState({
+      ...this.state,
+      phase,
+      phaseStartedAt: now,
+      phaseEndsAt: now + RESTING_PHASE_SECONDS[phase] * 1000,
+      beatCount: this.beats.length,
+    });
+    this.onPhase(phase);
+  }
+
+  private finish() {
+    const inPhase = (phase: RestingPhase) => {
+      const bounds = this.phaseBounds[phase];
+      return bounds ? this.beats.filter(b => b.timestamp >= bounds.start && b.timestamp < bounds.end) : [];
+    };
+    const supine = restingMetrics(inPhase('supine'), this.correction);
+    const standingBeats = inPhase('standing');
+    const standing = this.state.protocol === 'orthostatic' ? restingMetrics(standingBeats, this.correction) : null;
+
+    if (!supine) {
+      this.setState({ ...this.state, status: 'finished', phase: null, error: 'Not enough clean beats in the supine phase' });
+      return;
+    }
+    const standStart = this.phaseBounds.standing?.start;
+    const result: RestingTestResult = {
+      id: createSessionId(this.state.startedAt!),
+      timestamp: this.state.startedAt!,
+      protocol: this.state.protocol,
+      athleteId: this.athleteId,
+      supine,
+      standing,
+      orthostatic: standStart !== undefined ? orthostaticResponse(supine, standingBeats, standStart, this.correction) : null,
+      rrIntervals: this.beats,
+    };
+    this.setState({ ...this.state, status: 'finished', phase: null, beatCount: this.beats.length, result });
+  }
+
+  private setState(state: RestingTestState) {
+    this.state = state;
+    this.onChange(state);
+  }
+}
+
+export const localDay = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily ln(RMSSD) with a rolling baseline over the preceding
+ * RESTING_BASELINE_DAYS days. The first test of a day counts, as morning
+ * readings are the comparable ones. A day outside baseline ± 1 SD is
+ * flagged.
+ */
+export const dailyRestingTrend = (results: RestingTestResult[]): RestingTrendPoint[] => {
+  const byDay = new Map<string, RestingTestResult>();
+  for (const r of [...results].sort((a, b) => a.timestamp - b.timestamp)) {
+    const day = localDay(r.timestamp);
+    if (!byDay.has(day)) byDay.set(day, r);
+  }
+  const days = [...byDay.entries()];
+
+  return days.map(([day, r]) => {
+    const window = days
+      .filter(([, other]) => other.timestamp < r.timestamp && r.timestamp - other.timestamp <= RESTING_BASELINE_DAYS * DAY_MS)
+      .map(([, other]) => other.supine.lnRmssd);
+    const enough = window.length >= RESTING_BASELINE_MIN_DAYS;
+    const mean = enough ? window.reduce((a, b) => a + b, 0) / window.length : null;
+    const sd = enough && mean !== null
+      ? Math.sqrt(window.reduce((a, v) => a + (v - mean) ** 2, 0) / (window.length - 1))
+      : null;
+    const value = r.supine.lnRmssd;
+    const status = mean === null || sd === null ? null : value < mean - sd ? 'low' : value > mean + sd ? 'high' : 'normal';
+    return { day, timestamp: r.timestamp, lnRmssd: value, restingHr: r.supine.meanHr, baselineMean: mean, baselineSd: sd, status };
+  });
+};
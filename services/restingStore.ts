@@ -0,0 +1,21 @@
+import { RestingTestResult } from '../types';
+import { runRequest, STORE_RESTING_TESTS } from './db';
+
+/**
+ * Resting HRV tests in IndexedDB, kept in their own store so they never
+ * show up among exercise sessions.
+ */
+
+export const saveRestingTest = async (result: RestingTestResult): Promise<void> => {
+  await runRequest(STORE_RESTING_TESTS, 'readwrite', store => store.put(result));
+};
+
+// Oldest first; `athleteId` null lists the tests taken without a profile
+export const listRestingTests = async (athleteId: string | null): Promise<RestingTestResult[]> => {
+  const results = await runRequest<RestingTestResult[]>(STORE_RESTING_TESTS, 'readonly', store => store.index('timestamp').getAll());
+  return results.filter(r => r.athleteId === athleteId);
+};
+
+export const deleteRestingTest = async (id: string): Promise<void> => {
+  await runRequest(STORE_RESTING_TESTS, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,113 @@
+import { decodeFit } from './fitDecoder';
+import { MESG_HRV } from './fitProtocol';
+
+/**
+ * Parsers for RR interval files produced by other tools.
+ * All parsers return intervals in milliseconds.
+ */
+
+export type RRFileFormat = 'plain' | 'kubios' | 'csv' | 'fit';
+
+export interface ImportedRR {
+  format: RRFileFormat;
+  rrIntervals: number[];
+}
+
+// Values below this are assumed to be seconds rather than milliseconds
+const SECONDS_CUTOFF = 10;
+
+const toMs = (values: number[]): number[] => {
+  if (values.length === 0) return values;
+  const sorted = [...values].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return median < SECONDS_CUTOFF ? values.map(v => v * 1000) : values;
+};
+
+const parseNumber = (cell: string): number => Number(cell.trim().replace(',', '.'));
+
+// One value per line, as written by Elite HRV and our own RR export
+export const parsePlainRR = (text: string): number[] =>
+  toMs(text.split(/\r?\n/).map(parseNumber).filter(v => Number.isFinite(v) && v > 0));
+
+/**
+ * Kubios accepts one or two whitespace-separated columns (time + RR, or RR only),
+ * optionally preceded by header lines. The RR column is the last numeric one.
+ */
+export const parseKubiosText = (text: string): number[] => {
+  const values: number[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.trim().split(/\s+/).filter(Boolean);
+    if (cells.length === 0) continue;
+    const rr = parseNumber(cells[cells.length - 1]);
+    if (Number.isFinite(rr) && rr > 0) values.push(rr);
+  }
+  return toMs(values);
+};
+
+/**
+ * Delimited exports (Polar Sensor Logger, Polar Flow, Elite HRV CSV).
+ * Picks the column whose header mentions RR, else the last column.
+ */
+export const parseDelimitedRR = (text: string): number[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const delimiter = [';', ',', '\t'].find(d => lines[0].includes(d)) ?? ',';
+  const header = lines[0].split(delimiter).map(h => h.trim().toLowerCase());
+  const hasHeader = header.some(h => h !== '' && !Number.isFinite(parseNumber(h)));
+
+  let column = header.findIndex(h => /\brr\b|rr[-_ ]?interval|ibi/.test(h));
+  if (column < 0) column = header.length - 1;
+
+  const values: number[] = [];
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = line.split(delimiter);
+    // Polar exports can list several RR values in one cell separated by spaces
+    for (const part of (cells[column] ?? '').trim().split(/\s+/)) {
+      const rr = parseNumber(part);
+      if (Number.isFinite(rr) && rr > 0) values.push(rr);
+    }
+  }
+  return toMs(values);
+};
+
+// HRV messages (global 78) hold up to five beat intervals in 1/1000 s each
+export const parseFitRR = (buffer: ArrayBuffer): number[] => {
+  const rr: number[] = [];
+  for (const msg of decodeFit(buffer)) {
+    if (msg.globalNum !== MESG_HRV) continue;
+    const time = msg.fields[0];
+    const values = Array.isArray(time) ? time : typeof time === 'number' ? [time] : [];
+    for (const v of values) rr.push(v); // already ms at scale 1000
+  }
+  return rr;
+};
+
+export const detectFormat = (fileName: string, head: string): RRFileFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.fit') || head.slice(8, 12) === '.FIT') return 'fit';
+  if (name.endsWith('.csv') || /[;,]/.test(head.split(/\r?\n/)[0] ?? '')) return 'csv';
+  if (/[a-z]/i.test(head) || /\S\s+\S/.test(head.split(/\r?\n/)[0] ?? '')) return 'kubios';
+  return 'plain';
+};
+
+export const importRRFile = async (file: File): Promise<ImportedRR> => {
+  const buffer = await file.arrayBuffer();
+  const head = new TextDecoder('latin1').decode(buffer.slice(0, 512));
+  const format = detectFormat(file.name, head);
+
+  let rrIntervals: number[];
+  if (format === 'fit') {
+    rrIntervals = parseFitRR(buffer);
+  } else {
+    const text = new TextDecoder().decode(buffer);
+    rrIntervals = format === 'csv' ? parseDelimitedRR(text)
+      : format === 'kubios' ? parseKubiosText(text)
+      : parsePlainRR(text);
+  }
+
+  if (rrIntervals.length === 0) {
+    throw new Error(`No RR intervals found in ${file.name}`);
+  }
+  return { format, rrIntervals };
+};
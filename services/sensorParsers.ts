@@ -0,0 +1,64 @@
+/**
+ * Parsers for the GATT measurement characteristics of intensity sensors:
+ * Cycling Power Measurement (0x2A63) and RSC Measurement (0x2A53).
+ */
+
+export interface CyclingPowerMeasurement {
+  power: number; // W
+  crankRevolutions?: number; // Cumulative, wraps at 2^16
+  crankEventTime?: number; // Last crank event, 1/1024 s, wraps at 2^16
+}
+
+export interface RscMeasurement {
+  speed: number; // m/s
+  cadence: number; // steps/min
+  strideLength?: number; // m
+  totalDistance?: number; // m
+  isRunning: boolean;
+}
+
+export const parseCyclingPower = (data: DataView): CyclingPowerMeasurement => {
+  const flags = data.getUint16(0, true);
+  const power = data.getInt16(2, true);
+  let offset = 4;
+
+  if (flags & 0x01) offset += 1; // Pedal power balance
+  if (flags & 0x04) offset += 2; // Accumulated torque
+  if (flags & 0x10) offset += 6; // Wheel revolutions (uint32) + last wheel event time (uint16)
+
+  const measurement: CyclingPowerMeasurement = { power };
+  if (flags & 0x20 && offset + 4 <= data.byteLength) {
+    measurement.crankRevolutions = data.getUint16(offset, true);
+    measurement.crankEventTime = data.getUint16(offset + 2, true);
+  }
+  return measurement;
+};
+
+// Cadence from two crank samples, or null when the crank has not turned
+export const crankCadence = (prev: CyclingPowerMeasurement, next: CyclingPowerMeasurement): number | null => {
+  if (prev.crankRevolutions === undefined || prev.crankEventTime === undefined) return null;
+  if (next.crankRevolutions === undefined || next.crankEventTime === undefined) return null;
+  const revs = (next.crankRevolutions - prev.crankRevolutions + 0x10000) % 0x10000;
+  const ticks = (next.crankEventTime - prev.crankEventTime + 0x10000) % 0x10000;
+  if (revs === 0 || ticks === 0) return null;
+  return (revs * 60 * 1024) / ticks;
+};
+
+export const parseRsc = (data: DataView): RscMeasurement => {
+  const flags = data.getUint8(0);
+  const measurement: RscMeasurement = {
+    speed: data.getUint16(1, true) / 256,
+    cadence: data.getUint8(3),
+    isRunning: (flags & 0x04) !== 0,
+  };
+  let offset = 4;
+
+  if (flags & 0x01) {
+    measurement.strideLength = data.getUint16(offset, true) / 100;
+    offset += 2;
+  }
+  if (flags & 0x02) {
+    measurement.totalDistance = data.getUint32(offset, true) / 10;
+  }
+  return measurement;
+};
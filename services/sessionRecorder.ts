@@ -0,0 +1,112 @@
+import { DFADataPoint, LapMarker, RecordedSession, RRInterval, SessionAthlete, SessionSettings } from '../types';
+import { RR_GAP_THRESHOLD_MS } from '../constants';
+
+export const createSessionId = (now: number = Date.now()): string =>
+  `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Keeps the complete raw RR series and computed DFA history of a session.
+ * The live pipeline only holds a short rolling buffer, so this is the
+ * single source for exports and offline re-analysis.
+ */
+export class SessionRecorder {
+  private session: RecordedSession | null = null;
+  // Running beat clock: each RR interval is stamped at the time its beat ended
+  private beatClock: number | null = null;
+
+  start(
+    settings: SessionSettings,
+    deviceName: string | null = null,
+    now: number = Date.now(),
+    athlete?: SessionAthlete,
+  ): RecordedSession {
+    this.session = {
+      id: createSessionId(now),
+      name: `Session ${new Date(now).toLocaleString()}`,
+      deviceName,
+      startTime: now,
+      endTime: null,
+      rrIntervals: [],
+      history: [],
+      settings,
+      gaps: [],
+      athlete,
+      laps: [],
+    };
+    this.beatClock = null;
+    return this.session;
+  }
+
+  // Continues a session whose tab was discarded or reloaded mid-recording;
+  // the first new packet is recorded as a gap after the last stored beat
+  resume(session: RecordedSession): RecordedSession {
+    const beats = session.rrIntervals;
+    this.session = { ...session, endTime: null, gaps: session.gaps ?? [], laps: session.laps ?? [] };
+    this.beatClock = beats.length > 0 ? beats[beats.length - 1].timestamp : null;
+    return this.session;
+  }
+
+  stop(now: number = Date.now()) {
+    if (this.session && this.session.endTime === null) {
+      this.session.endTime = now;
+    }
+  }
+
+  // Forgets the session entirely, e.g. one auto-started before a resting test
+  discard() {
+    this.session = null;
+    this.beatClock = null;
+  }
+
+  // Settings changed mid-session; the session keeps the latest values
+  updateSettings(settings: Partial<SessionSettings>) {
+    if (this.session) this.session.settings = { ...this.session.settings, ...settings };
+  }
+
+  rename(name: string) {
+    if (this.session) this.session.name = name;
+  }
+
+  get isRecording(): boolean {
+    return this.session !== null && this.session.endTime === null;
+  }
+
+  getSession(): RecordedSession | null {
+    return this.session;
+  }
+
+  addBeats(rrIntervals: number[], arrivalTime: number = Date.now()) {
+    if (!this.isRecording || rrIntervals.length === 0) return;
+
+    // The packet arrives right after its last beat, so anchor the first
+    // packet to the arrival time and advance by the intervals afterwards.
+    // After a dropout the clock is re-anchored and the gap recorded.
+    const packetStart = arrivalTime - rrIntervals.reduce((a, b) => a + b, 0);
+    if (this.beatClock === null) {
+      this.beatClock = packetStart;
+    } else if (packetStart - this.beatClock > RR_GAP_THRESHOLD_MS) {
+      this.session!.gaps!.push({ start: this.beatClock, end: packetStart });
+      this.beatClock = packetStart;
+    }
+
+    for (const rr of rrIntervals) {
+      this.beatClock += rr;
+      const beat: RRInterval = { timestamp: this.beatClock, intervalMs: rr };
+      this.session!.rrIntervals.push(beat);
+    }
+  }
+
+  // Stamped on the beat clock so laps line up with the recorded data,
+  // whichever clock the source runs on
+  addLap(label: string): LapMarker | null {
+    if (!this.isRecording) return null;
+    const lap = { timestamp: this.beatClock ?? this.session!.startTime, label: label.trim() };
+    this.session!.laps!.push(lap);
+    return lap;
+  }
+
+  addDataPoint(point: DFADataPoint) {
+    if (!this.isRecording) return;
+    this.session!.history.push(point);
+  }
+}
@@ -0,0 +1,125 @@
+import { ArtifactCorrectionOptions, DFADataPoint, HistogramBin, HrvMetrics, RecordedSession, RRInterval, SessionReport } from '../types';
+import { DEFAULT_ALPHA_ZONES, RR_GAP_THRESHOLD_MS } from '../constants';
+import { correctArtifacts } from './artifactCorrection';
+import { analyzeRampTest } from './thresholdService';
+import { zoneFor } from './zones';
+
+/**
+ * Post-session summary: time in zone, distributions, time-domain HRV and
+ * threshold estimates, for the whole session or a segment of it.
+ */
+
+export const REPORT_ZONES = ['aerobic', 'threshold', 'anaerobic', 'lowQuality'] as const;
+
+const HR_BIN_BPM = 5;
+const ALPHA_BIN = 0.1;
+
+export const formatDuration = (ms: number) => {
+  const totalSec = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${s}s`;
+};
+
+// Consecutive beats whose timestamps leave no dropout between them
+const contiguousRuns = (beats: RRInterval[]): number[][] => {
+  const runs: number[][] = [];
+  let run: number[] = [];
+  beats.forEach((beat, i) => {
+    const prev = beats[i - 1];
+    if (prev && beat.timestamp - prev.timestamp - beat.intervalMs > RR_GAP_THRESHOLD_MS) {
+      runs.push(run);
+      run = [];
+    }
+    run.push(beat.intervalMs);
+  });
+  runs.push(run);
+  return runs.filter(r => r.length > 0);
+};
+
+/**
+ * RMSSD, SDNN, pNN50 and mean RR after artifact correction. Successive
+ * differences are only taken within a run, never across a dropout.
+ */
+export const hrvMetrics = (beats: RRInterval[], correction: ArtifactCorrectionOptions): HrvMetrics | null => {
+  let corrected = 0;
+  let total = 0;
+  const nn: number[] = [];
+  const diffs: number[] = [];
+
+  for (const run of contiguousRuns(beats)) {
+    const { rr, report } = correctArtifacts(run, correction);
+    corrected += report.corrected;
+    total += report.totalBeats;
+    nn.push(...rr);
+    for (let i = 1; i < rr.length; i++) diffs.push(rr[i] - rr[i - 1]);
+  }
+  if (nn.length < 2) return null;
+
+  const meanRR = nn.reduce((a, b) => a + b, 0) / nn.length;
+  const variance = nn.reduce((a, b) => a + (b - meanRR) ** 2, 0) / (nn.length - 1);
+  return {
+    beats: nn.length,
+    meanRR,
+    meanHr: 60000 / meanRR,
+    sdnn: Math.sqrt(variance),
+    rmssd: diffs.length > 0 ? Math.sqrt(diffs.reduce((a, d) => a + d * d, 0) / diffs.length) : 0,
+    pnn50: diffs.length > 0 ? (diffs.filter(d => Math.abs(d) > 50).length / diffs.length) * 100 : 0,
+    artifactPercent: total > 0 ? (corrected / total) * 100 : 0,
+  };
+};
+
+export const histogram = (values: number[], binWidth: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const first = Math.floor(Math.min(...values) / binWidth);
+  const last = Math.floor(Math.max(...values) / binWidth);
+  const bins: HistogramBin[] = [];
+  for (let b = first; b <= last; b++) {
+    bins.push({ from: Number((b * binWidth).toFixed(6)), to: Number(((b + 1) * binWidth).toFixed(6)), count: 0 });
+  }
+  for (const v of values) bins[Math.floor(v / binWidth) - first].count++;
+  return bins;
+};
+
+// Each point stands for the time until the next one, capped so dropouts don't count
+export const timeInZone = (points: DFADataPoint[], step: number, zones: SessionReport['zones']): SessionReport['timeInZone'] => {
+  const result = { aerobic: 0, threshold: 0, anaerobic: 0, lowQuality: 0 };
+  points.forEach((p, i) => {
+    const next = points[i + 1];
+    const dt = next ? Math.min(next.timestamp - p.timestamp, step * 2) : step;
+    if (p.lowQuality) result.lowQuality += dt;
+    else result[zoneFor(p.alpha1, zones)] += dt;
+  });
+  return result;
+};
+
+// End time, or the last recorded beat or point while still recording
+export const sessionEndTime = (session: RecordedSession): number => session.endTime ?? Math.max(
+  session.startTime,
+  session.rrIntervals.length > 0 ? session.rrIntervals[session.rrIntervals.length - 1].timestamp : 0,
+  session.history.length > 0 ? session.history[session.history.length - 1].timestamp : 0,
+);
+
+export const buildSessionReport = (session: RecordedSession, segment?: { start: number; end: number }): SessionReport => {
+  const start = segment?.start ?? session.startTime;
+  const end = segment?.end ?? sessionEndTime(session);
+  const zones = session.athlete?.zones ?? DEFAULT_ALPHA_ZONES;
+
+  const points = session.history.filter(p => p.timestamp >= start && p.timestamp <= end);
+  const beats = session.rrIntervals.filter(b => b.timestamp >= start && b.timestamp <= end);
+  const valid = points.filter(p => !p.lowQuality);
+
+  return {
+    start,
+    end,
+    durationMs: Math.max(0, end - start),
+    zones,
+    timeInZone: timeInZone(points, session.settings.recomputeIntervalMs, zones),
+    hrHistogram: histogram(points.map(p => p.heartRate).filter(hr => hr > 0), HR_BIN_BPM),
+    alphaHistogram: histogram(valid.map(p => p.alpha1), ALPHA_BIN),
+    hrv: hrvMetrics(beats, session.settings.artifactCorrection),
+    gapCount: (session.gaps ?? []).filter(g => g.end >= start && g.start <= end).length,
+    thresholds: analyzeRampTest(session.history, start, end, zones),
+  };
+};
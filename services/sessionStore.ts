@@ -0,0 +1,42 @@
+import { RecordedSession, SessionSummary } from '../types';
+import { runRequest, runTransaction, STORE_SESSIONS, STORE_SESSION_SUMMARIES } from './db';
+import { summarizeSession } from './sessionSummary';
+
+/**
+ * IndexedDB persistence for recorded sessions.
+ * Sessions are written repeatedly while recording so a crash or reload
+ * loses at most the last autosave interval. Each save also writes the
+ * session's summary, which is all the session list reads.
+ */
+
+const runSessionRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runRequest(STORE_SESSIONS, mode, fn);
+
+export const saveSession = async (session: RecordedSession): Promise<void> => {
+  await runTransaction([STORE_SESSIONS, STORE_SESSION_SUMMARIES], 'readwrite', tx => {
+    tx.objectStore(STORE_SESSIONS).put(session);
+    tx.objectStore(STORE_SESSION_SUMMARIES).put(summarizeSession(session));
+  });
+};
+
+export const getSession = (id: string): Promise<RecordedSession | undefined> =>
+  runSessionRequest('readonly', store => store.get(id));
+
+// Newest first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const summaries = await runRequest<SessionSummary[]>(STORE_SESSION_SUMMARIES, 'readonly', store => store.index('startTime').getAll());
+  return summaries.reverse();
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, name });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runTransaction([STORE_SESSIONS, STORE_SESSION_SUMMARIES], 'readwrite', tx => {
+    tx.objectStore(STORE_SESSIONS).delete(id);
+    tx.objectStore(STORE_SESSION_SUMMARIES).delete(id);
+  });
+};
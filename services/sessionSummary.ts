@@ -0,0 +1,13 @@
+import { RecordedSession, SessionSummary } from '../types';
+
+// Everything the session list shows, without the beat and point series
+export const summarizeSession = ({ rrIntervals, history, gaps, laps, ...rest }: RecordedSession): SessionSummary => ({
+  ...rest,
+  beatCount: rrIntervals.length,
+  pointCount: history.length,
+  lastTimestamp: Math.max(
+    rest.startTime,
+    rrIntervals.length > 0 ? rrIntervals[rrIntervals.length - 1].timestamp : 0,
+    history.length > 0 ? history[history.length - 1].timestamp : 0,
+  ),
+});
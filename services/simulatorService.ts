@@ -0,0 +1,178 @@
+import { DataCallback, HeartRateDataSource, StatusCallback } from './dataSource';
+
+/**
+ * Synthetic heart-rate strap for development and demos.
+ *
+ * RR fluctuations are 1/f^beta noise from Kasdin's fractional-integration
+ * filter, with beta = 2 * alpha1 - 1 so the DFA short-term exponent of the
+ * output tracks the requested alpha1. HR and alpha1 ramp linearly over
+ * `rampMinutes`, and missed/extra beats can be injected at a given rate.
+ */
+
+export interface SimulatorSettings {
+  hrStart: number;
+  hrEnd: number;
+  alphaStart: number;
+  alphaEnd: number;
+  rampMinutes: number;
+  variabilityMs: number; // RR standard deviation at 60 bpm; shrinks with rising HR
+  missedBeatRate: number; // Fraction of beats merged with the next one
+  extraBeatRate: number; // Fraction of beats split in two
+}
+
+export const DEFAULT_SIMULATOR_SETTINGS: SimulatorSettings = {
+  hrStart: 100,
+  hrEnd: 170,
+  alphaStart: 1.2,
+  alphaEnd: 0.4,
+  rampMinutes: 20,
+  variabilityMs: 40,
+  missedBeatRate: 0,
+  extraBeatRate: 0,
+};
+
+const FILTER_ORDER = 128;
+const TICK_MS = 1000;
+
+// Short windows bias DFA towards 0.5; this linear map (fitted on 200-beat
+// windows, box sizes 4-16) makes the measured alpha1 land near the target.
+const calibratedAlpha = (target: number): number => (target - 0.25) / 0.75;
+
+const gaussian = (): number => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Streaming 1/f^beta noise generator. Coefficients follow
+ * a_k = (k - 1 - beta/2) * a_{k-1} / k, and the output is rescaled
+ * to unit variance using the truncated impulse response.
+ */
+export class FractalNoise {
+  private coeffs: number[] = [];
+  private gain = 1;
+  private state: number[] = [];
+  private beta = NaN;
+
+  setAlpha(alpha: number) {
+    const beta = 2 * alpha - 1;
+    if (Math.abs(beta - this.beta) < 0.01) return;
+    this.beta = beta;
+
+    const a = [1];
+    for (let k = 1; k <= FILTER_ORDER; k++) {
+      a.push(((k - 1 - beta / 2) * a[k - 1]) / k);
+    }
+    this.coeffs = a;
+
+    // Impulse response energy of the AR filter gives the output variance
+    const h: number[] = [];
+    let energy = 0;
+    for (let n = 0; n <= FILTER_ORDER * 4; n++) {
+      let y = n === 0 ? 1 : 0;
+      for (let k = 1; k <= FILTER_ORDER && k <= n; k++) y -= a[k] * h[n - k];
+      h.push(y);
+      energy += y * y;
+    }
+    this.gain = 1 / Math.sqrt(energy);
+  }
+
+  next(): number {
+    let y = gaussian();
+    for (let k = 1; k <= FILTER_ORDER && k <= this.state.length; k++) {
+      y -= this.coeffs[k] * this.state[this.state.length - k];
+    }
+    this.state.push(y);
+    if (this.state.length > FILTER_ORDER) this.state.shift();
+    return y * this.gain;
+  }
+}
+
+export class SimulatedHeartRateSource implements HeartRateDataSource {
+  readonly label = 'Simulator';
+  private settings: SimulatorSettings;
+  private onData: DataCallback;
+  private onStatus: StatusCallback;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private noise = new FractalNoise();
+  private startTime = 0;
+  private beatClock = 0;
+  private recentRR: number[] = [];
+
+  constructor(onData: DataCallback, onStatus: StatusCallback, settings: SimulatorSettings = DEFAULT_SIMULATOR_SETTINGS) {
+    this.onData = onData;
+    this.onStatus = onStatus;
+    this.settings = { ...settings };
+  }
+
+  getSettings(): SimulatorSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(settings: Partial<SimulatorSettings>) {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  async connect() {
+    this.disconnect();
+    this.startTime = Date.now();
+    this.beatClock = this.startTime;
+    this.recentRR = [];
+    this.timer = setInterval(this.tick, TICK_MS);
+    this.onStatus(true);
+  }
+
+  disconnect() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.onStatus(false);
+    }
+  }
+
+  // Current ramp targets at a given time
+  targetsAt(time: number): { hr: number; alpha: number } {
+    const { hrStart, hrEnd, alphaStart, alphaEnd, rampMinutes } = this.settings;
+    const progress = rampMinutes > 0 ? Math.min(1, (time - this.startTime) / (rampMinutes * 60000)) : 1;
+    return {
+      hr: hrStart + (hrEnd - hrStart) * progress,
+      alpha: alphaStart + (alphaEnd - alphaStart) * progress,
+    };
+  }
+
+  private nextBeat(): number {
+    const { hr, alpha } = this.targetsAt(this.beatClock);
+    this.noise.setAlpha(calibratedAlpha(alpha));
+    const meanRR = 60000 / hr;
+    const sd = this.settings.variabilityMs * (meanRR / 1000);
+    return Math.max(250, meanRR + sd * this.noise.next());
+  }
+
+  private tick = () => {
+    const now = Date.now();
+    const packet: number[] = [];
+
+    while (this.beatClock < now) {
+      let rr = this.nextBeat();
+      const r = Math.random();
+      if (r < this.settings.missedBeatRate) {
+        // Strap missed a beat: two intervals reported as one
+        rr += this.nextBeat();
+      } else if (r < this.settings.missedBeatRate + this.settings.extraBeatRate) {
+        // Spurious detection splits one interval in two
+        const split = rr * (0.3 + Math.random() * 0.4);
+        packet.push(split);
+        rr -= split;
+      }
+      this.beatClock += rr;
+      packet.push(rr);
+    }
+
+    if (packet.length === 0) return;
+
+    this.recentRR = [...this.recentRR, ...packet].slice(-5);
+    const meanRR = this.recentRR.reduce((a, b) => a + b, 0) / this.recentRR.length;
+    this.onData(Math.round(60000 / meanRR), packet, this.beatClock);
+  };
+}
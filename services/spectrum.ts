@@ -0,0 +1,26 @@
+/**
+ * Lomb–Scargle periodogram for unevenly sampled data, scaled to a PSD in
+ * value²/Hz so band powers integrate to the variance they explain.
+ */
+export const lombScargle = (times: number[], values: number[], frequencies: number[]): number[] => {
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const y = values.map(v => v - mean);
+  const duration = times[n - 1] - times[0];
+
+  return frequencies.map(f => {
+    const w = 2 * Math.PI * f;
+    let s2 = 0, c2 = 0;
+    for (const t of times) { s2 += Math.sin(2 * w * t); c2 += Math.cos(2 * w * t); }
+    const tau = Math.atan2(s2, c2) / (2 * w);
+
+    let yc = 0, ys = 0, cc = 0, ss = 0;
+    for (let i = 0; i < n; i++) {
+      const c = Math.cos(w * (times[i] - tau));
+      const s = Math.sin(w * (times[i] - tau));
+      yc += y[i] * c; ys += y[i] * s; cc += c * c; ss += s * s;
+    }
+    const power = 0.5 * ((cc > 0 ? (yc * yc) / cc : 0) + (ss > 0 ? (ys * ys) / ss : 0));
+    return (power * 2 * duration) / n;
+  });
+};
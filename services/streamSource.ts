@@ -0,0 +1,189 @@
+import {
+  DEFAULT_STREAM_URL,
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+  RECONNECT_MAX_ATTEMPTS,
+} from '../constants';
+import { DataCallback, HeartRateDataSource, StatusCallback } from './dataSource';
+
+/**
+ * Heart-rate input from a local WebSocket (ws://, wss://) or Server-Sent
+ * Events (http://, https://) endpoint, for browsers without Web Bluetooth
+ * and for watches bridged through scripts/rr-relay.mjs. Each message is
+ * one JSON object:
+ *
+ *   { "hr": 142, "rr": [421.5, 419.0], "ts": 1718000000000 }
+ *
+ * `hr` in bpm, `rr` the beats since the previous message in ms (may be
+ * empty or omitted), `ts` the sender's epoch ms of the last beat (optional;
+ * arrival time is used otherwise).
+ */
+
+export interface StreamMessage {
+  hr: number;
+  rr: number[];
+  ts?: number;
+}
+
+const STREAM_URL_KEY = 'dfa-a1-monitor.streamUrl';
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const parseStreamMessage = (text: string): StreamMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) return null;
+  const { hr, rr = [], ts } = data as Record<string, unknown>;
+  if (!isFiniteNumber(hr) || hr < 0) return null;
+  if (!Array.isArray(rr) || !rr.every(v => isFiniteNumber(v) && v > 0)) return null;
+  const intervals = rr as number[];
+  if (ts === undefined) return { hr, rr: intervals };
+  return isFiniteNumber(ts) ? { hr, rr: intervals, ts } : null;
+};
+
+export const isStreamUrl = (url: string): boolean => /^(wss?|https?):\/\/[^/\s]+/i.test(url.trim());
+
+export const getStreamUrl = (): string => {
+  try {
+    return localStorage.getItem(STREAM_URL_KEY) ?? DEFAULT_STREAM_URL;
+  } catch {
+    return DEFAULT_STREAM_URL;
+  }
+};
+
+export const setStreamUrl = (url: string) => {
+  try {
+    localStorage.setItem(STREAM_URL_KEY, url);
+  } catch {
+    // Storage disabled (private mode); the URL just isn't remembered
+  }
+};
+
+/**
+ * Reconnects with the same backoff as the Bluetooth sources when the
+ * endpoint goes away; EventSource's own retry is replaced by ours so both
+ * transports report reconnect attempts the same way.
+ */
+export class StreamSource implements HeartRateDataSource {
+  private url = DEFAULT_STREAM_URL;
+  private socket: WebSocket | EventSource | null = null;
+  private isOpen = false;
+  private userDisconnected = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private onData: DataCallback, private onStatus: StatusCallback) {}
+
+  get label(): string {
+    try {
+      return `Stream ${new URL(this.url).host}`;
+    } catch {
+      return 'Stream';
+    }
+  }
+
+  setUrl(url: string) {
+    this.url = url.trim();
+  }
+
+  async connect() {
+    this.cancelReconnect();
+    this.userDisconnected = false;
+    this.reconnectAttempt = 0;
+    if (!isStreamUrl(this.url)) {
+      this.onStatus(false, `Not a ws://, wss://, http:// or https:// URL: ${this.url}`);
+      return;
+    }
+    this.open();
+  }
+
+  disconnect() {
+    this.userDisconnected = true;
+    this.cancelReconnect();
+    const wasActive = this.isOpen || this.reconnectAttempt > 0;
+    this.close();
+    this.reconnectAttempt = 0;
+    if (wasActive) this.onStatus(false);
+  }
+
+  private open() {
+    this.close();
+    try {
+      const socket = /^wss?:/i.test(this.url) ? new WebSocket(this.url) : new EventSource(this.url);
+      socket.onopen = this.handleOpen;
+      socket.onmessage = this.handleMessage;
+      socket.onerror = this.handleError;
+      if (socket instanceof WebSocket) socket.onclose = this.handleError;
+      this.socket = socket;
+    } catch (error: any) {
+      this.onStatus(false, error.message || 'Connection failed');
+    }
+  }
+
+  private close() {
+    const socket = this.socket;
+    this.socket = null;
+    this.isOpen = false;
+    if (!socket) return;
+    socket.onopen = socket.onmessage = socket.onerror = null;
+    if (socket instanceof WebSocket) socket.onclose = null;
+    socket.close();
+  }
+
+  private handleOpen = () => {
+    this.isOpen = true;
+    this.reconnectAttempt = 0;
+    this.onStatus(true);
+    console.log(`Stream connected: ${this.url}`);
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    if (typeof event.data !== 'string') return;
+    const message = parseStreamMessage(event.data);
+    if (!message) {
+      console.warn('Ignoring malformed stream message:', event.data);
+      return;
+    }
+    this.onData(message.hr, message.rr, message.ts);
+  }
+
+  // Covers a refused first attempt as well as a dropped link
+  private handleError = () => {
+    const wasOpen = this.isOpen;
+    this.close();
+    if (this.userDisconnected) return;
+    if (!wasOpen && this.reconnectAttempt === 0) {
+      this.onStatus(false, `Could not reach ${this.url}`);
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+      this.reconnectAttempt = 0;
+      this.onStatus(false, `Lost connection to ${this.url}`);
+      return;
+    }
+
+    this.reconnectAttempt++;
+    this.onStatus(false, undefined, this.reconnectAttempt);
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempt - 1), RECONNECT_MAX_DELAY_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.userDisconnected) this.open();
+    }, delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
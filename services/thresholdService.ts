@@ -0,0 +1,151 @@
+import { AlphaZones, DFADataPoint, RampTestResult, ThresholdCrossing, ThresholdEstimate } from '../types';
+import { DEFAULT_ALPHA_ZONES } from '../constants';
+import { formatPace } from './pace';
+
+/**
+ * AeT/AnT estimation from a ramp test: linear regression of alpha1 against
+ * intensity, solved for the intensity where alpha1 reaches the AeT and AnT
+ * cut-offs (0.75 and 0.5 unless the athlete's profile says otherwise).
+ */
+
+// Windows outside this range are treated as failed calculations
+const MIN_VALID_ALPHA = 0.2;
+const MAX_VALID_ALPHA = 1.6;
+const MIN_FIT_POINTS = 5;
+const OUTLIER_SIGMA = 2.5;
+const MAX_OUTLIER_PASSES = 3;
+
+interface Fit {
+  slope: number;
+  intercept: number;
+  residualSd: number;
+  meanX: number;
+  sxx: number;
+  r2: number;
+  n: number;
+}
+
+const fitLine = (x: number[], y: number[]): Fit => {
+  const n = x.length;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - meanX) ** 2;
+    sxy += (x[i] - meanX) * (y[i] - meanY);
+    syy += (y[i] - meanY) ** 2;
+  }
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = Math.max(0, syy - slope * sxy);
+  return {
+    slope,
+    intercept,
+    residualSd: Math.sqrt(sse / Math.max(1, n - 2)),
+    meanX,
+    sxx,
+    r2: syy > 0 ? 1 - sse / syy : 0,
+    n,
+  };
+};
+
+// Two-sided 95% Student-t quantile (Cornish-Fisher expansion around z)
+const tQuantile95 = (df: number): number => {
+  const z = 1.959964;
+  return z + (z ** 3 + z) / (4 * df) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Inverse prediction of x at a given y, with a delta-method confidence interval
+const solveCrossing = (fit: Fit, alpha1: number): ThresholdCrossing | null => {
+  if (!(fit.slope < 0)) return null; // Also rejects a degenerate (NaN) fit
+  const value = (alpha1 - fit.intercept) / fit.slope;
+  const se = (fit.residualSd / Math.abs(fit.slope)) * Math.sqrt(1 / fit.n + (value - fit.meanX) ** 2 / fit.sxx);
+  const margin = tQuantile95(fit.n - 2) * se;
+  return { alpha1, value, ciLow: value - margin, ciHigh: value + margin };
+};
+
+/**
+ * Fits alpha1 against an intensity, rejecting invalid windows and then
+ * residual outliers (robust sigma from the median absolute deviation).
+ */
+export const estimateThresholds = (
+  points: DFADataPoint[],
+  intensity: (p: DFADataPoint) => number | undefined,
+  unit: ThresholdEstimate['unit'],
+  zones: AlphaZones = DEFAULT_ALPHA_ZONES,
+): { estimate: ThresholdEstimate | null; used: DFADataPoint[]; rejected: DFADataPoint[] } => {
+  let used = points.filter(p => {
+    const x = intensity(p);
+    return x !== undefined && x > 0 && !p.lowQuality && Number.isFinite(p.alpha1)
+      && p.alpha1 >= MIN_VALID_ALPHA && p.alpha1 <= MAX_VALID_ALPHA;
+  });
+
+  if (used.length < MIN_FIT_POINTS) {
+    return { estimate: null, used: [], rejected: points };
+  }
+
+  let fit = fitLine(used.map(p => intensity(p)!), used.map(p => p.alpha1));
+  for (let pass = 0; pass < MAX_OUTLIER_PASSES; pass++) {
+    const residuals = used.map(p => p.alpha1 - (fit.intercept + fit.slope * intensity(p)!));
+    const sigma = 1.4826 * median(residuals.map(Math.abs));
+    if (sigma === 0) break;
+    const kept = used.filter((_, i) => Math.abs(residuals[i]) <= OUTLIER_SIGMA * sigma);
+    if (kept.length === used.length || kept.length < MIN_FIT_POINTS) break;
+    used = kept;
+    fit = fitLine(used.map(p => intensity(p)!), used.map(p => p.alpha1));
+  }
+
+  const usedSet = new Set(used);
+  return {
+    estimate: {
+      unit,
+      slope: fit.slope,
+      intercept: fit.intercept,
+      r2: fit.r2,
+      n: fit.n,
+      aerobic: solveCrossing(fit, zones.aerobic),
+      anaerobic: solveCrossing(fit, zones.anaerobic),
+    },
+    used,
+    rejected: points.filter(p => !usedSet.has(p)),
+  };
+};
+
+export const analyzeRampTest = (
+  history: DFADataPoint[],
+  startTime: number,
+  endTime: number,
+  zones: AlphaZones = DEFAULT_ALPHA_ZONES,
+): RampTestResult => {
+  const points = history.filter(p => p.timestamp >= startTime && p.timestamp <= endTime);
+  const hr = estimateThresholds(points, p => p.heartRate, 'bpm', zones);
+  const hasPower = points.some(p => p.power !== undefined && p.power > 0);
+  const power = hasPower ? estimateThresholds(points, p => p.power, 'W', zones) : null;
+  const hasSpeed = points.some(p => p.speed !== undefined && p.speed > 0);
+  const speed = hasSpeed ? estimateThresholds(points, p => p.speed, 'm/s', zones) : null;
+
+  return {
+    startTime,
+    endTime,
+    used: hr.used,
+    rejected: hr.rejected,
+    heartRate: hr.estimate,
+    power: power?.estimate ?? null,
+    speed: speed?.estimate ?? null,
+  };
+};
+
+// Speed crossings are shown as pace; the faster CI bound becomes the lower pace
+export const formatCrossing = (c: ThresholdCrossing | null, unit: ThresholdEstimate['unit']) => {
+  if (!c) return 'not reached';
+  if (unit === 'm/s') {
+    return `${formatPace(c.value)} /km (95% CI ${formatPace(c.ciHigh)}–${formatPace(c.ciLow)})`;
+  }
+  return `${Math.round(c.value)} ${unit} (95% CI ${Math.round(c.ciLow)}–${Math.round(c.ciHigh)})`;
+};
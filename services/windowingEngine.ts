@@ -0,0 +1,143 @@
+import { RRInterval, SessionSettings } from '../types';
+import { RR_GAP_THRESHOLD_MS } from '../constants';
+
+/**
+ * Decides which beats form the current DFA window and when it is due for
+ * recomputation. Windows are either the last N beats or the last T seconds;
+ * after a sharp HR change, recomputation pauses for a settling period so
+ * windows do not straddle two intensities. A dropout in the RR timeline
+ * discards the beats before it, so no window is computed across a gap.
+ */
+
+export type WindowingOptions = Pick<
+  SessionSettings,
+  'windowMode' | 'dfaWindowBeats' | 'windowSeconds' | 'recomputeIntervalMs' | 'settlingHrDelta' | 'settlingSeconds'
+>;
+
+export interface WindowResult {
+  rr: number[];
+  start: number; // Timestamp of the first beat in the window
+  end: number;
+}
+
+// HR change is measured against the HR this long ago
+const HR_CHANGE_LOOKBACK_MS = 30000;
+// Extra beats kept beyond the window for trimming slack
+const BUFFER_MARGIN_BEATS = 50;
+
+export class WindowingEngine {
+  private beats: RRInterval[] = [];
+  private hrHistory: { timestamp: number; hr: number }[] = [];
+  private lastComputeTime = -Infinity;
+  private settlingUntil = -Infinity;
+  private options: WindowingOptions;
+
+  constructor(options: WindowingOptions) {
+    this.options = { ...options };
+  }
+
+  configure(options: Partial<WindowingOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  reset() {
+    this.beats = [];
+    this.hrHistory = [];
+    this.lastComputeTime = -Infinity;
+    this.settlingUntil = -Infinity;
+  }
+
+  /**
+   * Adds a packet of beats; `lastBeatTime` is the end of the final interval.
+   * Earlier beats are back-dated from it. Returns true when the packet
+   * starts after a dropout.
+   */
+  addBeats(rrIntervals: number[], lastBeatTime: number, hr: number): boolean {
+    let t = lastBeatTime - rrIntervals.reduce((a, b) => a + b, 0);
+
+    const previous = this.beats[this.beats.length - 1];
+    const isGap = previous !== undefined && t - previous.timestamp > RR_GAP_THRESHOLD_MS;
+    if (isGap) {
+      this.beats = [];
+      this.hrHistory = [];
+    }
+
+    for (const intervalMs of rrIntervals) {
+      t += intervalMs;
+      this.beats.push({ timestamp: t, intervalMs });
+    }
+    this.trackHeartRate(hr, lastBeatTime);
+    this.trim(lastBeatTime);
+    return isGap;
+  }
+
+  settlingRemainingMs(now: number): number {
+    return Math.max(0, this.settlingUntil - now);
+  }
+
+  /**
+   * Returns the window if a recompute is due at `now`, else null.
+   * A due window is consumed: the next one is due a full interval later.
+   */
+  nextWindow(now: number): WindowResult | null {
+    if (now - this.lastComputeTime < this.options.recomputeIntervalMs) return null;
+    if (this.settlingRemainingMs(now) > 0) return null;
+
+    const window = this.currentWindow(now);
+    if (!window) return null;
+
+    this.lastComputeTime = now;
+    return window;
+  }
+
+  currentWindow(now: number): WindowResult | null {
+    const { windowMode, dfaWindowBeats, windowSeconds } = this.options;
+    let selected: RRInterval[];
+
+    if (windowMode === 'time') {
+      const windowStart = now - windowSeconds * 1000;
+      const first = this.beats.findIndex(b => b.timestamp - b.intervalMs >= windowStart);
+      // Only compute once the buffer covers the whole window
+      if (first <= 0) return null;
+      selected = this.beats.slice(first);
+    } else {
+      if (this.beats.length < dfaWindowBeats) return null;
+      selected = this.beats.slice(-dfaWindowBeats);
+    }
+
+    return {
+      rr: selected.map(b => b.intervalMs),
+      start: selected[0].timestamp - selected[0].intervalMs,
+      end: selected[selected.length - 1].timestamp,
+    };
+  }
+
+  private trackHeartRate(hr: number, now: number) {
+    const { settlingHrDelta, settlingSeconds } = this.options;
+    if (hr <= 0) return;
+
+    this.hrHistory.push({ timestamp: now, hr });
+    while (this.hrHistory.length > 1 && now - this.hrHistory[0].timestamp > HR_CHANGE_LOOKBACK_MS) {
+      this.hrHistory.shift();
+    }
+
+    if (settlingHrDelta > 0 && Math.abs(hr - this.hrHistory[0].hr) >= settlingHrDelta) {
+      this.settlingUntil = now + settlingSeconds * 1000;
+      // Restart the comparison from the new level
+      this.hrHistory = [{ timestamp: now, hr }];
+    }
+  }
+
+  private trim(now: number) {
+    const { windowMode, dfaWindowBeats, windowSeconds } = this.options;
+    if (windowMode === 'time') {
+      const keepFrom = now - windowSeconds * 1000;
+      const first = this.beats.findIndex(b => b.timestamp - b.intervalMs >= keepFrom);
+      // Keep one beat before the window so coverage can be checked
+      const cut = Math.max(0, first - 1 - BUFFER_MARGIN_BEATS);
+      if (first > 0 && cut > 0) this.beats.splice(0, cut);
+    } else if (this.beats.length > dfaWindowBeats + BUFFER_MARGIN_BEATS) {
+      this.beats.splice(0, this.beats.length - (dfaWindowBeats + BUFFER_MARGIN_BEATS));
+    }
+  }
+}
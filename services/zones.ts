@@ -0,0 +1,21 @@
+import { AlphaZones } from '../types';
+
+export type AlphaZone = 'aerobic' | 'threshold' | 'anaerobic';
+
+export const ZONE_LABELS: Record<AlphaZone, string> = {
+  aerobic: 'Aerobic',
+  threshold: 'Threshold',
+  anaerobic: 'Anaerobic',
+};
+
+// Below AeT, between AeT and AnT, or above AnT
+export const zoneFor = (alpha1: number, zones: AlphaZones): AlphaZone =>
+  alpha1 > zones.aerobic ? 'aerobic' : alpha1 > zones.anaerobic ? 'threshold' : 'anaerobic';
+
+// Zones are usable when both cut-offs are positive and AeT sits above AnT
+export const validateZones = (zones: AlphaZones): string | null => {
+  if (!(zones.anaerobic > 0)) return 'AnT cut-off must be positive';
+  if (!(zones.aerobic > zones.anaerobic)) return 'AeT cut-off must be above the AnT cut-off';
+  if (zones.aerobic > 1.5) return 'AeT cut-off must be at most 1.5';
+  return null;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AlertEngine } from '../services/alertEngine';
+import { AlertEvent } from '../types';
+import { DEFAULT_ALERT_SETTINGS } from '../constants';
+
+// A replayed file: its clock is years behind the wall clock
+const FILE_START = Date.UTC(2024, 5, 1, 8, 0, 0);
+
+const engineWithLog = () => {
+  const events: AlertEvent[] = [];
+  return { engine: new AlertEngine(event => events.push(event)), events };
+};
+
+describe('AlertEngine on the data clock', () => {
+  it('stamps a disconnect with the latest data time, not the wall clock', () => {
+    vi.useFakeTimers({ now: Date.UTC(2026, 9, 19) });
+    const { engine, events } = engineWithLog();
+    engine.update({ heartRate: 120 }, FILE_START + 60000);
+    engine.update({ connected: false });
+    expect(events.map(e => [e.trigger, e.timestamp])).toEqual([['disconnected', FILE_START + 60000]]);
+    vi.useRealTimers();
+  });
+
+  it('applies the cooldown on the data clock across connection changes', () => {
+    const { engine, events } = engineWithLog();
+    engine.update({ heartRate: 120 }, FILE_START);
+    engine.update({ connected: false });
+    engine.update({ connected: true });
+    engine.update({ heartRate: 120 }, FILE_START + 10000);
+    engine.update({ connected: false });
+    expect(events).toHaveLength(1);
+
+    engine.update({ connected: true });
+    engine.update({ heartRate: 120 }, FILE_START + 31000);
+    engine.update({ connected: false });
+    expect(events.map(e => e.timestamp)).toEqual([FILE_START, FILE_START + 31000]);
+  });
+
+  it('never moves the clock backwards for late pipeline results', () => {
+    const { engine, events } = engineWithLog();
+    engine.update({ heartRate: 120 }, FILE_START + 5000);
+    engine.update({ alpha1: 0.6 }, FILE_START + 4000);
+    expect(events.map(e => [e.trigger, e.timestamp])).toEqual([['belowAerobic', FILE_START + 5000]]);
+  });
+
+  it('only stores a connection change that comes before any data', () => {
+    const { engine, events } = engineWithLog();
+    engine.update({ connected: false });
+    expect(events).toEqual([]);
+    engine.update({ heartRate: 120 }, FILE_START);
+    expect(events.map(e => e.trigger)).toEqual(['disconnected']);
+  });
+
+  it('times the grey zone from data timestamps', () => {
+    const { engine, events } = engineWithLog();
+    engine.configure({ ...DEFAULT_ALERT_SETTINGS, rules: { ...DEFAULT_ALERT_SETTINGS.rules, greyZone: { enabled: true, cooldownSeconds: 120 } } });
+    for (let s = 0; s <= 120; s += 5) engine.update({ alpha1: 0.65 }, FILE_START + s * 1000);
+    const grey = events.filter(e => e.trigger === 'greyZone');
+    expect(grey.map(e => e.timestamp)).toEqual([FILE_START + 120000]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { classifyLipponen, correctArtifacts } from '../services/artifactCorrection';
+import { ArtifactCorrectionOptions, ArtifactMethod } from '../types';
+import fixture from './fixtures/rr-artifacts.json';
+
+/**
+ * Reference series: 300 beats of clean RR and copies of it with one kind of
+ * artifact injected at a known position. `expected` is the classification
+ * at those positions; the corrected series must recover the clean one.
+ */
+
+type Case = { name: string; description: string; rr: number[]; expected: [number, string][] };
+const clean: number[] = fixture.clean;
+const cases = fixture.cases as Case[];
+const caseNamed = (name: string) => cases.find(c => c.name === name)!;
+
+const options = (method: ArtifactMethod): ArtifactCorrectionOptions => ({ method, kubiosLevel: 'medium' });
+
+describe('classifyLipponen', () => {
+  it('flags nothing in the clean series', () => {
+    expect(classifyLipponen(clean).size).toBe(0);
+  });
+
+  it.each(cases.map(c => [c.name, c] as const))('classifies the %s fixture', (_name, c) => {
+    const flagged = [...classifyLipponen(c.rr)].sort((a, b) => a[0] - b[0]);
+    expect(flagged).toEqual(c.expected);
+  });
+
+  it('checks every beat of an adjacent run on its own', () => {
+    const flagged = classifyLipponen(caseNamed('adjacent').rr);
+    // 96 is also the second candidate of 95; it must still get its own ectopic check
+    expect(flagged.get(96)).toBe('ectopic');
+    expect(flagged.get(97)).toBe('ectopic');
+  });
+});
+
+describe('Lipponen & Tarvainen correction', () => {
+  const corrected = (name: string) => correctArtifacts(caseNamed(name).rr, options('lipponen'));
+
+  it('splits a missed beat back into two intervals', () => {
+    const { rr, report } = corrected('missed');
+    expect(rr).toHaveLength(clean.length);
+    expect(rr[150] + rr[151]).toBeCloseTo(clean[150] + clean[151], 6);
+    expect(report.byCause).toEqual({ missed: 1 });
+  });
+
+  it('merges an extra beat with its second half', () => {
+    const { rr, report } = corrected('extra');
+    expect(rr).toHaveLength(clean.length);
+    expect(rr[200]).toBe(clean[200]);
+    expect(report.byCause).toEqual({ extra: 1 });
+  });
+
+  it.each(['ectopic', 'adjacent'])('interpolates %s beats to within 5%% of the clean series', name => {
+    const { rr } = corrected(name);
+    expect(rr).toHaveLength(clean.length);
+    rr.forEach((value, i) => expect(Math.abs(value - clean[i]) / clean[i]).toBeLessThan(0.05));
+  });
+
+  it('leaves the clean series untouched', () => {
+    expect(correctArtifacts(clean, options('lipponen')).rr).toEqual(clean);
+  });
+});
+
+describe('other strategies on the reference series', () => {
+  it.each(['quotient', 'kubios', 'drop'] as const)('%s leaves the clean series untouched', method => {
+    const { rr, report } = correctArtifacts(clean, options(method));
+    expect(rr).toEqual(clean);
+    expect(report.corrected).toBe(0);
+  });
+
+  it('quotient filter interpolates the ectopic beat and keeps the timeline', () => {
+    const { rr, report } = correctArtifacts(caseNamed('ectopic').rr, options('quotient'));
+    expect(rr).toHaveLength(clean.length);
+    expect(report.positions).toContain(100);
+  });
+
+  it('drop mode removes flagged beats instead of replacing them', () => {
+    const { rr, report } = correctArtifacts(caseNamed('ectopic').rr, options('drop'));
+    expect(rr).toHaveLength(clean.length - report.corrected);
+  });
+
+  it('kubios threshold flags the disturbed beats', () => {
+    const { report } = correctArtifacts(caseNamed('ectopic').rr, options('kubios'));
+    expect(report.positions).toEqual(expect.arrayContaining([100, 101]));
+    expect(report.byCause.threshold).toBe(report.corrected);
+  });
+});
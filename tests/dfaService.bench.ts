@@ -0,0 +1,25 @@
+import { bench, describe } from 'vitest';
+import { calculateDfaAlpha1, exponentsFromCleanRR, preprocessRR } from '../services/dfaService';
+import { leastSquaresAlpha1 } from './reference/dfaLeastSquares';
+import fixtures from './fixtures/rr-dfa.json';
+
+// One live recompute: a 200-beat window
+const window = fixtures[1].rr.slice(0, 200);
+const clean = preprocessRR(window).rr;
+
+describe('alpha1 on a corrected 200-beat window', () => {
+  bench('closed-form (current)', () => {
+    exponentsFromCleanRR(clean);
+  });
+
+  bench('least-squares on slices (previous)', () => {
+    leastSquaresAlpha1(clean);
+  });
+});
+
+// Everything a pipeline window costs, artifact correction and breathing estimate included
+describe('full window analysis', () => {
+  bench('calculateDfaAlpha1', () => {
+    calculateDfaAlpha1(window);
+  });
+});
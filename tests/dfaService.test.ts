@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDfaWindow, boxSizesFor, calculateDfaAlpha1, exponentsFromCleanRR, preprocessRR } from '../services/dfaService';
+import { DEFAULT_SESSION_SETTINGS } from '../constants';
+import { DfaOptions } from '../types';
+import { leastSquaresAlpha1, leastSquaresExponent, ReferenceOptions } from './reference/dfaLeastSquares';
+import fixtures from './fixtures/rr-dfa.json';
+
+// Fixed 1/f series at easy, threshold and hard intensity (simulator output, seeded)
+const cases = fixtures.map(f => [f.name, f] as const);
+
+describe('closed-form DFA', () => {
+  it.each(cases)('matches the least-squares implementation on the %s series', (_name, { rr }) => {
+    const reference = leastSquaresAlpha1(preprocessRR(rr).rr);
+    expect(reference).not.toBeNull();
+    expect(calculateDfaAlpha1(rr)).toBeCloseTo(reference!, 9);
+  });
+
+  it.each(cases)('matches on the corrected %s series directly', (_name, { rr }) => {
+    const clean = preprocessRR(rr).rr;
+    expect(exponentsFromCleanRR(clean).alpha1).toBeCloseTo(leastSquaresAlpha1(clean)!, 9);
+  });
+
+  it.each(cases)('matches on every 200-beat window of the %s series', (_name, { rr }) => {
+    for (let start = 0; start + 200 <= rr.length; start += 10) {
+      const window = rr.slice(start, start + 200);
+      expect(calculateDfaAlpha1(window)).toBeCloseTo(leastSquaresAlpha1(preprocessRR(window).rr)!, 9);
+    }
+  });
+
+  it.each(cases)('lands near the target exponent on the %s series', (_name, { rr, targetAlpha1 }) => {
+    expect(Math.abs(calculateDfaAlpha1(rr)! - targetAlpha1)).toBeLessThan(0.2);
+  });
+
+  it('needs at least 50 clean beats', () => {
+    expect(calculateDfaAlpha1(fixtures[0].rr.slice(0, 49))).toBeNull();
+  });
+
+  it('reports alpha2 only when enabled', () => {
+    const { rr } = fixtures[0];
+    const correction = DEFAULT_SESSION_SETTINGS.artifactCorrection;
+    expect(analyzeDfaWindow(rr, correction).alpha2).toBeNull();
+    const withAlpha2 = analyzeDfaWindow(rr, correction, { ...DEFAULT_SESSION_SETTINGS.dfa, computeAlpha2: true });
+    expect(withAlpha2.alpha2).toEqual(expect.any(Number));
+  });
+});
+
+const DFA = DEFAULT_SESSION_SETTINGS.dfa;
+const range = (lo: number, hi: number) => Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+
+// The reference settings matching a DfaOptions variant, for one exponent's box sizes
+const referenceFor = (options: DfaOptions, sizes: number[]): ReferenceOptions => ({
+  sizes,
+  order: options.detrendOrder,
+  placement: options.boxPlacement,
+  slidingStep: options.slidingStep,
+});
+
+const variants: [string, Partial<DfaOptions>][] = [
+  ['DFA2', { detrendOrder: 2 }],
+  ['DFA3', { detrendOrder: 3 }],
+  ['forward-backward boxes', { boxPlacement: 'forwardBackward' }],
+  ['sliding boxes', { boxPlacement: 'sliding', slidingStep: 1 }],
+  ['sliding boxes every 3 beats', { boxPlacement: 'sliding', slidingStep: 3 }],
+  ['DFA2 with sliding boxes', { detrendOrder: 2, boxPlacement: 'sliding', slidingStep: 2 }],
+  ['DFA3 with forward-backward boxes and sizes 6-20', { detrendOrder: 3, boxPlacement: 'forwardBackward', minBoxSize: 6, maxBoxSize: 20 }],
+];
+
+describe('closed-form DFA with non-default options', () => {
+  const cleanSeries = fixtures.map(f => [f.name, preprocessRR(f.rr).rr] as const);
+
+  describe.each(variants)('%s', (_variant, overrides) => {
+    const options = { ...DFA, ...overrides };
+    const sizes = range(options.minBoxSize, options.maxBoxSize);
+
+    it.each(cleanSeries)('matches the least-squares reference for alpha1 on the %s series', (_name, clean) => {
+      const reference = leastSquaresExponent(clean, referenceFor(options, sizes));
+      expect(reference).not.toBeNull();
+      expect(exponentsFromCleanRR(clean, options).alpha1).toBeCloseTo(reference!, 8);
+    });
+  });
+
+  it('detrends to a different exponent at each order', () => {
+    const clean = cleanSeries[0][1];
+    const [a1, a2, a3] = ([1, 2, 3] as const).map(detrendOrder => exponentsFromCleanRR(clean, { ...DFA, detrendOrder }).alpha1!);
+    expect(new Set([a1, a2, a3]).size).toBe(3);
+  });
+
+  it('reduces to the 4-16 reference with default options', () => {
+    const clean = cleanSeries[1][1];
+    expect(leastSquaresExponent(clean, referenceFor(DFA, range(4, 16)))).toBeCloseTo(leastSquaresAlpha1(clean)!, 9);
+  });
+
+  it('matches the reference on log-spaced box sizes', () => {
+    const options: DfaOptions = { ...DFA, boxSpacing: 'log', logBoxCount: 6, minBoxSize: 4, maxBoxSize: 30 };
+    const sizes = boxSizesFor(4, 30, 'log', 6);
+    expect(sizes).toEqual([4, 6, 9, 13, 20, 30]);
+    for (const [, clean] of cleanSeries) {
+      expect(exponentsFromCleanRR(clean, options).alpha1).toBeCloseTo(leastSquaresExponent(clean, referenceFor(options, sizes))!, 8);
+    }
+  });
+});
+
+describe('alpha2 against the reference', () => {
+  const cleanSeries = fixtures.map(f => [f.name, preprocessRR(f.rr).rr] as const);
+  const alpha2Ranges: [string, Partial<DfaOptions>][] = [
+    ['the default 16-64 range', {}],
+    ['a 10-40 range', { alpha2MinBoxSize: 10, alpha2MaxBoxSize: 40 }],
+    ['a range past the series length', { alpha2MinBoxSize: 100, alpha2MaxBoxSize: 400 }],
+    ['DFA2 with sliding boxes', { detrendOrder: 2, boxPlacement: 'sliding', slidingStep: 4 }],
+  ];
+
+  describe.each(alpha2Ranges)('%s', (_variant, overrides) => {
+    const options: DfaOptions = { ...DFA, computeAlpha2: true, ...overrides };
+    const sizes = range(options.alpha2MinBoxSize, options.alpha2MaxBoxSize);
+
+    it.each(cleanSeries)('matches on the %s series', (_name, clean) => {
+      const reference = leastSquaresExponent(clean, referenceFor(options, sizes));
+      expect(reference).not.toBeNull();
+      expect(exponentsFromCleanRR(clean, options).alpha2).toBeCloseTo(reference!, 8);
+    });
+  });
+
+  it('is null when fewer than two box sizes fit the series', () => {
+    const clean = cleanSeries[0][1];
+    const options: DfaOptions = { ...DFA, computeAlpha2: true, alpha2MinBoxSize: clean.length, alpha2MaxBoxSize: clean.length + 50 };
+    expect(exponentsFromCleanRR(clean, options).alpha2).toBeNull();
+    expect(leastSquaresExponent(clean, referenceFor(options, range(clean.length, clean.length + 50)))).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * In-memory stand-ins for the Web Bluetooth objects GattSource talks to: a
+ * device whose server exposes services of notifying characteristics. Tests
+ * push notifications with `notify` and answer writes through `onWrite`.
+ */
+
+const uuidOf = (id: string | number) =>
+  typeof id === 'number' ? `0000${id.toString(16).padStart(4, '0')}-0000-1000-8000-00805f9b34fb` : id;
+
+export class FakeCharacteristic extends EventTarget {
+  value?: DataView;
+  readonly writes: Uint8Array[] = [];
+  notifying = false;
+  // Peripheral side of a write; may call `notify` to answer it
+  onWrite: ((bytes: Uint8Array) => void) | null = null;
+
+  constructor(readonly uuid: string) {
+    super();
+  }
+
+  async startNotifications() {
+    this.notifying = true;
+    return this;
+  }
+
+  async stopNotifications() {
+    this.notifying = false;
+    return this;
+  }
+
+  async writeValue(value: BufferSource) {
+    const bytes = value instanceof Uint8Array
+      ? new Uint8Array(value)
+      : new Uint8Array(ArrayBuffer.isView(value) ? value.buffer : value);
+    this.writes.push(bytes);
+    // Answer after the write resolves, as an indication would arrive
+    const onWrite = this.onWrite;
+    if (onWrite) queueMicrotask(() => onWrite(bytes));
+  }
+
+  notify(bytes: ArrayLike<number>) {
+    if (!this.notifying) return;
+    this.value = new DataView(Uint8Array.from(bytes).buffer);
+    this.dispatchEvent(new Event('characteristicvaluechanged'));
+  }
+}
+
+export class FakeService {
+  private characteristics = new Map<string, FakeCharacteristic>();
+
+  constructor(readonly uuid: string) {}
+
+  characteristic(id: string | number): FakeCharacteristic {
+    const uuid = uuidOf(id);
+    let characteristic = this.characteristics.get(uuid);
+    if (!characteristic) {
+      characteristic = new FakeCharacteristic(uuid);
+      this.characteristics.set(uuid, characteristic);
+    }
+    return characteristic;
+  }
+
+  async getCharacteristic(id: string | number) {
+    const characteristic = this.characteristics.get(uuidOf(id));
+    if (!characteristic) throw new Error(`No characteristic ${uuidOf(id)}`);
+    return characteristic;
+  }
+}
+
+export class FakeDevice extends EventTarget {
+  readonly id = 'fake-device';
+  readonly gatt: FakeServer;
+
+  constructor(readonly name: string) {
+    super();
+    this.gatt = new FakeServer(this);
+  }
+}
+
+export class FakeServer {
+  connected = false;
+  connects = 0;
+  private services = new Map<string, FakeService>();
+
+  constructor(readonly device: FakeDevice) {}
+
+  service(id: string | number): FakeService {
+    const uuid = uuidOf(id);
+    let service = this.services.get(uuid);
+    if (!service) {
+      service = new FakeService(uuid);
+      this.services.set(uuid, service);
+    }
+    return service;
+  }
+
+  async connect() {
+    this.connected = true;
+    this.connects++;
+    return this;
+  }
+
+  disconnect() {
+    this.dropLink();
+  }
+
+  // Link loss as the browser reports it, whoever caused it
+  dropLink() {
+    if (!this.connected) return;
+    this.connected = false;
+    this.device.dispatchEvent(new Event('gattserverdisconnected'));
+  }
+
+  async getPrimaryService(id: string | number) {
+    const service = this.services.get(uuidOf(id));
+    if (!service) throw new Error(`No service ${uuidOf(id)}`);
+    return service;
+  }
+}
+
+// `navigator.bluetooth` whose chooser always picks `device`
+export const fakeBluetooth = (device: FakeDevice) => ({
+  requestDevice: async () => device,
+  getAvailability: async () => true,
+});
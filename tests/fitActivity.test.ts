@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { FIT_DEV_ALPHA1, FIT_DEV_LAP_ALPHA1, toFitActivity } from '../services/fitActivity';
+import { FitMessage, FitValue, decodeFit } from '../services/fitDecoder';
+import {
+  FIT_EPOCH_OFFSET_S, MESG_ACTIVITY, MESG_DEVELOPER_DATA_ID, MESG_EVENT, MESG_FIELD_DESCRIPTION, MESG_FILE_ID,
+  MESG_HRV, MESG_LAP, MESG_RECORD, MESG_SESSION,
+} from '../services/fitProtocol';
+import { computeLaps } from '../services/laps';
+import { DEFAULT_SESSION_SETTINGS } from '../constants';
+import { DFADataPoint, RRInterval, RecordedSession } from '../types';
+
+/**
+ * A 10-minute ride with a 60 s sensor dropout, two lap markers and a
+ * low-quality point every 20 s, encoded and decoded again.
+ */
+
+const START = Date.UTC(2026, 0, 10, 9, 0, 0);
+const s = (seconds: number) => START + seconds * 1000;
+const GAP = { start: s(240), end: s(300) };
+
+const beatsBetween = (from: number, to: number, first: number): RRInterval[] => {
+  const beats: RRInterval[] = [];
+  for (let t = from, k = first; t <= to; k++) {
+    const intervalMs = 500 + Math.round(20 * Math.sin(k / 3));
+    beats.push({ timestamp: t, intervalMs });
+    t += intervalMs;
+  }
+  return beats;
+};
+
+const history: DFADataPoint[] = [];
+for (let t = 2; t <= 600; t += 2) {
+  if (t > 240 && t < 300) continue;
+  history.push({
+    timestamp: s(t),
+    alpha1: 1.2 - (0.8 * t) / 600,
+    heartRate: 120,
+    power: 100 + 10 * Math.floor(t / 60),
+    cadence: 90,
+    lowQuality: t % 20 === 0,
+  });
+}
+
+const session: RecordedSession = {
+  id: 'fit-round-trip',
+  name: 'Ramp',
+  deviceName: 'Fake Strap',
+  startTime: START,
+  endTime: s(600),
+  rrIntervals: [...beatsBetween(s(0.5), GAP.start, 0), ...beatsBetween(GAP.end, s(600), 1000)],
+  history,
+  settings: DEFAULT_SESSION_SETTINGS,
+  gaps: [GAP],
+  laps: [{ timestamp: s(180), label: 'Step 2' }, { timestamp: s(420), label: 'Step 3' }],
+};
+
+const fitTime = (ms: number) => ms / 1000 - FIT_EPOCH_OFFSET_S;
+
+// CRC-16/ARC bit by bit (polynomial 0xA001 reflected), independent of the nibble table in fitProtocol
+const crc16 = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+  }
+  return crc;
+};
+
+const bytes = toFitActivity(session);
+const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+const messages = decodeFit(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+const ofType = (globalNum: number) => messages.filter(m => m.globalNum === globalNum);
+const field = (message: FitMessage, num: number): FitValue => message.fields[num];
+
+describe('FIT file framing', () => {
+  it('has a 14-byte header with the data size and ".FIT"', () => {
+    expect(bytes[0]).toBe(14);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 14 - 2);
+    expect(String.fromCharCode(...bytes.subarray(8, 12))).toBe('.FIT');
+  });
+
+  it('carries a valid header CRC', () => {
+    expect(view.getUint16(12, true)).toBe(crc16(bytes.subarray(0, 12)));
+  });
+
+  it('carries a valid file CRC', () => {
+    expect(view.getUint16(bytes.length - 2, true)).toBe(crc16(bytes.subarray(0, bytes.length - 2)));
+    // Running the CRC over the stored CRC as well gives zero
+    expect(crc16(bytes)).toBe(0);
+  });
+});
+
+describe('FIT activity round trip', () => {
+  it('writes the messages in the expected numbers', () => {
+    const count = (globalNum: number) => ofType(globalNum).length;
+    expect(count(MESG_FILE_ID)).toBe(1);
+    expect(count(MESG_DEVELOPER_DATA_ID)).toBe(1);
+    expect(count(MESG_FIELD_DESCRIPTION)).toBe(2);
+    // 1 s samples from 1 s to 240 s and 300 s to 600 s; second 0 has no beat yet
+    expect(count(MESG_RECORD)).toBe(240 + 301);
+    expect(count(MESG_HRV)).toBe(Math.ceil(session.rrIntervals.length / 5));
+    expect(count(MESG_LAP)).toBe(3);
+    expect(count(MESG_SESSION)).toBe(1);
+    expect(count(MESG_ACTIVITY)).toBe(1);
+  });
+
+  it('keeps every RR interval in the HRV messages, in order', () => {
+    const intervals = ofType(MESG_HRV).flatMap(m => field(m, 0) as number[]);
+    expect(intervals).toEqual(session.rrIntervals.map(b => b.intervalMs));
+  });
+
+  it('writes one record per second outside the gap', () => {
+    const times = ofType(MESG_RECORD).map(m => field(m, 253) as number);
+    expect(times[0]).toBe(fitTime(s(1)));
+    expect(times.at(-1)).toBe(fitTime(s(600)));
+    expect(times.some(t => t > fitTime(GAP.start) && t < fitTime(GAP.end))).toBe(false);
+    times.slice(1).forEach((t, i) => expect(t).toBeGreaterThan(times[i]));
+  });
+
+  it('fills heart rate and power on the records', () => {
+    const at = (seconds: number) => ofType(MESG_RECORD).find(m => field(m, 253) === fitTime(s(seconds)))!;
+    expect(field(at(100), 3)).toBeGreaterThan(110);
+    expect(field(at(100), 3)).toBeLessThan(130);
+    expect(field(at(100), 7)).toBe(110);
+    expect(field(at(100), 4)).toBe(90);
+  });
+
+  it('stores alpha1 as a developer field, empty for low-quality points', () => {
+    const key = `0:${FIT_DEV_ALPHA1}`;
+    const at = (seconds: number) => ofType(MESG_RECORD).find(m => field(m, 253) === fitTime(s(seconds)))!.developerFields[key];
+    expect(at(102)).toBe(Math.fround(1.2 - (0.8 * 102) / 600));
+    expect(at(103)).toBe(Math.fround(1.2 - (0.8 * 102) / 600));
+    expect(at(598)).toBe(Math.fround(1.2 - (0.8 * 598) / 600));
+    expect(at(600)).toBeNull();
+    expect(at(20)).toBeNull();
+    expect(at(21)).toBeNull();
+
+    const values = ofType(MESG_RECORD).map(m => m.developerFields[key]);
+    const lowQuality = history.filter(p => p.lowQuality).length;
+    // A low-quality point blanks its second and the next (in the gap after
+    // 240 s, past the end after 600 s); second 1 comes before the first point
+    expect(values.filter(v => v === null)).toHaveLength(2 * lowQuality - 2 + 1);
+  });
+
+  it('names the developer fields', () => {
+    const names = ofType(MESG_FIELD_DESCRIPTION).map(m => [field(m, 1), field(m, 3)]);
+    expect(names).toEqual([[FIT_DEV_ALPHA1, 'alpha1'], [FIT_DEV_LAP_ALPHA1, 'alpha1_lap_avg']]);
+  });
+
+  it('turns the gap into a timer stop and start', () => {
+    const events = ofType(MESG_EVENT).map(m => [field(m, 253), field(m, 0), field(m, 1)]);
+    expect(events).toEqual([
+      [fitTime(START), 0, 0],
+      [fitTime(GAP.start), 0, 4],
+      [fitTime(GAP.end), 0, 0],
+      [fitTime(s(600)), 0, 4],
+    ]);
+  });
+
+  it('writes laps with their times and mean alpha1', () => {
+    const laps = computeLaps(session);
+    const decoded = ofType(MESG_LAP);
+    expect(decoded.map(m => [field(m, 2), field(m, 253)])).toEqual([
+      [fitTime(s(0)), fitTime(s(180))],
+      [fitTime(s(180)), fitTime(s(420))],
+      [fitTime(s(420)), fitTime(s(600))],
+    ]);
+    // Elapsed and timer time; the gap falls in the second lap
+    expect(decoded.map(m => [field(m, 7), field(m, 8)])).toEqual([[180000, 180000], [240000, 180000], [180000, 180000]]);
+    decoded.forEach((m, i) => expect(m.developerFields[`0:${FIT_DEV_LAP_ALPHA1}`]).toBe(Math.fround(laps[i].meanAlpha1!)));
+  });
+
+  it('sums the session without the gap', () => {
+    const [summary] = ofType(MESG_SESSION);
+    expect(field(summary, 2)).toBe(fitTime(START));
+    expect(field(summary, 5)).toBe(2); // Cycling: power but no speed
+    expect(field(summary, 7)).toBe(600000);
+    expect(field(summary, 8)).toBe(540000);
+    expect(field(summary, 26)).toBe(3);
+    expect(field(ofType(MESG_ACTIVITY)[0], 0)).toBe(540000);
+  });
+});
@@ -0,0 +1,372 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BluetoothSensor, FitnessMachine } from '../services/bluetoothService';
+import { ErgRampController, ErgTrainer } from '../services/ergRampController';
+import { PipelineUpdate } from '../services/dfaPipeline';
+import {
+  OP_REQUEST_CONTROL,
+  OP_SET_TARGET_POWER,
+  OP_START_OR_RESUME,
+  encodeSetTargetPower,
+  parseControlPointResponse,
+  parseIndoorBikeData,
+} from '../services/ftmsProtocol';
+import { crankCadence, parseCyclingPower, parseRsc } from '../services/sensorParsers';
+import {
+  CHAR_CYCLING_POWER_MEASUREMENT,
+  CHAR_FTMS_CONTROL_POINT,
+  CHAR_INDOOR_BIKE_DATA,
+  CHAR_RSC_MEASUREMENT,
+  FTMS_RESPONSE_TIMEOUT_MS,
+  SERVICE_CYCLING_POWER,
+  SERVICE_FITNESS_MACHINE,
+  SERVICE_RUNNING_SPEED_CADENCE,
+} from '../constants';
+import { ErgRampSettings, SensorReading } from '../types';
+import { FakeCharacteristic, FakeDevice, fakeBluetooth } from './fakeGatt';
+
+const view = (bytes: number[]) => new DataView(Uint8Array.from(bytes).buffer);
+const bytesOf = (writes: Uint8Array[]) => writes.map(w => [...w]);
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('FTMS messages', () => {
+  it('encodes the target power as little-endian sint16, clamped', () => {
+    expect([...encodeSetTargetPower(250)]).toEqual([OP_SET_TARGET_POWER, 0xfa, 0x00]);
+    expect([...encodeSetTargetPower(-10)]).toEqual([OP_SET_TARGET_POWER, 0xf6, 0xff]);
+    expect([...encodeSetTargetPower(1e6)]).toEqual([OP_SET_TARGET_POWER, 0xff, 0x7f]);
+  });
+
+  it('parses control point indications and ignores other messages', () => {
+    expect(parseControlPointResponse(view([0x80, 0x05, 0x01]))).toEqual({ requestOpCode: 0x05, result: 0x01 });
+    expect(parseControlPointResponse(view([0x05, 0xfa, 0x00]))).toBeNull();
+    expect(parseControlPointResponse(view([0x80, 0x05]))).toBeNull();
+  });
+
+  it('reads speed, cadence and power from Indoor Bike Data', () => {
+    // Flags: cadence + power; speed present because bit 0 is clear
+    expect(parseIndoorBikeData(view([0x44, 0x00, 0x10, 0x27, 0xb4, 0x00, 0xfa, 0x00])))
+      .toEqual({ speed: 100, cadence: 90, power: 250 });
+  });
+
+  it('skips the optional fields in front of power', () => {
+    // Flags: more data, avg speed, cadence, avg cadence, distance, resistance, power
+    const data = [0x7f, 0x00, 0x00, 0x00, 0xb4, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x05, 0x00, 0x2c, 0x01];
+    expect(parseIndoorBikeData(view(data))).toEqual({ cadence: 90, power: 300 });
+  });
+
+  it('stops at a truncated field', () => {
+    expect(parseIndoorBikeData(view([0x45, 0x00, 0xb4, 0x00, 0xfa]))).toEqual({ cadence: 90 });
+  });
+});
+
+describe('sensor parsers', () => {
+  it('reads power and crank data behind the optional CPS fields', () => {
+    // Flags: balance, torque, wheel revolutions, crank revolutions
+    const data = [0x35, 0x00, 0xc8, 0x00, 0x32, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x0a, 0x00, 0x00, 0x04];
+    expect(parseCyclingPower(view(data))).toEqual({ power: 200, crankRevolutions: 10, crankEventTime: 1024 });
+  });
+
+  it('computes crank cadence across the 16-bit wrap', () => {
+    const prev = { power: 0, crankRevolutions: 0xffff, crankEventTime: 0xfc00 };
+    const next = { power: 0, crankRevolutions: 0x0001, crankEventTime: 0x0400 };
+    expect(crankCadence(prev, next)).toBe(60);
+    expect(crankCadence(next, next)).toBeNull();
+    expect(crankCadence({ power: 0 }, next)).toBeNull();
+  });
+
+  it('reads RSC speed, cadence, stride and distance', () => {
+    const data = [0x07, 0x80, 0x03, 0xaa, 0x78, 0x00, 0x39, 0x30, 0x00, 0x00];
+    expect(parseRsc(view(data))).toEqual({
+      speed: 3.5,
+      cadence: 170,
+      strideLength: 1.2,
+      totalDistance: 1234.5,
+      isRunning: true,
+    });
+    expect(parseRsc(view([0x00, 0x00, 0x01, 0x50]))).toEqual({ speed: 1, cadence: 80, isRunning: false });
+  });
+});
+
+describe('BluetoothSensor over a fake GATT server', () => {
+  const connectSensor = async (kind: 'power' | 'footpod', service: number, characteristic: number) => {
+    const device = new FakeDevice(kind === 'power' ? 'Fake CPS' : 'Fake RSC');
+    const measurement = device.gatt.service(service).characteristic(characteristic);
+    vi.stubGlobal('navigator', { bluetooth: fakeBluetooth(device) });
+    const readings: SensorReading[] = [];
+    const sensor = new BluetoothSensor(kind, reading => readings.push(reading), () => {});
+    await sensor.connect();
+    return { sensor, measurement, readings };
+  };
+
+  it('reports power and crank cadence from Cycling Power notifications', async () => {
+    const { sensor, measurement, readings } = await connectSensor('power', SERVICE_CYCLING_POWER, CHAR_CYCLING_POWER_MEASUREMENT);
+    expect(sensor.label).toBe('Fake CPS');
+
+    measurement.notify([0x20, 0x00, 0xc8, 0x00, 0x0a, 0x00, 0x00, 0x04]);
+    measurement.notify([0x20, 0x00, 0xd2, 0x00, 0x0d, 0x00, 0x00, 0x0c]);
+    expect(readings.map(({ power, cadence }) => ({ power, cadence }))).toEqual([
+      { power: 200, cadence: undefined },
+      { power: 210, cadence: 90 },
+    ]);
+  });
+
+  it('reports speed and cadence from RSC notifications', async () => {
+    const { measurement, readings } = await connectSensor('footpod', SERVICE_RUNNING_SPEED_CADENCE, CHAR_RSC_MEASUREMENT);
+    measurement.notify([0x04, 0x80, 0x03, 0xaa]);
+    expect(readings).toEqual([expect.objectContaining({ kind: 'footpod', speed: 3.5, cadence: 170 })]);
+  });
+});
+
+describe('FitnessMachine control point', () => {
+  let device: FakeDevice;
+  let controlPoint: FakeCharacteristic;
+  let bikeData: FakeCharacteristic;
+  // Result the fake trainer answers each op code with; success by default
+  let results: Record<number, number>;
+  let answering: boolean;
+
+  beforeEach(() => {
+    device = new FakeDevice('Fake Trainer');
+    const service = device.gatt.service(SERVICE_FITNESS_MACHINE);
+    bikeData = service.characteristic(CHAR_INDOOR_BIKE_DATA);
+    controlPoint = service.characteristic(CHAR_FTMS_CONTROL_POINT);
+    results = {};
+    answering = true;
+    controlPoint.onWrite = bytes => {
+      if (answering) controlPoint.notify([0x80, bytes[0], results[bytes[0]] ?? 0x01]);
+    };
+    vi.stubGlobal('navigator', { bluetooth: fakeBluetooth(device) });
+  });
+
+  const connectTrainer = async () => {
+    const readings: SensorReading[] = [];
+    const status: [boolean, string | undefined][] = [];
+    const trainer = new FitnessMachine(reading => readings.push(reading), (connected, error) => status.push([connected, error]));
+    await trainer.connect();
+    return { trainer, readings, status };
+  };
+
+  it('requests control and starts the trainer on connect', async () => {
+    const { status } = await connectTrainer();
+    expect(bytesOf(controlPoint.writes)).toEqual([[OP_REQUEST_CONTROL], [OP_START_OR_RESUME]]);
+    expect(status).toEqual([[true, undefined]]);
+  });
+
+  it('writes the ERG target and resolves on success', async () => {
+    const { trainer } = await connectTrainer();
+    await expect(trainer.setTargetPower(180)).resolves.toBeUndefined();
+    expect(bytesOf(controlPoint.writes).at(-1)).toEqual([OP_SET_TARGET_POWER, 0xb4, 0x00]);
+  });
+
+  it('rejects with the trainer result', async () => {
+    const { trainer } = await connectTrainer();
+    results[OP_SET_TARGET_POWER] = 0x05;
+    await expect(trainer.setTargetPower(180)).rejects.toThrow('Control not permitted');
+  });
+
+  it('fails the connection when control is refused', async () => {
+    results[OP_REQUEST_CONTROL] = 0x04;
+    const { status } = await connectTrainer();
+    expect(status).toEqual([[false, 'Operation failed']]);
+  });
+
+  it('sends one command at a time, each after the previous answer', async () => {
+    const { trainer } = await connectTrainer();
+    answering = false;
+    const first = trainer.setTargetPower(150);
+    const second = trainer.setTargetPower(165);
+    await vi.waitFor(() => expect(controlPoint.writes).toHaveLength(3));
+    await Promise.resolve();
+    expect(controlPoint.writes).toHaveLength(3);
+
+    controlPoint.notify([0x80, OP_SET_TARGET_POWER, 0x01]);
+    await first;
+    await vi.waitFor(() => expect(controlPoint.writes).toHaveLength(4));
+    controlPoint.notify([0x80, OP_SET_TARGET_POWER, 0x01]);
+    await second;
+    expect(bytesOf(controlPoint.writes.slice(2))).toEqual([
+      [OP_SET_TARGET_POWER, 0x96, 0x00],
+      [OP_SET_TARGET_POWER, 0xa5, 0x00],
+    ]);
+  });
+
+  it('ignores answers to other op codes', async () => {
+    const { trainer } = await connectTrainer();
+    answering = false;
+    let settled = false;
+    const pending = trainer.setTargetPower(150).finally(() => { settled = true; });
+    await vi.waitFor(() => expect(controlPoint.writes).toHaveLength(3));
+    controlPoint.notify([0x80, OP_START_OR_RESUME, 0x01]);
+    await Promise.resolve();
+    expect(settled).toBe(false);
+    controlPoint.notify([0x80, OP_SET_TARGET_POWER, 0x01]);
+    await pending;
+  });
+
+  it('times out when the trainer does not answer, and keeps serving later commands', async () => {
+    const { trainer } = await connectTrainer();
+    vi.useFakeTimers();
+    answering = false;
+    const unanswered = expect(trainer.setTargetPower(150)).rejects.toThrow('Trainer did not answer op code 0x5');
+    await vi.advanceTimersByTimeAsync(FTMS_RESPONSE_TIMEOUT_MS);
+    await unanswered;
+
+    answering = true;
+    await expect(trainer.setTargetPower(160)).resolves.toBeUndefined();
+  });
+
+  it('re-applies the last target after a reconnect', async () => {
+    const { trainer, status } = await connectTrainer();
+    await trainer.setTargetPower(210);
+    vi.useFakeTimers();
+    controlPoint.writes.length = 0;
+
+    device.gatt.dropLink();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(device.gatt.connects).toBe(2);
+    expect(bytesOf(controlPoint.writes)).toEqual([
+      [OP_REQUEST_CONTROL],
+      [OP_START_OR_RESUME],
+      [OP_SET_TARGET_POWER, 0xd2, 0x00],
+    ]);
+    expect(status.at(-1)).toEqual([true, undefined]);
+  });
+
+  it('reports Indoor Bike Data power and cadence, but not virtual speed', async () => {
+    const { readings } = await connectTrainer();
+    bikeData.notify([0x44, 0x00, 0x10, 0x27, 0xb4, 0x00, 0xfa, 0x00]);
+    // Without power there is nothing to report
+    bikeData.notify([0x04, 0x00, 0x10, 0x27, 0xb4, 0x00]);
+    expect(readings).toEqual([{ kind: 'trainer', timestamp: expect.any(Number), power: 250, cadence: 90 }]);
+  });
+});
+
+describe('ErgRampController', () => {
+  const settings: ErgRampSettings = { startWatts: 100, stepWatts: 20, stepSeconds: 60, stopBelowSeconds: 30, maxWatts: 160 };
+  const s = (seconds: number) => seconds * 1000;
+
+  // A new history point at `seconds` whose window began at `windowStart`
+  const update = (seconds: number, alpha1: number, windowStart: number, extra: Partial<PipelineUpdate> = {}): PipelineUpdate => ({
+    alpha1,
+    alpha2: null,
+    artifacts: null,
+    point: { timestamp: s(seconds), alpha1, heartRate: 140, windowStart: s(windowStart) },
+    settlingMs: 0,
+    gap: false,
+    ...extra,
+  });
+
+  let targets: number[];
+  let trainer: ErgTrainer;
+  let ramp: ErgRampController;
+
+  beforeEach(async () => {
+    targets = [];
+    trainer = { setTargetPower: async watts => { targets.push(watts); } };
+    ramp = new ErgRampController(trainer, () => {});
+    await ramp.start(settings, 0);
+  });
+
+  it('starts at the start power', () => {
+    expect(ramp.current).toMatchObject({ status: 'running', step: 1, targetWatts: 100, stepStartedAt: 0 });
+    expect(targets).toEqual([100]);
+  });
+
+  it('holds a step for at least stepSeconds', () => {
+    ramp.update(update(59, 1.0, 0), s(59));
+    expect(ramp.current).toMatchObject({ step: 1, waitingForSettle: false });
+    ramp.update(update(60, 1.0, 0), s(60));
+    expect(ramp.current).toMatchObject({ step: 2, targetWatts: 120, stepStartedAt: s(60) });
+    expect(targets).toEqual([100, 120]);
+  });
+
+  it('holds past stepSeconds until the window lies within the step', () => {
+    ramp.update(update(60, 1.0, 0), s(60));
+    ramp.update(update(120, 1.0, 30), s(120));
+    expect(ramp.current).toMatchObject({ step: 2, waitingForSettle: true });
+
+    // Updates without a new point keep holding
+    ramp.update({ ...update(125, 1.0, 60), point: null }, s(125));
+    expect(ramp.current.step).toBe(2);
+
+    ramp.update(update(130, 1.0, 60), s(130));
+    expect(ramp.current).toMatchObject({ step: 3, targetWatts: 140, waitingForSettle: false });
+  });
+
+  it('holds while the heart rate is settling', () => {
+    ramp.update(update(60, 1.0, 0, { settlingMs: 5000 }), s(60));
+    expect(ramp.current).toMatchObject({ step: 1, waitingForSettle: true });
+    ramp.update(update(65, 1.0, 0), s(65));
+    expect(ramp.current.step).toBe(2);
+  });
+
+  it('finishes once alpha1 stays below AnT and drops back to the start power', () => {
+    ramp.update(update(20, 0.45, 0), s(20));
+    ramp.update(update(40, 0.48, 0), s(40));
+    expect(ramp.current).toMatchObject({ status: 'running', belowSince: s(20) });
+    ramp.update(update(50, 0.46, 0), s(50));
+    expect(ramp.current).toMatchObject({ status: 'finished', finishReason: 'threshold', endedAt: s(50) });
+    expect(targets.at(-1)).toBe(100);
+  });
+
+  it('restarts the below-AnT run when alpha1 recovers, ignoring low-quality points', () => {
+    ramp.update(update(10, 0.45, 0), s(10));
+    ramp.update({ ...update(20, 0.9, 0), point: { ...update(20, 0.9, 0).point!, lowQuality: true } }, s(20));
+    expect(ramp.current.belowSince).toBe(s(10));
+    ramp.update(update(25, 0.9, 0), s(25));
+    expect(ramp.current.belowSince).toBeNull();
+    ramp.update(update(45, 0.45, 0), s(45));
+    expect(ramp.current).toMatchObject({ status: 'running', belowSince: s(45) });
+  });
+
+  it('finishes at the power ceiling instead of exceeding it', () => {
+    for (let t = 60; t <= 240; t += 60) ramp.update(update(t, 1.0, t - 1), s(t));
+    expect(ramp.current).toMatchObject({ status: 'finished', finishReason: 'maxPower', targetWatts: 160 });
+    expect(targets).toEqual([100, 120, 140, 160, 100]);
+  });
+
+  it('stops with an error when the trainer rejects the target, without a cool-down', async () => {
+    trainer.setTargetPower = async () => { throw new Error('Control not permitted'); };
+    ramp.update(update(60, 1.0, 0), s(60));
+    await vi.waitFor(() => expect(ramp.current.status).toBe('finished'));
+    expect(ramp.current).toMatchObject({ finishReason: 'error', error: 'Control not permitted' });
+  });
+
+  it('aborts only a running ramp', () => {
+    ramp.abort(s(30));
+    expect(ramp.current).toMatchObject({ status: 'finished', finishReason: 'aborted', endedAt: s(30) });
+    ramp.abort(s(40));
+    expect(ramp.current.endedAt).toBe(s(30));
+  });
+
+  it('drives an FTMS trainer through the control point', async () => {
+    const device = new FakeDevice('Fake Trainer');
+    const service = device.gatt.service(SERVICE_FITNESS_MACHINE);
+    service.characteristic(CHAR_INDOOR_BIKE_DATA);
+    const controlPoint = service.characteristic(CHAR_FTMS_CONTROL_POINT);
+    controlPoint.onWrite = bytes => controlPoint.notify([0x80, bytes[0], 0x01]);
+    vi.stubGlobal('navigator', { bluetooth: fakeBluetooth(device) });
+
+    const machine = new FitnessMachine(() => {}, () => {});
+    await machine.connect();
+    const ftmsRamp = new ErgRampController(machine, () => {});
+    await ftmsRamp.start(settings, 0);
+    ftmsRamp.update(update(60, 1.0, 0), s(60));
+    await vi.waitFor(() => expect(controlPoint.writes).toHaveLength(4));
+
+    expect(bytesOf(controlPoint.writes.slice(2))).toEqual([
+      [OP_SET_TARGET_POWER, 100, 0x00],
+      [OP_SET_TARGET_POWER, 120, 0x00],
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PanTompkinsDetector } from '../services/qrsDetector';
+import { PolarEcgSource } from '../services/bluetoothService';
+import { ECG_SAMPLE_RATE_HZ, encodeStartEcg, parseEcgFrame } from '../services/pmdProtocol';
+import { CHAR_PMD_CONTROL_POINT, CHAR_PMD_DATA, SERVICE_POLAR_PMD } from '../constants';
+import { FakeCharacteristic, FakeDevice, fakeBluetooth } from './fakeGatt';
+import ecg from './fixtures/ecg-130hz.json';
+
+/**
+ * Annotated reference ECG: 130 Hz single lead through rest, a ramp and
+ * 150 bpm with tall T waves, with baseline wander and noise. `rPeaks` are
+ * the true R-wave times in seconds from the first sample.
+ */
+
+const fs = ECG_SAMPLE_RATE_HZ;
+const FRAME_SAMPLES = 73; // What an H10 sends per notification
+const LEARNING_S = 2.2; // Beats in the first 2 s only train the thresholds
+const MATCH_S = 0.05;
+
+const rPeaks: number[] = ecg.rPeaks;
+const annotatedAfterLearning = rPeaks.filter(t => t > LEARNING_S);
+const annotatedIndex = (t: number) => rPeaks.findIndex(r => Math.abs(r - t) < MATCH_S);
+
+const frames = (samples: number[]) => {
+  const chunks: number[][] = [];
+  for (let i = 0; i < samples.length; i += FRAME_SAMPLES) chunks.push(samples.slice(i, i + FRAME_SAMPLES));
+  return chunks;
+};
+
+const detect = (chunks: number[][]) => {
+  const detector = new PanTompkinsDetector(fs);
+  return chunks.flatMap(chunk => detector.push(chunk)).map(peak => peak / fs);
+};
+
+// Intervals between consecutive detections that are consecutive annotated beats: [detected, annotated] in ms
+const pairedRR = (times: number[]) => {
+  const pairs: [number, number][] = [];
+  for (let i = 1; i < times.length; i++) {
+    const a = annotatedIndex(times[i - 1]);
+    const b = annotatedIndex(times[i]);
+    if (a >= 0 && b === a + 1) pairs.push([(times[i] - times[i - 1]) * 1000, (rPeaks[b] - rPeaks[a]) * 1000]);
+  }
+  return pairs;
+};
+
+describe('PanTompkinsDetector on the annotated ECG', () => {
+  const times = detect(frames(ecg.samples));
+
+  it('finds every annotated beat after the learning period', () => {
+    for (const r of annotatedAfterLearning) {
+      expect(times.some(t => Math.abs(t - r) < MATCH_S), `beat at ${r} s`).toBe(true);
+    }
+  });
+
+  it('reports no peaks that are not beats, T waves included', () => {
+    expect(times.filter(t => annotatedIndex(t) < 0)).toEqual([]);
+    expect(times).toHaveLength(annotatedAfterLearning.length);
+  });
+
+  it('places R peaks within 10 ms of the annotation', () => {
+    times.forEach((t, i) => expect(Math.abs(t - annotatedAfterLearning[i]) * 1000).toBeLessThan(10));
+  });
+
+  it('measures RR to well under one sample period', () => {
+    const pairs = pairedRR(times);
+    expect(pairs).toHaveLength(annotatedAfterLearning.length - 1);
+    for (const [detected, annotated] of pairs) expect(Math.abs(detected - annotated)).toBeLessThan(2);
+  });
+
+  it('gives the same peaks however the samples are chunked', () => {
+    expect(detect(ecg.samples.map(x => [x]))).toEqual(times);
+    expect(detect([ecg.samples])).toEqual(times);
+  });
+
+  it('learns again after a reset', () => {
+    const detector = new PanTompkinsDetector(fs);
+    const half = Math.round(60 * fs);
+    detector.push(ecg.samples.slice(0, half));
+    detector.reset();
+    const peaks = detector.push(ecg.samples.slice(half)).map(peak => (peak + half) / fs);
+    expect(peaks).toHaveLength(rPeaks.filter(t => t > 60 + LEARNING_S).length);
+    expect(peaks.every(t => annotatedIndex(t) >= 0)).toBe(true);
+  });
+});
+
+// PMD data frame: [type, uint64 timestamp, frame type 0, int24 samples...]
+const ecgFrame = (timestampNs: number, samples: number[]) => {
+  const bytes = new Uint8Array(10 + samples.length * 3);
+  const data = new DataView(bytes.buffer);
+  data.setUint32(1, timestampNs % 2 ** 32, true);
+  data.setUint32(5, Math.floor(timestampNs / 2 ** 32), true);
+  samples.forEach((sample, i) => {
+    const raw = sample < 0 ? sample + 0x1000000 : sample;
+    bytes.set([raw & 0xff, (raw >> 8) & 0xff, (raw >> 16) & 0xff], 10 + i * 3);
+  });
+  return bytes;
+};
+
+describe('parseEcgFrame', () => {
+  it('reads the timestamp and signed 24-bit samples', () => {
+    const timestamp = 599_634_000_123_456_789;
+    const frame = parseEcgFrame(new DataView(ecgFrame(timestamp, [0, 1300, -280, -8388608, 8388607]).buffer));
+    expect(frame).toEqual({ timestamp: expect.closeTo(timestamp, -3), samples: [0, 1300, -280, -8388608, 8388607] });
+  });
+
+  it('ignores other measurement and frame types', () => {
+    const bytes = ecgFrame(0, [1, 2, 3]);
+    bytes[0] = 0x01;
+    expect(parseEcgFrame(new DataView(bytes.buffer))).toBeNull();
+    bytes[0] = 0x00;
+    bytes[9] = 0x80;
+    expect(parseEcgFrame(new DataView(bytes.buffer))).toBeNull();
+  });
+});
+
+describe('PolarEcgSource over a fake PMD service', () => {
+  const START = Date.UTC(2026, 0, 1);
+  let controlPoint: FakeCharacteristic;
+  let pmdData: FakeCharacteristic;
+  let startStatus: number;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const device = new FakeDevice('Polar H10 1A2B3C4D');
+    const service = device.gatt.service(SERVICE_POLAR_PMD);
+    pmdData = service.characteristic(CHAR_PMD_DATA);
+    controlPoint = service.characteristic(CHAR_PMD_CONTROL_POINT);
+    startStatus = 0x00;
+    controlPoint.onWrite = bytes => controlPoint.notify([0xf0, bytes[0], bytes[1], startStatus]);
+    vi.stubGlobal('navigator', { bluetooth: fakeBluetooth(device) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const connectStrap = async () => {
+    const beats: { hr: number; rr: number[]; timestamp: number }[] = [];
+    const status: [boolean, string | undefined][] = [];
+    let ecgSamples = 0;
+    const source = new PolarEcgSource(
+      (hr, rr, timestamp) => beats.push({ hr, rr: rr ?? [], timestamp: timestamp ?? 0 }),
+      (connected, error) => status.push([connected, error]),
+      samples => { ecgSamples += samples.length; },
+    );
+    await source.connect();
+    return { source, beats, status, ecgSampleCount: () => ecgSamples };
+  };
+
+  // Streams the fixture with the wall clock at each frame's last sample; `skip` drops frames
+  const stream = (skip: (frameIndex: number) => boolean = () => false) => {
+    vi.useFakeTimers();
+    frames(ecg.samples).forEach((chunk, k) => {
+      const lastSample = k * FRAME_SAMPLES + chunk.length - 1;
+      if (skip(k)) return;
+      vi.setSystemTime(START + (lastSample / fs) * 1000);
+      pmdData.notify(ecgFrame(1e12 + Math.round((lastSample / fs) * 1e9), chunk));
+    });
+  };
+
+  it('starts the ECG stream on connect', async () => {
+    const { source, status } = await connectStrap();
+    expect([...controlPoint.writes[0]]).toEqual([...encodeStartEcg()]);
+    expect(status).toEqual([[true, undefined]]);
+    expect(source.label).toBe('Polar H10 1A2B3C4D');
+  });
+
+  it('fails the connection when the strap refuses the stream', async () => {
+    startStatus = 0x05;
+    const { status } = await connectStrap();
+    expect(status).toEqual([[false, 'ECG stream refused: Invalid parameter']]);
+  });
+
+  it('turns the ECG into RR intervals matching the annotation', async () => {
+    const { beats, ecgSampleCount } = await connectStrap();
+    stream();
+    expect(ecgSampleCount()).toBe(ecg.samples.length);
+
+    const rr = beats.flatMap(b => b.rr);
+    const annotatedRR = annotatedAfterLearning.slice(1).map((t, i) => (t - annotatedAfterLearning[i]) * 1000);
+    expect(rr).toHaveLength(annotatedRR.length);
+    rr.forEach((value, i) => expect(Math.abs(value - annotatedRR[i])).toBeLessThan(2));
+  });
+
+  it('stamps each packet with the wall-clock time of its last beat', async () => {
+    const { beats } = await connectStrap();
+    stream();
+    for (const { timestamp } of beats) {
+      const beatSeconds = (timestamp - START) / 1000;
+      expect(Math.min(...rPeaks.map(r => Math.abs(r - beatSeconds)))).toBeLessThan(0.01);
+    }
+    const last = beats.at(-1)!;
+    expect(last.hr).toBeGreaterThan(140);
+    expect(last.hr).toBeLessThan(160);
+  });
+
+  it('starts over after a lost frame instead of bridging the gap', async () => {
+    const { beats } = await connectStrap();
+    const lost = Math.floor((60 * fs) / FRAME_SAMPLES);
+    stream(k => k === lost);
+
+    const gapEnd = ((lost + 1) * FRAME_SAMPLES) / fs;
+    // Every interval must be a true beat-to-beat interval; one spanning the gap would be far longer
+    for (const { rr, timestamp } of beats) {
+      const last = annotatedIndex((timestamp - START) / 1000);
+      expect(last).toBeGreaterThan(0);
+      rr.forEach((value, j) => {
+        const i = last - (rr.length - 1 - j);
+        expect(Math.abs(value - (rPeaks[i] - rPeaks[i - 1]) * 1000)).toBeLessThan(2);
+      });
+    }
+    expect(beats.some(b => (b.timestamp - START) / 1000 > gapEnd)).toBe(true);
+  });
+});
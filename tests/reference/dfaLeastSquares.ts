@@ -0,0 +1,140 @@
+/**
+ * The DFA-a1 implementation from before the closed-form core: generic
+ * least-squares detrending on copied slices, one box size at a time. Kept
+ * only as a reference for the equivalence test and the benchmark.
+ * `leastSquaresExponent` generalises it to any detrending order, box
+ * placement and box sizes by solving the normal equations directly.
+ */
+
+const linearRegression = (x: number[], y: number[]) => {
+  const n = x.length;
+  let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
+  for (let i = 0; i < n; i++) {
+    sumX += x[i];
+    sumY += y[i];
+    sumXY += x[i] * y[i];
+    sumXX += x[i] * x[i];
+  }
+  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+  const intercept = (sumY - slope * sumX) / n;
+  return { slope, intercept };
+};
+
+const calculateF_n = (integratedSeries: number[], boxSize: number): number => {
+  const N = integratedSeries.length;
+  const numBoxes = Math.floor(N / boxSize);
+  let totalResidualSq = 0;
+  for (let i = 0; i < numBoxes; i++) {
+    const start = i * boxSize;
+    const segmentY = integratedSeries.slice(start, start + boxSize);
+    const segmentX = Array.from({ length: boxSize }, (_, k) => k);
+    const { slope, intercept } = linearRegression(segmentX, segmentY);
+    for (let k = 0; k < boxSize; k++) {
+      const residual = segmentY[k] - (slope * k + intercept);
+      totalResidualSq += residual * residual;
+    }
+  }
+  return Math.sqrt(totalResidualSq / (numBoxes * boxSize));
+};
+
+const integrate = (cleanRR: number[]): number[] => {
+  const meanRR = cleanRR.reduce((a, b) => a + b, 0) / cleanRR.length;
+  const integratedSeries: number[] = [];
+  let currentSum = 0;
+  for (const rr of cleanRR) {
+    currentSum += rr - meanRR;
+    integratedSeries.push(currentSum);
+  }
+  return integratedSeries;
+};
+
+// Solves A c = b by Gaussian elimination with partial pivoting
+const solve = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= factor * M[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
+
+// Residual sum of squares after fitting a polynomial of `order` to one box
+const polyResidualSq = (segmentY: number[], order: number): number => {
+  const n = segmentY.length;
+  // Centred and scaled x keeps the normal equations well conditioned
+  const xs = segmentY.map((_, k) => (k - (n - 1) / 2) / n);
+  const terms = order + 1;
+  const A = Array.from({ length: terms }, (_, i) =>
+    Array.from({ length: terms }, (_, j) => xs.reduce((sum, x) => sum + x ** (i + j), 0)));
+  const b = Array.from({ length: terms }, (_, i) => xs.reduce((sum, x, k) => sum + x ** i * segmentY[k], 0));
+  const coefficients = solve(A, b);
+  return segmentY.reduce((sum, y, k) => {
+    const fit = coefficients.reduce((value, c, j) => value + c * xs[k] ** j, 0);
+    return sum + (y - fit) ** 2;
+  }, 0);
+};
+
+export interface ReferenceOptions {
+  sizes: number[];
+  order: number;
+  placement: 'forward' | 'forwardBackward' | 'sliding';
+  slidingStep: number;
+}
+
+const boxStarts = (N: number, boxSize: number, { placement, slidingStep }: ReferenceOptions): number[] => {
+  const numBoxes = Math.floor(N / boxSize);
+  const forward = Array.from({ length: numBoxes }, (_, i) => i * boxSize);
+  if (placement === 'forward') return forward;
+  if (placement === 'forwardBackward') return [...forward, ...forward.map((_, i) => N - (i + 1) * boxSize)];
+  const starts: number[] = [];
+  for (let start = 0; start + boxSize <= N; start += slidingStep) starts.push(start);
+  return starts;
+};
+
+// Expects artifact-corrected RR; sizes that cannot hold the fit or exceed the series are skipped
+export const leastSquaresExponent = (cleanRR: number[], options: ReferenceOptions): number | null => {
+  if (cleanRR.length < 50) return null;
+  const integratedSeries = integrate(cleanRR);
+  const N = integratedSeries.length;
+  const logN: number[] = [];
+  const logFn: number[] = [];
+  for (const n of options.sizes) {
+    if (n <= options.order + 1 || n > N) continue;
+    const starts = boxStarts(N, n, options);
+    const totalResidualSq = starts.reduce((sum, start) => sum + polyResidualSq(integratedSeries.slice(start, start + n), options.order), 0);
+    const Fn = Math.sqrt(totalResidualSq / (starts.length * n));
+    if (Fn > 0) {
+      logN.push(Math.log10(n));
+      logFn.push(Math.log10(Fn));
+    }
+  }
+  return logN.length < 2 ? null : linearRegression(logN, logFn).slope;
+};
+
+// Expects artifact-corrected RR; box sizes 4-16, forward placement, DFA1
+export const leastSquaresAlpha1 = (cleanRR: number[]): number | null => {
+  if (cleanRR.length < 50) return null;
+  const integratedSeries = integrate(cleanRR);
+  const logN: number[] = [];
+  const logFn: number[] = [];
+  for (let n = 4; n <= 16; n++) {
+    const Fn = calculateF_n(integratedSeries, n);
+    if (Fn > 0) {
+      logN.push(Math.log10(n));
+      logFn.push(Math.log10(Fn));
+    }
+  }
+  return linearRegression(logN, logFn).slope;
+};
@@ -0,0 +1,326 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AddressInfo, connect, Socket } from 'node:net';
+import { randomBytes } from 'node:crypto';
+import { createRelay } from '../scripts/rr-relay.mjs';
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+// Client frames are always masked (RFC 6455 §5.3)
+const clientFrame = (opcode: number, payload: Buffer, fin = true) => {
+  const mask = randomBytes(4);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+  const length = payload.length < 126 ? [payload.length] : [126, payload.length >> 8, payload.length & 0xff];
+  return Buffer.concat([Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | length[0], ...length.slice(1)]), mask, masked]);
+};
+
+/**
+ * Minimal WebSocket client on a raw TCP socket, so tests can send exactly
+ * the frames they need (fragments, control frames in between, binary).
+ */
+class RawWebSocket {
+  private buffer = Buffer.alloc(0);
+  private frames: Frame[] = [];
+  private waiting: ((frame: Frame) => void)[] = [];
+
+  private constructor(readonly socket: Socket) {}
+
+  static open(port: number, path = '/'): Promise<RawWebSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = connect(port, '127.0.0.1');
+      const client = new RawWebSocket(socket);
+      let upgraded = false;
+      socket.once('error', reject);
+      socket.write(
+        `GET ${path} HTTP/1.1\r\nHost: 127.0.0.1:${port}\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+        `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}\r\nSec-WebSocket-Version: 13\r\n\r\n`,
+      );
+      socket.on('data', chunk => {
+        client.buffer = Buffer.concat([client.buffer, chunk]);
+        if (!upgraded) {
+          const end = client.buffer.indexOf('\r\n\r\n');
+          if (end < 0) return;
+          const status = client.buffer.subarray(0, end).toString();
+          if (!status.startsWith('HTTP/1.1 101')) return reject(new Error(status));
+          client.buffer = client.buffer.subarray(end + 4);
+          upgraded = true;
+          resolve(client);
+        }
+        client.readFrames();
+      });
+    });
+  }
+
+  send(opcode: number, payload: string | Buffer, fin = true) {
+    this.socket.write(clientFrame(opcode, Buffer.from(payload), fin));
+  }
+
+  sendText(message: unknown) {
+    this.send(OP_TEXT, JSON.stringify(message));
+  }
+
+  next(): Promise<Frame> {
+    const frame = this.frames.shift();
+    if (frame) return Promise.resolve(frame);
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  async nextText(): Promise<unknown> {
+    const frame = await this.next();
+    expect(frame.opcode).toBe(OP_TEXT);
+    return JSON.parse(frame.payload.toString());
+  }
+
+  async closeCode(): Promise<number> {
+    const frame = await this.next();
+    expect(frame.opcode).toBe(OP_CLOSE);
+    return frame.payload.readUInt16BE(0);
+  }
+
+  // Server frames are unmasked and small here
+  private readFrames() {
+    while (this.buffer.length >= 2) {
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      }
+      if (this.buffer.length < offset + length) return;
+      const frame = {
+        fin: (this.buffer[0] & 0x80) !== 0,
+        opcode: this.buffer[0] & 0x0f,
+        payload: Buffer.from(this.buffer.subarray(offset, offset + length)),
+      };
+      this.buffer = this.buffer.subarray(offset + length);
+      const waiter = this.waiting.shift();
+      if (waiter) waiter(frame);
+      else this.frames.push(frame);
+    }
+  }
+}
+
+// Server-Sent Events client; resolves once the relay has registered it
+const openEvents = async (port: number) => {
+  const controller = new AbortController();
+  const response = await fetch(`http://127.0.0.1:${port}/events`, { signal: controller.signal });
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let text = '';
+  const nextEvent = async (): Promise<string> => {
+    for (;;) {
+      const end = text.indexOf('\n\n');
+      if (end >= 0) {
+        const event = text.slice(0, end);
+        text = text.slice(end + 2);
+        return event;
+      }
+      const { value, done } = await reader.read();
+      if (done) throw new Error('Event stream ended');
+      text += value;
+    }
+  };
+  expect(await nextEvent()).toBe(': connected');
+  const nextData = async () => {
+    const event = await nextEvent();
+    expect(event.startsWith('data: ')).toBe(true);
+    return JSON.parse(event.slice('data: '.length));
+  };
+  return { response, nextData, close: () => controller.abort() };
+};
+
+describe('rr relay', () => {
+  let relay: ReturnType<typeof createRelay>;
+  let port: number;
+  const message = { hr: 142, rr: [421.5, 419], ts: 1718000000000 };
+
+  const post = async (body: string) => {
+    const response = await fetch(`http://127.0.0.1:${port}/rr`, { method: 'POST', body, headers: { 'Content-Type': 'application/json' } });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    relay = createRelay({ port: 0, log: () => {} });
+    await relay.listen();
+    port = (relay.server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await relay.close();
+  });
+
+  describe('POST /rr', () => {
+    it('answers 202 with the number of accepted messages', async () => {
+      expect(await post(JSON.stringify(message))).toEqual({ status: 202, body: { accepted: 1 } });
+      expect(await post(JSON.stringify([message, { hr: 'x' }, { hr: 150 }]))).toEqual({ status: 202, body: { accepted: 2 } });
+    });
+
+    it('answers 400 when nothing can be relayed', async () => {
+      expect(await post('{"hr":142,')).toEqual({ status: 400, body: { accepted: 0 } });
+      expect(await post(JSON.stringify({ rr: [421] }))).toEqual({ status: 400, body: { accepted: 0 } });
+      expect(await post(JSON.stringify([]))).toEqual({ status: 400, body: { accepted: 0 } });
+    });
+
+    it('answers 404 elsewhere', async () => {
+      expect((await fetch(`http://127.0.0.1:${port}/nowhere`)).status).toBe(404);
+    });
+  });
+
+  describe('POST /rr from browsers', () => {
+    const APP = 'https://app.example';
+    const fromOrigin = (origin: string, method = 'POST') =>
+      fetch(`http://127.0.0.1:${port}/rr`, { method, headers: { Origin: origin, 'Content-Type': 'application/json' }, ...(method === 'POST' && { body: JSON.stringify(message) }) });
+
+    it('refuses pages and preflights by default, without relaying', async () => {
+      const listener = await RawWebSocket.open(port);
+      const response = await fromOrigin('https://elsewhere.example');
+      expect(response.status).toBe(403);
+      expect(response.headers.get('access-control-allow-origin')).toBeNull();
+      expect((await fromOrigin('https://elsewhere.example', 'OPTIONS')).status).toBe(403);
+      expect((await fetch(`http://127.0.0.1:${port}/rr`, { method: 'OPTIONS' })).status).toBe(403);
+
+      await post(JSON.stringify(message));
+      expect(await listener.nextText()).toEqual(message); // Only the origin-less post arrives
+    });
+
+    it('accepts the configured origin only', async () => {
+      await relay.close();
+      relay = createRelay({ port: 0, allowOrigin: APP, log: () => {} });
+      await relay.listen();
+      port = (relay.server.address() as AddressInfo).port;
+
+      const preflight = await fromOrigin(APP, 'OPTIONS');
+      expect(preflight.status).toBe(204);
+      expect(preflight.headers.get('access-control-allow-origin')).toBe(APP);
+      const response = await fromOrigin(APP);
+      expect(response.status).toBe(202);
+      expect(response.headers.get('access-control-allow-origin')).toBe(APP);
+
+      expect((await fromOrigin('https://elsewhere.example')).status).toBe(403);
+      expect((await fromOrigin('https://elsewhere.example', 'OPTIONS')).status).toBe(403);
+    });
+
+    it('keeps the event stream readable from any origin', async () => {
+      const events = await openEvents(port);
+      expect(events.response.headers.get('access-control-allow-origin')).toBe('*');
+      events.close();
+    });
+  });
+
+  describe('delivery', () => {
+    it('forwards POSTed messages to WebSocket and SSE clients', async () => {
+      const ws = await RawWebSocket.open(port);
+      const events = await openEvents(port);
+      expect(events.response.headers.get('content-type')).toBe('text/event-stream');
+
+      await post(JSON.stringify(message));
+      expect(await ws.nextText()).toEqual(message);
+      expect(await events.nextData()).toEqual(message);
+      events.close();
+    });
+
+    it('forwards WebSocket input to every client', async () => {
+      const sender = await RawWebSocket.open(port);
+      const listener = await RawWebSocket.open(port);
+      const events = await openEvents(port);
+
+      sender.sendText(message);
+      expect(await listener.nextText()).toEqual(message);
+      expect(await sender.nextText()).toEqual(message);
+      expect(await events.nextData()).toEqual(message);
+      events.close();
+    });
+
+    it('does not forward invalid messages', async () => {
+      const sender = await RawWebSocket.open(port);
+      const listener = await RawWebSocket.open(port);
+      sender.sendText({ hr: -5 });
+      sender.sendText(message);
+      expect(await listener.nextText()).toEqual(message);
+    });
+
+    it('answers pings', async () => {
+      const ws = await RawWebSocket.open(port);
+      ws.send(OP_PING, 'beat');
+      const pong = await ws.next();
+      expect([pong.opcode, pong.payload.toString()]).toEqual([OP_PONG, 'beat']);
+    });
+  });
+
+  describe('fragmented WebSocket messages', () => {
+    it('joins fragments, with a ping in between, into one message', async () => {
+      const sender = await RawWebSocket.open(port);
+      const listener = await RawWebSocket.open(port);
+      const text = JSON.stringify(message);
+
+      sender.send(OP_TEXT, text.slice(0, 10), false);
+      sender.send(OP_CONTINUATION, text.slice(10, 20), false);
+      sender.send(OP_PING, 'mid');
+      sender.send(OP_CONTINUATION, text.slice(20), true);
+
+      expect((await sender.next()).opcode).toBe(OP_PONG);
+      expect(await listener.nextText()).toEqual(message);
+    });
+
+    it('joins fragments split across TCP writes', async () => {
+      const sender = await RawWebSocket.open(port);
+      const listener = await RawWebSocket.open(port);
+      const text = JSON.stringify(message);
+      const bytes = Buffer.concat([
+        clientFrame(OP_TEXT, Buffer.from(text.slice(0, 5)), false),
+        clientFrame(OP_CONTINUATION, Buffer.from(text.slice(5)), true),
+      ]);
+      for (let i = 0; i < bytes.length; i += 7) sender.socket.write(bytes.subarray(i, i + 7));
+      expect(await listener.nextText()).toEqual(message);
+    });
+
+    it('passes fragmented coach messages on whole', async () => {
+      const athlete = await RawWebSocket.open(port, '/coach');
+      const coach = await RawWebSocket.open(port, '/coach');
+      athlete.send(OP_TEXT, '{"type":"sta', false);
+      athlete.send(OP_CONTINUATION, 'tus"}', true);
+      const frame = await coach.next();
+      expect([frame.fin, frame.opcode, frame.payload.toString()]).toEqual([true, OP_TEXT, '{"type":"status"}']);
+    });
+
+    it('closes with 1003 on binary messages', async () => {
+      const ws = await RawWebSocket.open(port);
+      ws.send(OP_BINARY, Buffer.from([1, 2, 3]));
+      expect(await ws.closeCode()).toBe(1003);
+    });
+
+    it('closes with 1002 on a continuation without a message, or a message inside another', async () => {
+      const stray = await RawWebSocket.open(port);
+      stray.send(OP_CONTINUATION, 'tail');
+      expect(await stray.closeCode()).toBe(1002);
+
+      const interleaved = await RawWebSocket.open(port);
+      interleaved.send(OP_TEXT, '{"hr":', false);
+      interleaved.send(OP_TEXT, '{"hr":1}');
+      expect(await interleaved.closeCode()).toBe(1002);
+    });
+
+    it('closes with 1009 on messages above the size limit', async () => {
+      const ws = await RawWebSocket.open(port);
+      const chunk = 'x'.repeat(60000);
+      ws.send(OP_TEXT, chunk, false);
+      ws.send(OP_CONTINUATION, chunk, true);
+      expect(await ws.closeCode()).toBe(1009);
+    });
+  });
+
+  it('explains a port that is already taken', async () => {
+    const second = createRelay({ port, log: () => {} });
+    await expect(second.listen()).rejects.toThrow(`Port ${port} on 127.0.0.1 is already in use`);
+  });
+});
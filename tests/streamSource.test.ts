@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { isStreamUrl, parseStreamMessage } from '../services/streamSource';
+import { isValidMessage } from '../scripts/rr-relay.mjs';
+
+const valid: [string, string, ReturnType<typeof parseStreamMessage>][] = [
+  ['hr, rr and ts', '{"hr":142,"rr":[421.5,419],"ts":1718000000000}', { hr: 142, rr: [421.5, 419], ts: 1718000000000 }],
+  ['hr only', '{"hr":60}', { hr: 60, rr: [] }],
+  ['an empty rr list', '{"hr":0,"rr":[]}', { hr: 0, rr: [] }],
+  ['unknown fields', '{"hr":90,"rr":[650],"battery":80}', { hr: 90, rr: [650] }],
+];
+
+const invalid: [string, string][] = [
+  ['malformed JSON', '{"hr":142,'],
+  ['a bare number', '142'],
+  ['null', 'null'],
+  ['a missing hr', '{"rr":[421]}'],
+  ['a string hr', '{"hr":"142"}'],
+  ['a negative hr', '{"hr":-1}'],
+  ['rr that is not a list', '{"hr":142,"rr":421}'],
+  ['a zero interval', '{"hr":142,"rr":[421,0]}'],
+  ['a string interval', '{"hr":142,"rr":["421"]}'],
+  ['a string ts', '{"hr":142,"ts":"now"}'],
+];
+
+describe('parseStreamMessage', () => {
+  it.each(valid)('accepts %s', (_name, text, expected) => {
+    expect(parseStreamMessage(text)).toEqual(expected);
+  });
+
+  it.each(invalid)('rejects %s', (_name, text) => {
+    expect(parseStreamMessage(text)).toBeNull();
+  });
+
+  it('applies the same rules as the relay', () => {
+    for (const [, text] of [...valid, ...invalid]) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        continue;
+      }
+      expect(isValidMessage(parsed), text).toBe(parseStreamMessage(text) !== null);
+    }
+  });
+});
+
+describe('isStreamUrl', () => {
+  it.each(['ws://localhost:8765', 'wss://relay.example/coach', 'http://192.168.1.20:8765/events', ' HTTPS://host '])('accepts %s', url => {
+    expect(isStreamUrl(url)).toBe(true);
+  });
+
+  it.each(['localhost:8765', 'ftp://host', 'ws://', ''])('rejects "%s"', url => {
+    expect(isStreamUrl(url)).toBe(false);
+  });
+});
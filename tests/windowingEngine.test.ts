@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import { WindowingEngine, WindowingOptions } from '../services/windowingEngine';
+import { RR_GAP_THRESHOLD_MS } from '../constants';
+
+const START = Date.UTC(2026, 0, 1);
+
+const options = (overrides: Partial<WindowingOptions> = {}): WindowingOptions => ({
+  windowMode: 'beats',
+  dfaWindowBeats: 120,
+  windowSeconds: 60,
+  recomputeIntervalMs: 5000,
+  settlingHrDelta: 0,
+  settlingSeconds: 30,
+  ...overrides,
+});
+
+/**
+ * Feeds `count` beats of `rrMs` one packet per beat, the first ending
+ * `rrMs` after `from`. Returns the time of the last beat.
+ */
+const feed = (engine: WindowingEngine, count: number, rrMs: number, from: number, hr = 60000 / rrMs) => {
+  let t = from;
+  for (let i = 0; i < count; i++) {
+    t += rrMs;
+    engine.addBeats([rrMs], t, hr);
+  }
+  return t;
+};
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe('beat-count windows', () => {
+  it('waits for the full number of beats', () => {
+    const engine = new WindowingEngine(options());
+    const t = feed(engine, 119, 500, START);
+    expect(engine.currentWindow(t)).toBeNull();
+    engine.addBeats([500], t + 500, 120);
+    expect(engine.currentWindow(t + 500)?.rr).toHaveLength(120);
+  });
+
+  it('holds the last N beats, spanning their start to the final beat', () => {
+    const engine = new WindowingEngine(options());
+    const t = feed(engine, 100, 500, START);
+    const end = feed(engine, 100, 400, t);
+    const window = engine.currentWindow(end)!;
+    expect(window.rr).toEqual([...Array(20).fill(500), ...Array(100).fill(400)]);
+    expect(window.end).toBe(end);
+    expect(window.start).toBe(end - sum(window.rr));
+  });
+
+  it('back-dates the beats of a multi-beat packet from its last beat', () => {
+    const engine = new WindowingEngine(options({ dfaWindowBeats: 3 }));
+    engine.addBeats([600, 700, 800], START + 2100, 85);
+    expect(engine.currentWindow(START + 2100)).toEqual({ rr: [600, 700, 800], start: START, end: START + 2100 });
+  });
+});
+
+describe('time-based windows', () => {
+  it('waits until the buffer covers the whole window', () => {
+    const engine = new WindowingEngine(options({ windowMode: 'time' }));
+    // 120 beats of 500 ms start exactly 60 s before the last one ends
+    const t = feed(engine, 120, 500, START);
+    expect(engine.currentWindow(t)).toBeNull();
+    engine.addBeats([500], t + 500, 120);
+    expect(engine.currentWindow(t + 500)?.rr).toHaveLength(120);
+  });
+
+  it('selects the beats inside the last T seconds, however many there are', () => {
+    const engine = new WindowingEngine(options({ windowMode: 'time' }));
+    const slow = feed(engine, 130, 1000, START, 60);
+    const slowWindow = engine.currentWindow(slow)!;
+    expect(slowWindow.rr).toHaveLength(60);
+
+    const fast = feed(engine, 200, 400, slow, 150);
+    const fastWindow = engine.currentWindow(fast)!;
+    expect(fastWindow.rr).toHaveLength(150);
+    expect(fastWindow.start).toBeGreaterThanOrEqual(fast - 60000);
+    expect(sum(fastWindow.rr)).toBe(60000);
+  });
+
+  it('follows a change of mode', () => {
+    const engine = new WindowingEngine(options({ windowSeconds: 30 }));
+    const t = feed(engine, 200, 500, START);
+    expect(engine.currentWindow(t)?.rr).toHaveLength(120);
+    engine.configure({ windowMode: 'time' });
+    expect(engine.currentWindow(t)?.rr).toHaveLength(60);
+  });
+});
+
+describe('recompute cadence', () => {
+  it('hands out a window at most once per interval', () => {
+    const engine = new WindowingEngine(options());
+    let t = feed(engine, 120, 500, START);
+    expect(engine.nextWindow(t)).not.toBeNull();
+
+    const due: number[] = [];
+    for (let i = 0; i < 40; i++) {
+      t = feed(engine, 1, 500, t);
+      if (engine.nextWindow(t)) due.push(t);
+    }
+    expect(due.slice(1).map((time, i) => time - due[i])).toEqual(Array(due.length - 1).fill(5000));
+    expect(due).toHaveLength(4);
+  });
+
+  it('does not consume the window when only peeking', () => {
+    const engine = new WindowingEngine(options());
+    const t = feed(engine, 120, 500, START);
+    expect(engine.currentWindow(t)).not.toBeNull();
+    expect(engine.nextWindow(t)).not.toBeNull();
+    expect(engine.nextWindow(t)).toBeNull();
+    expect(engine.currentWindow(t)).not.toBeNull();
+  });
+
+  it('is due again straight after a reset', () => {
+    const engine = new WindowingEngine(options({ dfaWindowBeats: 3, recomputeIntervalMs: 60000 }));
+    const t = feed(engine, 3, 500, START);
+    expect(engine.nextWindow(t)).not.toBeNull();
+    engine.reset();
+    expect(engine.currentWindow(t)).toBeNull();
+    const later = feed(engine, 3, 500, t);
+    expect(engine.nextWindow(later)).not.toBeNull();
+  });
+});
+
+describe('settling period', () => {
+  const settling = options({ settlingHrDelta: 10, settlingSeconds: 30 });
+
+  it('pauses recomputation after a sharp HR change', () => {
+    const engine = new WindowingEngine(settling);
+    let t = feed(engine, 150, 500, START, 120);
+    expect(engine.nextWindow(t)).not.toBeNull();
+
+    t = feed(engine, 1, 500, t, 135);
+    const changedAt = t;
+    expect(engine.settlingRemainingMs(changedAt)).toBe(30000);
+
+    const due: number[] = [];
+    for (let i = 0; i < 80; i++) {
+      t = feed(engine, 1, 500, t, 135);
+      if (engine.nextWindow(t)) due.push(t);
+    }
+    expect(engine.settlingRemainingMs(t)).toBe(0);
+    expect(due[0]).toBe(changedAt + 30000);
+  });
+
+  it('ignores changes smaller than the threshold and slow drift', () => {
+    const engine = new WindowingEngine(settling);
+    let t = feed(engine, 150, 500, START, 120);
+    t = feed(engine, 1, 500, t, 129);
+    expect(engine.settlingRemainingMs(t)).toBe(0);
+    // +1 bpm every 40 s never reaches 10 bpm within the 30 s lookback
+    for (let hr = 121; hr < 140; hr++) t = feed(engine, 80, 500, t, hr);
+    expect(engine.settlingRemainingMs(t)).toBe(0);
+  });
+
+  it('is off when the HR threshold is zero', () => {
+    const engine = new WindowingEngine(options({ settlingHrDelta: 0 }));
+    let t = feed(engine, 150, 500, START, 80);
+    t = feed(engine, 1, 500, t, 170);
+    expect(engine.settlingRemainingMs(t)).toBe(0);
+    expect(engine.nextWindow(t)).not.toBeNull();
+  });
+
+  it('skips packets without a heart rate', () => {
+    const engine = new WindowingEngine(settling);
+    let t = feed(engine, 150, 500, START, 120);
+    t = feed(engine, 1, 500, t, 0);
+    expect(engine.settlingRemainingMs(t)).toBe(0);
+  });
+});
+
+describe('RR gaps', () => {
+  it('reports a packet that starts after a dropout', () => {
+    const engine = new WindowingEngine(options());
+    const t = feed(engine, 10, 500, START);
+    expect(engine.addBeats([500], t + 500, 120)).toBe(false);
+    expect(engine.addBeats([500], t + 500 + RR_GAP_THRESHOLD_MS + 500, 120)).toBe(false);
+    expect(engine.addBeats([500], t + 500 + 2 * RR_GAP_THRESHOLD_MS + 1500, 120)).toBe(true);
+  });
+
+  it('discards the beats before the gap', () => {
+    const engine = new WindowingEngine(options());
+    let t = feed(engine, 200, 500, START);
+    expect(engine.currentWindow(t)).not.toBeNull();
+
+    t = feed(engine, 1, 400, t + 10000);
+    expect(engine.currentWindow(t)).toBeNull();
+    t = feed(engine, 118, 400, t);
+    expect(engine.currentWindow(t)).toBeNull();
+    t = feed(engine, 1, 400, t);
+    expect(engine.currentWindow(t)!.rr).toEqual(Array(120).fill(400));
+  });
+
+  it('never builds a time-based window across the gap', () => {
+    const engine = new WindowingEngine(options({ windowMode: 'time' }));
+    let t = feed(engine, 200, 500, START);
+    t = feed(engine, 100, 500, t + 5000);
+    expect(engine.currentWindow(t)).toBeNull();
+    t = feed(engine, 21, 500, t);
+    const window = engine.currentWindow(t)!;
+    expect(window.rr).toHaveLength(120);
+    expect(window.start).toBeGreaterThan(START + 200 * 500 + 5000);
+  });
+
+  it('forgets the pre-gap heart rate, so the new level does not trigger settling', () => {
+    const engine = new WindowingEngine(options({ settlingHrDelta: 10 }));
+    let t = feed(engine, 100, 500, START, 120);
+    t = feed(engine, 1, 400, t + 10000, 150);
+    t = feed(engine, 1, 400, t, 150);
+    expect(engine.settlingRemainingMs(t)).toBe(0);
+  });
+});
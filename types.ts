@@ -3,15 +3,371 @@ export interface RRInterval {
   intervalMs: number;
 }
 
+export type ArtifactMethod = 'quotient' | 'kubios' | 'lipponen' | 'drop';
+export type KubiosLevel = 'veryLow' | 'low' | 'medium' | 'strong' | 'veryStrong';
+
+export type ArtifactCause =
+  | 'range' // Outside physiological RR limits
+  | 'quotient' // Jump from the previous accepted beat too large
+  | 'threshold' // Too far from the local median (Kubios threshold levels)
+  | 'ectopic'
+  | 'missed'
+  | 'extra'
+  | 'longShort';
+
+export interface ArtifactCorrectionOptions {
+  method: ArtifactMethod;
+  kubiosLevel: KubiosLevel; // Only used by the 'kubios' method
+}
+
+export interface ArtifactReport {
+  method?: ArtifactMethod; // Missing in reports recorded before selectable methods
+  totalBeats: number;
+  corrected: number;
+  percent: number; // corrected / totalBeats * 100
+  byCause: Partial<Record<ArtifactCause, number>>;
+  positions: number[]; // Indices of corrected beats within the window
+}
+
 export interface DFADataPoint {
   timestamp: number;
   alpha1: number;
   heartRate: number;
+  power?: number; // Watts, when a power source is connected
+  speed?: number; // m/s, when a footpod is connected
+  cadence?: number; // rpm (power meter) or steps/min (footpod)
+  artifacts?: ArtifactReport; // Missing in sessions recorded before artifact tracking
+  lowQuality?: boolean; // Artifact rate above the session's limit
+  windowStart?: number; // Timestamp of the first beat in the analysed window
+  alpha2?: number; // Long-term exponent, when enabled
+  dfaOptions?: DfaOptions; // Parameters this point was computed with
+  respiratoryRate?: number; // Breaths/min from RSA in the same window; missing when RSA is too weak
+  breathingConfound?: BreathingConfound; // Breathing pattern that may have biased alpha1
 }
 
+export type BreathingConfound =
+  | 'boxRange' // Breath cycle about as short as the smallest DFA boxes
+  | 'paced' // One very regular rhythm dominates, e.g. paced or metronome breathing
+  | 'irregular'; // No clear rhythm, e.g. talking
+
+// Where beats come from: HR strap, H10 raw ECG, a local WebSocket/SSE stream or the simulator
+export type HeartRateSourceKind = 'bluetooth' | 'polar' | 'stream' | 'simulator';
+
 export interface BluetoothState {
+  source: HeartRateSourceKind | null; // Chosen on connect, kept through reconnects
   isConnected: boolean;
   isConnecting: boolean;
+  isReconnecting: boolean;
+  reconnectAttempt: number;
+  deviceName: string | null;
+  error: string | null;
+}
+
+export type SensorKind = 'power' | 'footpod' | 'trainer';
+
+// One measurement notification from an intensity sensor
+export interface SensorReading {
+  kind: SensorKind;
+  timestamp: number;
+  power?: number; // W
+  speed?: number; // m/s
+  cadence?: number; // rpm or steps/min
+}
+
+export interface SensorState {
   deviceName: string | null;
+  isConnected: boolean;
+  isReconnecting: boolean;
+}
+
+// alpha1 cut-offs; above `aerobic` is below AeT, below `anaerobic` is above AnT
+export interface AlphaZones {
+  aerobic: number;
+  anaerobic: number;
+}
+
+export interface AthleteProfile {
+  id: string;
+  name: string;
+  zones: AlphaZones;
+  hrZones: { aerobic: number | null; anaerobic: number | null }; // bpm at AeT/AnT from previous tests
+  preferredSensor: SensorKind | null;
+  createdAt: number;
+}
+
+// Who a session was recorded for, with the zones in effect at the time
+export interface SessionAthlete {
+  id: string;
+  name: string;
+  zones: AlphaZones;
+}
+
+export interface DfaOptions {
+  minBoxSize: number;
+  maxBoxSize: number;
+  boxSpacing: 'linear' | 'log';
+  logBoxCount: number; // Number of sizes when log-spaced
+  boxPlacement: 'forward' | 'forwardBackward' | 'sliding';
+  slidingStep: number; // Beats between box starts for 'sliding'
+  detrendOrder: 1 | 2 | 3; // DFA1 / DFA2 / DFA3
+  computeAlpha2: boolean;
+  alpha2MinBoxSize: number;
+  alpha2MaxBoxSize: number;
+}
+
+export interface SessionSettings {
+  windowMode: 'beats' | 'time';
+  dfaWindowBeats: number; // Window length in 'beats' mode
+  windowSeconds: number; // Window length in 'time' mode
+  recomputeIntervalMs: number; // Also the spacing of history points
+  settlingHrDelta: number; // HR change (bpm within 30 s) that starts a settling period; 0 disables
+  settlingSeconds: number;
+  maxArtifactPercent: number;
+  artifactHandling: 'mark' | 'drop'; // What to do with windows above the limit
+  artifactCorrection: ArtifactCorrectionOptions;
+  dfa: DfaOptions;
+}
+
+export interface TimelineGap {
+  start: number; // Last beat before the dropout
+  end: number; // First beat after it
+}
+
+// Starts a new lap; the lap runs until the next marker or the session end
+export interface LapMarker {
+  timestamp: number;
+  label: string; // Empty for an unlabelled lap
+}
+
+export interface LapStats {
+  index: number; // 1-based
+  label: string;
+  start: number;
+  end: number;
+  durationMs: number;
+  meanHeartRate: number | null;
+  meanAlpha1: number | null; // Low quality windows excluded
+  tailAlpha1: number | null; // Mean over the last LAP_TAIL_MS of the lap
+  artifactPercent: number | null;
+  meanPower: number | null;
+}
+
+export interface RecordedSession {
+  id: string;
+  name: string;
+  deviceName: string | null;
+  startTime: number;
+  endTime: number | null;
+  rrIntervals: RRInterval[]; // Full raw series, timestamp = absolute beat time in ms
+  history: DFADataPoint[];
+  settings: SessionSettings;
+  gaps?: TimelineGap[]; // Sensor dropouts; missing in sessions recorded before gap tracking
+  athlete?: SessionAthlete; // Missing for sessions recorded without a profile
+  laps?: LapMarker[]; // Missing in sessions recorded before lap markers
+}
+
+export type SessionSummary = Omit<RecordedSession, 'rrIntervals' | 'history' | 'gaps' | 'laps'> & {
+  beatCount: number;
+  pointCount: number;
+  lastTimestamp: number; // Last recorded beat or point, used when endTime is missing
+};
+
+export interface ThresholdCrossing {
+  alpha1: number; // The alpha1 level that was crossed
+  value: number; // Intensity at the crossing (bpm or W)
+  ciLow: number; // 95% confidence interval
+  ciHigh: number;
+}
+
+export interface ThresholdEstimate {
+  unit: 'bpm' | 'W' | 'm/s'; // Speed estimates are shown as pace
+  slope: number; // alpha1 per unit of intensity
+  intercept: number;
+  r2: number;
+  n: number; // Points used in the final fit
+  aerobic: ThresholdCrossing | null; // null when the fit never crosses the level
+  anaerobic: ThresholdCrossing | null;
+}
+
+export interface RampTestResult {
+  startTime: number;
+  endTime: number;
+  used: DFADataPoint[];
+  rejected: DFADataPoint[];
+  heartRate: ThresholdEstimate | null;
+  power: ThresholdEstimate | null;
+  speed: ThresholdEstimate | null;
+}
+
+export interface ErgRampSettings {
+  startWatts: number;
+  stepWatts: number;
+  stepSeconds: number; // Minimum step length; a step is held longer until the window settles
+  stopBelowSeconds: number; // Stop once alpha1 stays below AnT this long
+  maxWatts: number; // Safety ceiling
+}
+
+export type ErgRampFinishReason = 'threshold' | 'maxPower' | 'aborted' | 'error';
+
+export interface ErgRampState {
+  status: 'idle' | 'running' | 'finished';
+  step: number; // 1-based
+  targetWatts: number;
+  startedAt: number | null;
+  stepStartedAt: number | null;
+  waitingForSettle: boolean; // Step time is up but the window still spans the previous step
+  belowSince: number | null; // First point of the current run below AnT
+  endedAt: number | null;
+  finishReason: ErgRampFinishReason | null;
   error: string | null;
-}
\ No newline at end of file
+}
+
+export type AlertTrigger = 'belowAerobic' | 'greyZone' | 'hrCap' | 'artifacts' | 'disconnected';
+
+export interface AlertRuleSettings {
+  enabled: boolean;
+  cooldownSeconds: number; // Minimum time between two alerts of this kind
+}
+
+export interface AlertSettings {
+  rules: Record<AlertTrigger, AlertRuleSettings>;
+  alphaHysteresis: number; // alpha1 must move this far back past a cut-off to re-arm
+  greyZoneSeconds: number;
+  hrCap: number; // bpm
+  hrHysteresis: number; // bpm below the cap to re-arm
+  artifactHysteresis: number; // Percentage points below the session limit to re-arm
+  sound: boolean;
+  speech: boolean;
+  vibrate: boolean;
+}
+
+export interface AlertEvent {
+  trigger: AlertTrigger;
+  timestamp: number;
+  message: string; // Shown in the alert log
+  spoken: string; // Read out by speech synthesis
+}
+
+export interface HrvMetrics {
+  beats: number;
+  meanRR: number; // ms
+  meanHr: number; // bpm
+  sdnn: number; // ms
+  rmssd: number; // ms
+  pnn50: number; // % of successive differences > 50 ms
+  artifactPercent: number; // Beats corrected before computing the metrics
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SessionReport {
+  start: number;
+  end: number;
+  durationMs: number;
+  zones: AlphaZones;
+  timeInZone: { aerobic: number; threshold: number; anaerobic: number; lowQuality: number }; // ms
+  hrHistogram: HistogramBin[];
+  alphaHistogram: HistogramBin[];
+  hrv: HrvMetrics | null; // null with fewer than two clean beats
+  gapCount: number;
+  thresholds: RampTestResult;
+}
+
+export type RestingProtocol = 'supine' | 'orthostatic';
+
+export type RestingPhase = 'settle' | 'supine' | 'standing';
+
+export interface FrequencyMetrics {
+  lf: number; // ms², 0.04–0.15 Hz
+  hf: number; // ms², 0.15–0.4 Hz
+  lfHf: number | null; // null when HF power is zero
+  totalPower: number; // ms², 0.0033–0.4 Hz
+}
+
+export interface RestingMetrics extends HrvMetrics {
+  lnRmssd: number;
+  frequency: FrequencyMetrics | null; // null for too short or gappy recordings
+}
+
+export interface OrthostaticResponse {
+  supineHr: number; // Mean over the supine phase
+  peakHr: number; // Highest beat-to-beat HR shortly after standing
+  peakDelta: number;
+  standingHr: number; // Mean over the end of the standing phase
+  standingDelta: number;
+}
+
+export interface RestingTestResult {
+  id: string;
+  timestamp: number; // Test start
+  protocol: RestingProtocol;
+  athleteId: string | null;
+  supine: RestingMetrics;
+  standing: RestingMetrics | null; // Orthostatic protocol only
+  orthostatic: OrthostaticResponse | null;
+  rrIntervals: RRInterval[]; // Raw beats of the whole test
+}
+
+export interface RestingTestState {
+  status: 'idle' | 'running' | 'finished';
+  protocol: RestingProtocol;
+  phase: RestingPhase | null;
+  phaseStartedAt: number | null;
+  phaseEndsAt: number | null;
+  startedAt: number | null;
+  beatCount: number;
+  result: RestingTestResult | null;
+  error: string | null; // Test finished without enough clean data
+}
+
+// One point per day in the readiness trend
+export interface RestingTrendPoint {
+  day: string; // Local date, YYYY-MM-DD
+  timestamp: number;
+  lnRmssd: number;
+  restingHr: number;
+  baselineMean: number | null; // Rolling mean of the preceding days
+  baselineSd: number | null;
+  status: 'low' | 'normal' | 'high' | null; // null until the baseline has enough days
+}
+
+// Where a live view is shared: same-machine BroadcastChannel or a WebSocket relay on the LAN
+export interface CoachChannelSettings {
+  mode: 'off' | 'local' | 'relay';
+  relayUrl: string;
+}
+
+// Snapshot one athlete's monitor publishes to the coach dashboard
+export interface CoachStatus {
+  athleteId: string; // Per-tab publisher id, stable across reloads
+  name: string;
+  timestamp: number; // Sender's clock
+  connected: boolean;
+  reconnecting: boolean;
+  recording: boolean; // A session is in progress
+  heartRate: number | null;
+  alpha1: number | null;
+  artifactPercent: number | null;
+  maxArtifactPercent: number; // The athlete's own session limit
+  lowQuality: boolean;
+  zones: AlphaZones;
+  point: DFADataPoint | null; // Newest history point
+}
+
+export type CoachMessage =
+  | { type: 'status'; status: CoachStatus }
+  | { type: 'leave'; athleteId: string };
+
+// One tile on the coach dashboard
+export interface CoachAthlete {
+  status: CoachStatus;
+  history: DFADataPoint[]; // Points received since the dashboard opened, trimmed to the sparkline span
+  lastSeen: number; // Dashboard clock
+  stale: boolean; // No message for a while: tab closed or network down
+  alertsEnabled: boolean;
+  lastAlert: AlertEvent | null;
+}
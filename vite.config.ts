@@ -1,14 +1,27 @@
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// File the service worker reads on install to precache every built asset
+const PRECACHE_MANIFEST = 'precache-manifest.json';
+
+/** Emits the list of files this build produced, for the service worker to precache. */
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `/${file}`);
+    this.emitFile({ type: 'asset', fileName: PRECACHE_MANIFEST, source: JSON.stringify(files) });
+  },
+});
+
 export default defineConfig(({ mode }) => {
   return {
     server: {
       port: 3000,
       host: '0.0.0.0',
     },
-    plugins: [react()],
+    plugins: [react(), precacheManifest()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),